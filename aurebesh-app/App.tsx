@@ -3,12 +3,16 @@ import { StatusBar } from 'expo-status-bar';
 import { View, Text, StyleSheet } from 'react-native';
 import { AuthProvider } from './src/context/AuthContext';
 import { SettingsProvider } from './src/context/SettingsContext';
+import { SyncProvider } from './src/context/SyncContext';
+import { ReminderProvider } from './src/context/ReminderContext';
 import AppNavigator from './src/navigation/AppNavigator';
 import { loadFonts } from './src/utils/fonts';
 
 /**
  * Main App component that serves as the root of the Aurebesh learning application.
- * Loads custom fonts, wraps the entire app with AuthProvider to manage authentication state globally.
+ * Loads custom fonts, wraps the entire app with AuthProvider to manage authentication state globally,
+ * SyncProvider to upload learning progress in the background and ReminderProvider to schedule
+ * practice reminders.
  * Handles navigation between auth screens and main app screens automatically.
  */
 export default function App() {
@@ -39,8 +43,12 @@ export default function App() {
   return (
     <SettingsProvider>
       <AuthProvider>
-        <StatusBar style="auto" />
-        <AppNavigator />
+        <SyncProvider>
+          <ReminderProvider>
+            <StatusBar style="auto" />
+            <AppNavigator />
+          </ReminderProvider>
+        </SyncProvider>
       </AuthProvider>
     </SettingsProvider>
   );
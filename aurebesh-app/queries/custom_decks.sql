@@ -0,0 +1,38 @@
+-- Custom Decks Table
+-- Stores the practice decks users create from their own words in the Aurebesh app
+
+-- Create the custom_decks table (one row per user per deck)
+CREATE TABLE IF NOT EXISTS custom_decks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  deck_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  words JSONB NOT NULL DEFAULT '[]'::JSONB,
+  details JSONB NOT NULL DEFAULT '{}'::JSONB,
+  is_deleted BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, deck_id)
+);
+
+-- Add per-word details (difficulty, category, notes) to projects created before deck import existed
+ALTER TABLE custom_decks
+  ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_custom_decks_user_id ON custom_decks(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE custom_decks ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can only access their own decks. Deleting a deck marks it deleted instead of
+-- removing the row, so the deletion reaches the user's other devices.
+CREATE POLICY "Users can view their own custom decks" ON custom_decks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own custom decks" ON custom_decks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own custom decks" ON custom_decks
+  FOR UPDATE USING (auth.uid() = user_id);
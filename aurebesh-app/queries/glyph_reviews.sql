@@ -0,0 +1,36 @@
+-- Glyph Reviews Table
+-- Stores spaced-repetition scheduling state for each Aurebesh glyph a user has studied with flashcards
+
+-- Create the glyph_reviews table (one row per user per glyph)
+CREATE TABLE IF NOT EXISTS glyph_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  glyph TEXT NOT NULL,
+  ease NUMERIC(4, 2) DEFAULT 2.5,
+  interval_days NUMERIC(8, 2) DEFAULT 0,
+  repetitions INTEGER DEFAULT 0,
+  lapses INTEGER DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, glyph)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_glyph_reviews_user_id ON glyph_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_glyph_reviews_due_at ON glyph_reviews(due_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE glyph_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can only access their own glyph review state
+CREATE POLICY "Users can view their own glyph reviews" ON glyph_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own glyph reviews" ON glyph_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own glyph reviews" ON glyph_reviews
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,43 @@
+-- Learning Attempts Table
+-- Stores one row per answer given in the Aurebesh app, the raw data behind progress analytics
+
+-- Create the learning_attempts table to log every individual answer
+CREATE TABLE IF NOT EXISTS learning_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES learning_sessions(id) ON DELETE SET NULL,
+  mode TEXT CHECK (mode IN ('read', 'write', 'flashcard', 'choice', 'listen', 'blitz')),
+  prompt TEXT NOT NULL,
+  expected_answer TEXT NOT NULL,
+  given_answer TEXT DEFAULT '',
+  is_correct BOOLEAN DEFAULT FALSE,
+  hint_used BOOLEAN DEFAULT FALSE,
+  answer_revealed BOOLEAN DEFAULT FALSE,
+  response_time_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Allow multiple-choice, listening and Blitz answers on projects created before those modes existed
+ALTER TABLE learning_attempts DROP CONSTRAINT IF EXISTS learning_attempts_mode_check;
+ALTER TABLE learning_attempts
+  ADD CONSTRAINT learning_attempts_mode_check CHECK (mode IN ('read', 'write', 'flashcard', 'choice', 'listen', 'blitz'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_learning_attempts_user_id ON learning_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_learning_attempts_session_id ON learning_attempts(session_id);
+CREATE INDEX IF NOT EXISTS idx_learning_attempts_created_at ON learning_attempts(created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE learning_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can only access their own learning attempts
+CREATE POLICY "Users can view their own learning attempts" ON learning_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own learning attempts" ON learning_attempts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Attempts are never edited, only cleared when the user resets their statistics
+CREATE POLICY "Users can delete their own learning attempts" ON learning_attempts
+  FOR DELETE USING (auth.uid() = user_id);
@@ -13,10 +13,25 @@ CREATE TABLE IF NOT EXISTS learning_sessions (
   max_streak INTEGER DEFAULT 0,
   final_score INTEGER DEFAULT 0,
   session_duration_seconds INTEGER,
+  mode TEXT DEFAULT 'practice' CHECK (mode IN ('practice', 'blitz', 'listen', 'write', 'flashcard', 'choice')),
+  hints_used INTEGER DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Add the session mode to projects created before timed (blitz) rounds existed
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS mode TEXT DEFAULT 'practice';
+
+-- Allow listening, writing, flashcard and multiple-choice sessions on projects created before those modes existed
+ALTER TABLE learning_sessions DROP CONSTRAINT IF EXISTS learning_sessions_mode_check;
+ALTER TABLE learning_sessions
+  ADD CONSTRAINT learning_sessions_mode_check CHECK (mode IN ('practice', 'blitz', 'listen', 'write', 'flashcard', 'choice'));
+
+-- Add hint usage to projects created before progressive hints existed
+ALTER TABLE learning_sessions
+  ADD COLUMN IF NOT EXISTS hints_used INTEGER DEFAULT 0;
+
 -- Create the learning_statistics table for overall user progress
 CREATE TABLE IF NOT EXISTS learning_statistics (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -74,6 +89,12 @@ CREATE POLICY "Users can update their own learning statistics" ON learning_stati
 CREATE OR REPLACE FUNCTION update_learning_statistics()
 RETURNS TRIGGER AS $$
 BEGIN
+  -- Blitz rounds are scored separately and flashcard reviews are self-graded, so neither
+  -- counts towards the statistics
+  IF NEW.mode IN ('blitz', 'flashcard') THEN
+    RETURN NEW;
+  END IF;
+
   -- Insert or update the user's learning statistics
   INSERT INTO learning_statistics (
     user_id,
@@ -194,3 +215,31 @@ BEGIN
   WHERE ls.user_id = target_user_id;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get minutes practised per day for the practice calendar and daily streaks.
+-- Days are counted in the user's own time zone, so a late-evening session is not
+-- attributed to the next day.
+CREATE OR REPLACE FUNCTION get_user_practice_calendar(
+  target_user_id UUID DEFAULT auth.uid(),
+  user_time_zone TEXT DEFAULT 'UTC',
+  start_date DATE DEFAULT (CURRENT_DATE - 365)
+)
+RETURNS TABLE (
+  practice_date DATE,
+  minutes_practiced NUMERIC,
+  session_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    (s.session_start AT TIME ZONE user_time_zone)::DATE,
+    ROUND(COALESCE(SUM(s.session_duration_seconds), 0)::NUMERIC / 60, 1),
+    COUNT(*)::INTEGER
+  FROM learning_sessions s
+  WHERE s.user_id = target_user_id
+    AND target_user_id = auth.uid()
+    AND (s.session_start AT TIME ZONE user_time_zone)::DATE >= start_date
+  GROUP BY (s.session_start AT TIME ZONE user_time_zone)::DATE
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
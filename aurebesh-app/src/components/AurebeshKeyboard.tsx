@@ -1,14 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Dimensions } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
 import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
-import { aurebeshAlphabet } from '../utils/aurebeshTranslator';
+import {
+  aurebeshAlphabet,
+  aurebeshDigraphs,
+  aurebeshNumerals,
+  aurebeshPunctuation,
+  AurebeshCharacter,
+} from '../utils/aurebeshScript';
 import { hapticLight } from '../utils/haptics';
 import { useSettings } from '../context/SettingsContext';
 
 const { width: screenWidth } = Dimensions.get('window');
 
 interface AurebeshKeyboardProps {
-  /** Callback function called when a character is pressed */
+  /** Callback function called when a character or digraph key (e.g. "A" or "TH") is pressed */
   onCharacterPress: (character: string) => void;
   /** Callback function called when backspace is pressed */
   onBackspace: () => void;
@@ -18,10 +25,16 @@ interface AurebeshKeyboardProps {
   onClear: () => void;
 }
 
+/**
+ * Which key set the keyboard is showing
+ */
+type KeyboardMode = 'letters' | 'symbols';
+
 /**
  * Custom Aurebesh keyboard component for inputting Aurebesh characters
  * Displays the alphabet in a grid layout with visual Aurebesh characters
- * and their English equivalents for easy reference
+ * and their English equivalents for easy reference.
+ * A mode key switches between letters and numerals/punctuation.
  */
 export const AurebeshKeyboard: React.FC<AurebeshKeyboardProps> = ({
   onCharacterPress,
@@ -30,6 +43,7 @@ export const AurebeshKeyboard: React.FC<AurebeshKeyboardProps> = ({
   onClear
 }) => {
   const { settings } = useSettings();
+  const [mode, setMode] = useState<KeyboardMode>('letters');
 
   /**
    * Handles character press with haptic feedback
@@ -39,6 +53,15 @@ export const AurebeshKeyboard: React.FC<AurebeshKeyboardProps> = ({
     onCharacterPress(character);
   };
 
+  /**
+   * Handles space and backspace presses with haptic feedback
+   * @param action - The callback to run for the pressed key
+   */
+  const handleControlPress = async (action: () => void) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    action();
+  };
+
   /**
    * Renders alphabet keys in rows
    */
@@ -69,11 +92,96 @@ export const AurebeshKeyboard: React.FC<AurebeshKeyboardProps> = ({
     ));
   };
 
+  /**
+   * Renders a row of glyph keys such as digraphs, numerals or punctuation
+   * @param glyphs - The glyphs to show in this row
+   * @param keyStyle - Extra style for the keys (e.g. wider digraph keys)
+   */
+  const renderGlyphRow = (glyphs: AurebeshCharacter[], keyStyle?: object) => (
+    <View key={glyphs.map(glyph => glyph.english).join('')} style={styles.keyboardRow}>
+      {glyphs.map((glyph) => (
+        <TouchableOpacity
+          key={glyph.english}
+          style={[styles.characterKey, keyStyle]}
+          onPress={() => handleCharacterPress(glyph.english)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel={`${glyph.name}, represents ${glyph.english}`}
+        >
+          <Text style={[styles.aurebeshKeyText, { fontFamily: getAurebeshFontFamily() }]}>
+            {glyph.aurebesh}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  /**
+   * Switches between the letter and numeral/punctuation key sets
+   */
+  const toggleMode = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setMode(prev => (prev === 'letters' ? 'symbols' : 'letters'));
+  };
+
   return (
     <View style={styles.keyboard}>
-      {/* Alphabet Keys */}
-      <View style={styles.alphabetSection}>
-        {renderAlphabetKeys()}
+      {mode === 'letters' ? (
+        <>
+          {/* Alphabet Keys */}
+          <View style={styles.alphabetSection}>
+            {renderAlphabetKeys()}
+          </View>
+
+          {/* Digraph Keys */}
+          {settings.digraphsEnabled && (
+            <View style={styles.alphabetSection}>
+              {renderGlyphRow(aurebeshDigraphs.slice(0, 4), styles.digraphKey)}
+              {renderGlyphRow(aurebeshDigraphs.slice(4), styles.digraphKey)}
+            </View>
+          )}
+        </>
+      ) : (
+        /* Numeral and Punctuation Keys */
+        <View style={styles.alphabetSection}>
+          {renderGlyphRow(aurebeshNumerals.slice(0, 5))}
+          {renderGlyphRow(aurebeshNumerals.slice(5))}
+          {renderGlyphRow(aurebeshPunctuation.slice(0, 6))}
+          {renderGlyphRow(aurebeshPunctuation.slice(6))}
+        </View>
+      )}
+
+      {/* Mode Switch, Space and Backspace */}
+      <View style={styles.keyboardRow}>
+        <TouchableOpacity
+          style={[styles.characterKey, styles.modeKey]}
+          onPress={toggleMode}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel={mode === 'letters' ? 'Show numbers and punctuation' : 'Show letters'}
+        >
+          <Text style={[styles.modeKeyText, { fontFamily: getFontFamily() }]}>
+            {mode === 'letters' ? '123 ?!' : 'ABC'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.characterKey, styles.spaceKey]}
+          onPress={() => handleControlPress(onSpace)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Space"
+        >
+          <Text style={[styles.modeKeyText, { fontFamily: getFontFamily() }]}>space</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.characterKey}
+          onPress={() => handleControlPress(onBackspace)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Backspace"
+        >
+          <MaterialIcons name="backspace" size={20} color="#666" />
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -117,6 +225,20 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  digraphKey: {
+    minWidth: 60,
+    backgroundColor: '#f0f8ff',
+  },
+  modeKey: {
+    minWidth: 80,
+  },
+  spaceKey: {
+    minWidth: 140,
+  },
+  modeKeyText: {
+    fontSize: 14,
+    color: '#666',
+  },
   aurebeshKeyText: {
     fontSize: 18,
     color: '#4f81cb',
@@ -0,0 +1,666 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { WordPair } from '../utils/dictionary';
+import { Deck } from '../utils/decks';
+import { selectNextWord } from '../utils/wordReviews';
+import { tokenizeAurebesh, tokensMatch, translateToAurebesh } from '../utils/aurebeshTranslator';
+import { createSessionId, recordLocalAttempt, recordLocalSession } from '../utils/learningStore';
+import { SessionSummary } from '../utils/learningDatabase';
+import { recordGlyphConfusions } from '../utils/confusionMatrix';
+import {
+  BLITZ_DURATIONS,
+  BlitzDuration,
+  formatBlitzClock,
+  getBlitzBestScore,
+  getBlitzMultiplier,
+  getBlitzPoints,
+} from '../utils/blitz';
+
+interface BlitzChallengeProps {
+  /** Difficulty of the words in the round */
+  difficulty: 'easy' | 'medium' | 'hard';
+  /** Deck to draw words from, or null for all words */
+  deck: Deck | null;
+}
+
+/**
+ * Where the round is: choosing a length, counting down, playing, or showing the summary
+ */
+type BlitzPhase = 'setup' | 'countdown' | 'playing' | 'finished';
+
+/**
+ * Running totals for the current round
+ */
+interface BlitzRoundState {
+  score: number;
+  streak: number;
+  maxStreak: number;
+  attempted: number;
+  correct: number;
+  /** Words answered wrongly or skipped, for the summary */
+  missed: WordPair[];
+}
+
+/**
+ * The last answer, shown briefly above the next word
+ */
+interface BlitzFeedback {
+  isCorrect: boolean;
+  word: WordPair;
+  points: number;
+}
+
+const COUNTDOWN_SECONDS = 3;
+
+const createRoundState = (): BlitzRoundState => ({
+  score: 0,
+  streak: 0,
+  maxStreak: 0,
+  attempted: 0,
+  correct: 0,
+  missed: [],
+});
+
+/**
+ * Timed Read challenge.
+ * The user picks a round length, gets a 3-2-1 countdown, then translates as many
+ * Aurebesh words as possible before time runs out. Answers are submitted from the
+ * keyboard and the next word follows immediately. Finished rounds are saved as blitz
+ * sessions, which stay out of the learning statistics; a round left before the end
+ * is discarded.
+ */
+export const BlitzChallenge: React.FC<BlitzChallengeProps> = ({ difficulty, deck }) => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const [phase, setPhase] = useState<BlitzPhase>('setup');
+  const [duration, setDuration] = useState<BlitzDuration>(60);
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [secondsLeft, setSecondsLeft] = useState<number>(60);
+  const [currentWord, setCurrentWord] = useState<WordPair | null>(null);
+  const [userAnswer, setUserAnswer] = useState('');
+  const [round, setRound] = useState<BlitzRoundState>(createRoundState);
+  const [feedback, setFeedback] = useState<BlitzFeedback | null>(null);
+  const [bestScore, setBestScore] = useState(0);
+  const [isNewBest, setIsNewBest] = useState(false);
+
+  // The round's totals for the timer callback, which outlives a single render
+  const roundRef = useRef(round);
+  roundRef.current = round;
+  const roundStartRef = useRef(new Date());
+  const roundIdRef = useRef(createSessionId());
+  const wordShownAtRef = useRef(Date.now());
+  const inputRef = useRef<TextInput>(null);
+
+  /**
+   * Load the best score for the chosen round length
+   */
+  useEffect(() => {
+    getBlitzBestScore(user?.id, duration).then(setBestScore);
+  }, [user?.id, duration]);
+
+  /**
+   * Count down before the round starts
+   */
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+
+    if (countdown === 0) {
+      beginRound();
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      hapticLight(settings.hapticFeedbackEnabled);
+      setCountdown(countdown - 1);
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [phase, countdown]);
+
+  /**
+   * Run the round clock. Time left is measured from the start time, so the clock stays
+   * right while the app is in the background.
+   */
+  useEffect(() => {
+    if (phase !== 'playing') return;
+
+    const endsAt = roundStartRef.current.getTime() + duration * 1000;
+    const intervalId = setInterval(() => {
+      const remaining = (endsAt - Date.now()) / 1000;
+      setSecondsLeft(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(intervalId);
+        finishRound();
+      }
+    }, 250);
+
+    return () => clearInterval(intervalId);
+  }, [phase, duration]);
+
+  /**
+   * Load the next word; blitz words are random so a round isn't spent on review words
+   */
+  const loadNextWord = (previous?: WordPair) => {
+    setCurrentWord(selectNextWord(difficulty, {}, {
+      random: true,
+      excludeEnglish: previous?.english,
+      words: deck?.words,
+    }));
+    setUserAnswer('');
+    wordShownAtRef.current = Date.now();
+  };
+
+  /**
+   * Start the countdown for a new round
+   */
+  const handleStart = async () => {
+    await hapticMedium(settings.hapticFeedbackEnabled);
+    setRound(createRoundState());
+    setFeedback(null);
+    setIsNewBest(false);
+    setCountdown(COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  /**
+   * Start the clock and show the first word
+   */
+  const beginRound = () => {
+    roundStartRef.current = new Date();
+    roundIdRef.current = createSessionId();
+    setSecondsLeft(duration);
+    loadNextWord();
+    setPhase('playing');
+    hapticSuccess(settings.hapticFeedbackEnabled);
+  };
+
+  /**
+   * The round as it stands, for the learning store
+   */
+  const getRoundSummary = (state: BlitzRoundState, endTime?: Date): SessionSummary => ({
+    id: roundIdRef.current,
+    difficulty,
+    questionsAttempted: state.attempted,
+    questionsCorrect: state.correct,
+    maxStreak: state.maxStreak,
+    score: state.score,
+    startTime: roundStartRef.current,
+    endTime,
+    mode: 'blitz',
+  });
+
+  /**
+   * Save the finished round and show the summary
+   */
+  const finishRound = async () => {
+    setPhase('finished');
+    await hapticSuccess(settings.hapticFeedbackEnabled);
+
+    const finalRound = roundRef.current;
+    const previousBest = await getBlitzBestScore(user?.id, duration);
+    setIsNewBest(finalRound.score > previousBest);
+
+    if (finalRound.attempted > 0) {
+      const endTime = new Date(roundStartRef.current.getTime() + duration * 1000);
+      await recordLocalSession(user?.id, getRoundSummary(finalRound, endTime));
+    }
+    setBestScore(Math.max(previousBest, finalRound.score));
+  };
+
+  /**
+   * Record an answer (or a skip, with no answer given) and move on to the next word
+   */
+  const handleAnswer = async (givenAnswer: string) => {
+    if (!currentWord || phase !== 'playing') return;
+
+    const transliterationOptions = { useDigraphs: settings.digraphsEnabled };
+    const expectedTokens = tokenizeAurebesh(currentWord.english, transliterationOptions);
+    const answerTokens = tokenizeAurebesh(givenAnswer, transliterationOptions);
+    const isCorrect = givenAnswer.length > 0 && tokensMatch(expectedTokens, answerTokens);
+
+    if (givenAnswer.length > 0 && !isCorrect) {
+      recordGlyphConfusions(user?.id, expectedTokens, answerTokens);
+    }
+    recordLocalAttempt(user?.id, {
+      session_id: roundIdRef.current,
+      mode: 'blitz',
+      prompt: currentWord.english,
+      expected_answer: currentWord.english,
+      given_answer: givenAnswer,
+      is_correct: isCorrect,
+      hint_used: false,
+      answer_revealed: false,
+      response_time_ms: Date.now() - wordShownAtRef.current,
+    }, getRoundSummary(round));
+
+    const points = isCorrect ? getBlitzPoints(round.streak) : 0;
+    const streak = isCorrect ? round.streak + 1 : 0;
+    setRound({
+      score: round.score + points,
+      streak,
+      maxStreak: Math.max(round.maxStreak, streak),
+      attempted: round.attempted + 1,
+      correct: round.correct + (isCorrect ? 1 : 0),
+      missed: isCorrect ? round.missed : [...round.missed, currentWord],
+    });
+    setFeedback({ isCorrect, word: currentWord, points });
+    loadNextWord(currentWord);
+    inputRef.current?.focus();
+
+    if (isCorrect) {
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+    } else {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+    }
+  };
+
+  /**
+   * Renders one card of the end-of-round summary
+   */
+  const renderSummaryCard = (icon: keyof typeof MaterialIcons.glyphMap, value: string, label: string) => (
+    <View style={styles.summaryCard} key={label}>
+      <MaterialIcons name={icon} size={24} color="#4f81cb" />
+      <Text style={[styles.summaryValue, { fontFamily: getFontFamily() }]}>{value}</Text>
+      <Text style={[styles.summaryLabel, { fontFamily: getFontFamily() }]}>{label}</Text>
+    </View>
+  );
+
+  if (phase === 'setup') {
+    return (
+      <View style={styles.card}>
+        <MaterialIcons name="timer" size={40} color="#4f81cb" style={styles.centeredIcon} />
+        <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Blitz</Text>
+        <Text style={[styles.cardText, { fontFamily: getFontFamily() }]}>
+          Read as many words as you can before time runs out. Answer correctly in a row to raise your multiplier.
+        </Text>
+
+        <View style={styles.durationRow}>
+          {BLITZ_DURATIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.durationChip, duration === option && styles.durationChipSelected]}
+              onPress={() => {
+                hapticLight(settings.hapticFeedbackEnabled);
+                setDuration(option);
+              }}
+              accessibilityRole="button"
+              accessibilityState={{ selected: duration === option }}
+            >
+              <Text style={[
+                styles.durationChipText,
+                duration === option && styles.durationChipTextSelected,
+                { fontFamily: getFontFamily() },
+              ]}>
+                {formatBlitzClock(option)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.bestText, { fontFamily: getFontFamily() }]}>
+          Best at {formatBlitzClock(duration)}: {bestScore}
+        </Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleStart}>
+          <Text style={[styles.primaryButtonText, { fontFamily: getFontFamily() }]}>Start Blitz</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (phase === 'countdown') {
+    return (
+      <View style={styles.card}>
+        <Text style={[styles.cardText, { fontFamily: getFontFamily() }]}>Get ready...</Text>
+        <Text style={[styles.countdownText, { fontFamily: getFontFamily() }]}>
+          {countdown > 0 ? countdown : 'Go!'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (phase === 'finished') {
+    const accuracy = round.attempted > 0 ? Math.round((round.correct / round.attempted) * 100) : 0;
+
+    return (
+      <View style={styles.card}>
+        <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Time's up!</Text>
+        {isNewBest && (
+          <View style={styles.newBestBadge}>
+            <MaterialIcons name="emoji-events" size={18} color="#fff" />
+            <Text style={[styles.newBestText, { fontFamily: getFontFamily() }]}>New best score</Text>
+          </View>
+        )}
+
+        <View style={styles.summaryGrid}>
+          {renderSummaryCard('star', `${round.score}`, 'Score')}
+          {renderSummaryCard('check-circle', `${round.correct}`, 'Words Read')}
+          {renderSummaryCard('percent', `${accuracy}%`, 'Accuracy')}
+          {renderSummaryCard('local-fire-department', `${round.maxStreak}`, 'Best Streak')}
+          {renderSummaryCard('speed', `${(round.correct / (duration / 60)).toFixed(1)}`, 'Words / Min')}
+          {renderSummaryCard('emoji-events', `${bestScore}`, `Best at ${formatBlitzClock(duration)}`)}
+        </View>
+
+        {round.missed.length > 0 && (
+          <View style={styles.missedContainer}>
+            <Text style={[styles.missedTitle, { fontFamily: getFontFamily() }]}>Words to review</Text>
+            {round.missed.slice(0, 10).map((word, index) => (
+              <View key={`${word.english}-${index}`} style={styles.missedRow}>
+                <Text style={[styles.missedAurebesh, { fontFamily: getAurebeshFontFamily() }]}>
+                  {translateToAurebesh(word.english, { useDigraphs: settings.digraphsEnabled })}
+                </Text>
+                <Text style={[styles.missedEnglish, { fontFamily: getFontFamily() }]}>{word.english}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleStart}>
+          <Text style={[styles.primaryButtonText, { fontFamily: getFontFamily() }]}>Play Again</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setPhase('setup')}>
+          <Text style={[styles.secondaryButtonText, { fontFamily: getFontFamily() }]}>Change Length</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      {/* Clock, score and multiplier */}
+      <View style={styles.statusRow}>
+        <View style={styles.statusItem}>
+          <MaterialIcons name="timer" size={18} color={secondsLeft <= 10 ? '#f44336' : '#4f81cb'} />
+          <Text style={[
+            styles.statusText,
+            secondsLeft <= 10 && styles.statusTextUrgent,
+            { fontFamily: getFontFamily() },
+          ]}>
+            {formatBlitzClock(secondsLeft)}
+          </Text>
+        </View>
+        <Text style={[styles.statusText, { fontFamily: getFontFamily() }]}>{round.score} pts</Text>
+        <View style={styles.multiplierBadge}>
+          <Text style={[styles.multiplierText, { fontFamily: getFontFamily() }]}>
+            ×{getBlitzMultiplier(round.streak)}
+          </Text>
+        </View>
+      </View>
+
+      {feedback && (
+        <Text style={[
+          styles.feedbackText,
+          { color: feedback.isCorrect ? '#4CAF50' : '#f44336', fontFamily: getFontFamily() },
+        ]}>
+          {feedback.isCorrect ? `+${feedback.points}` : `Missed: ${feedback.word.english}`}
+        </Text>
+      )}
+
+      {currentWord && (
+        <View style={styles.aurebeshContainer}>
+          <Text style={[styles.aurebeshText, { fontFamily: getAurebeshFontFamily() }]}>
+            {translateToAurebesh(currentWord.english, { useDigraphs: settings.digraphsEnabled })}
+          </Text>
+        </View>
+      )}
+
+      <TextInput
+        ref={inputRef}
+        style={[styles.input, { fontFamily: getFontFamily() }]}
+        placeholder="Type the word and press return..."
+        value={userAnswer}
+        onChangeText={setUserAnswer}
+        onSubmitEditing={() => handleAnswer(userAnswer.trim())}
+        submitBehavior="submit"
+        returnKeyType="next"
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+      />
+
+      <View style={styles.playButtonsRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => handleAnswer('')}>
+          <Text style={[styles.secondaryButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.playSubmitButton]}
+          onPress={() => handleAnswer(userAnswer.trim())}
+          disabled={!userAnswer.trim()}
+        >
+          <Text style={[styles.primaryButtonText, { fontFamily: getFontFamily() }]}>Submit</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    margin: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  centeredIcon: {
+    alignSelf: 'center',
+  },
+  cardTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  cardText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 21,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 20,
+    gap: 12,
+  },
+  durationChip: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+  },
+  durationChipSelected: {
+    backgroundColor: '#4f81cb',
+  },
+  durationChipText: {
+    fontSize: 16,
+    color: '#4f81cb',
+    fontWeight: '600',
+  },
+  durationChipTextSelected: {
+    color: '#fff',
+  },
+  bestText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#4f81cb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  countdownText: {
+    fontSize: 72,
+    fontWeight: 'bold',
+    color: '#4f81cb',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 4,
+  },
+  statusTextUrgent: {
+    color: '#f44336',
+  },
+  multiplierBadge: {
+    backgroundColor: '#ff9500',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  multiplierText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  feedbackText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  aurebeshContainer: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 32,
+    marginBottom: 16,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    borderStyle: 'dashed',
+  },
+  aurebeshText: {
+    fontSize: 32,
+    color: '#333',
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#4f81cb',
+    fontSize: 16,
+    color: '#333',
+  },
+  playButtonsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  playSubmitButton: {
+    flex: 1,
+    marginTop: 12,
+  },
+  newBestBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    backgroundColor: '#ff9500',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 12,
+  },
+  newBestText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  summaryCard: {
+    width: '48%',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  missedContainer: {
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+    paddingTop: 12,
+  },
+  missedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  missedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  missedAurebesh: {
+    fontSize: 18,
+    color: '#333',
+  },
+  missedEnglish: {
+    fontSize: 15,
+    color: '#666',
+  },
+});
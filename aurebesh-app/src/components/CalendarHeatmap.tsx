@@ -0,0 +1,149 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getFontFamily } from '../utils/fonts';
+import { PracticeDay, addDays, toDateKey } from '../utils/practiceStreaks';
+
+interface CalendarHeatmapProps {
+  /** Minutes practised per day */
+  days: PracticeDay[];
+  /** Missed days covered by a streak freeze, shown in their own colour */
+  frozenDates?: string[];
+  /** Number of weeks to show, ending with the current week (default: 17) */
+  weeks?: number;
+}
+
+/**
+ * Minimum minutes for each shade, darkest first
+ */
+const MINUTE_LEVELS = [
+  { minMinutes: 30, color: '#1f4f99' },
+  { minMinutes: 15, color: '#3566b0' },
+  { minMinutes: 5, color: '#4f81cb' },
+  { minMinutes: 0, color: '#a9c4ec' },
+];
+
+const EMPTY_COLOR = '#ebedf0';
+const FROZEN_COLOR = '#80deea';
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * Colour of a day's cell by minutes practised
+ */
+const getDayColor = (day: PracticeDay | undefined): string => {
+  if (!day || day.sessions === 0) return EMPTY_COLOR;
+  return MINUTE_LEVELS.find(level => day.minutes >= level.minMinutes)?.color ?? EMPTY_COLOR;
+};
+
+/**
+ * GitHub-style practice calendar.
+ * Each column is a week (Sunday at the top) and each cell's shade shows the minutes
+ * practised that day; the last column is the current week.
+ */
+export const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({
+  days,
+  frozenDates = [],
+  weeks = 17,
+}) => {
+  const today = new Date();
+  const todayKey = toDateKey(today);
+  const daysByDate = new Map(days.map(day => [day.date, day]));
+  const frozen = new Set(frozenDates);
+
+  // Start on the Sunday `weeks - 1` weeks before this week's Sunday
+  const firstDay = addDays(todayKey, -today.getDay() - (weeks - 1) * 7);
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => addDays(firstDay, week * 7 + weekday))
+  );
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        <View style={styles.column}>
+          {DAY_LABELS.map((label, index) => (
+            <Text key={index} style={[styles.dayLabel, { fontFamily: getFontFamily() }]}>
+              {index % 2 === 1 ? label : ''}
+            </Text>
+          ))}
+        </View>
+        {columns.map(column => (
+          <View key={column[0]} style={styles.column}>
+            {column.map(date => {
+              const day = daysByDate.get(date);
+              return (
+                <View
+                  key={date}
+                  style={[
+                    styles.cell,
+                    date > todayKey && styles.futureCell,
+                    { backgroundColor: frozen.has(date) ? FROZEN_COLOR : getDayColor(day) },
+                    date === todayKey && styles.todayCell,
+                  ]}
+                  accessibilityLabel={`${date}: ${day ? `${day.minutes} minutes` : 'no practice'}${frozen.has(date) ? ', streak freeze used' : ''}`}
+                />
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={[styles.legendText, { fontFamily: getFontFamily() }]}>Less</Text>
+        {[EMPTY_COLOR, ...[...MINUTE_LEVELS].reverse().map(level => level.color)].map(color => (
+          <View key={color} style={[styles.cell, styles.legendCell, { backgroundColor: color }]} />
+        ))}
+        <Text style={[styles.legendText, { fontFamily: getFontFamily() }]}>More</Text>
+        <View style={[styles.cell, styles.legendCell, styles.legendFrozen, { backgroundColor: FROZEN_COLOR }]} />
+        <Text style={[styles.legendText, { fontFamily: getFontFamily() }]}>Freeze</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  column: {
+    marginRight: 3,
+  },
+  dayLabel: {
+    width: 12,
+    height: 12,
+    marginBottom: 3,
+    fontSize: 9,
+    lineHeight: 12,
+    color: '#999',
+  },
+  cell: {
+    width: 12,
+    height: 12,
+    marginBottom: 3,
+    borderRadius: 2,
+  },
+  futureCell: {
+    opacity: 0,
+  },
+  todayCell: {
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+    gap: 3,
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#666',
+    marginHorizontal: 4,
+  },
+  legendCell: {
+    marginBottom: 0,
+  },
+  legendFrozen: {
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,604 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { getFontFamily } from '../utils/fonts';
+import { hapticLight, hapticSuccess } from '../utils/haptics';
+import { wordDictionary } from '../utils/dictionary';
+import {
+  CustomDeck,
+  Deck,
+  MAX_CUSTOM_DECK_WORDS,
+  deleteCustomDeck,
+  getBuiltInDecks,
+  loadCustomDecks,
+  parseDeckWords,
+  saveCustomDeck,
+  syncCustomDecks,
+  toPracticeDeck,
+} from '../utils/decks';
+import {
+  DECK_FILE_FORMATS,
+  DeckFileFormat,
+  DeckImportError,
+  DeckImportResult,
+  exportDeckFile,
+  importDeckFile,
+} from '../utils/deckTransfer';
+import { CustomWordDetails } from '../utils/learningDatabase';
+
+interface DeckPickerProps {
+  /** The deck being practised, or null for all words */
+  selectedDeck: Deck | null;
+  onSelect: (deck: Deck | null) => void;
+}
+
+/**
+ * The custom deck being created or edited
+ */
+interface DeckDraft {
+  id?: string;
+  name: string;
+  wordsText: string;
+}
+
+const builtInDecks = getBuiltInDecks();
+
+/**
+ * Most skipped rows listed after an import; the rest are counted
+ */
+const MAX_LISTED_IMPORT_ERRORS = 8;
+
+const formatImportError = (error: DeckImportError): string =>
+  error.row !== undefined ? `Row ${error.row}: ${error.message}` : error.message;
+
+/**
+ * Lists the rows an import skipped, shortened for an alert
+ */
+const describeImportErrors = (errors: DeckImportError[]): string => {
+  const listed = errors.slice(0, MAX_LISTED_IMPORT_ERRORS).map(formatImportError);
+  if (errors.length > MAX_LISTED_IMPORT_ERRORS) {
+    listed.push(`…and ${errors.length - MAX_LISTED_IMPORT_ERRORS} more`);
+  }
+  return listed.join('\n');
+};
+
+/**
+ * Deck button for the Read and Write screens.
+ * Opens a picker with the built-in category decks and the learner's own decks, where
+ * custom decks can also be created, edited, deleted, imported from files and exported.
+ */
+export const DeckPicker: React.FC<DeckPickerProps> = ({ selectedDeck, onSelect }) => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const [visible, setVisible] = useState(false);
+  const [customDecks, setCustomDecks] = useState<CustomDeck[]>([]);
+  const [draft, setDraft] = useState<DeckDraft | null>(null);
+
+  /**
+   * Load the learner's decks from the device, then merge in synced decks
+   */
+  useEffect(() => {
+    loadCustomDecks(user?.id).then(setCustomDecks);
+
+    if (user && settings.dataSyncEnabled) {
+      syncCustomDecks(user.id).then(setCustomDecks);
+    }
+  }, [user?.id, settings.dataSyncEnabled]);
+
+  const handleOpen = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setVisible(true);
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setVisible(false);
+  };
+
+  const handleSelect = async (deck: Deck | null) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    onSelect(deck);
+    handleClose();
+  };
+
+  /**
+   * Save the deck being edited and practise it straight away
+   */
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const words = parseDeckWords(draft.wordsText);
+    if (!name) {
+      Alert.alert('Name Required', 'Give your deck a name.');
+      return;
+    }
+    if (words.length === 0) {
+      Alert.alert('No Words', 'Add at least one word, one per line or separated by commas.');
+      return;
+    }
+
+    const saved = await saveCustomDeck(user?.id, { id: draft.id, name, words });
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save deck. Please try again.');
+      return;
+    }
+
+    await hapticSuccess(settings.hapticFeedbackEnabled);
+    setCustomDecks(await loadCustomDecks(user?.id));
+    onSelect(toPracticeDeck(saved));
+    handleClose();
+  };
+
+  /**
+   * Save an imported deck and practise it straight away
+   */
+  const saveImportedDeck = async (result: DeckImportResult) => {
+    const details: Record<string, CustomWordDetails> = {};
+    result.entries.forEach(({ english, ...wordDetails }) => {
+      if (wordDetails.difficulty || wordDetails.category || wordDetails.notes) {
+        details[english] = wordDetails;
+      }
+    });
+
+    const saved = await saveCustomDeck(user?.id, {
+      name: result.name,
+      words: result.entries.map(entry => entry.english),
+      details,
+    });
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save deck. Please try again.');
+      return;
+    }
+
+    await hapticSuccess(settings.hapticFeedbackEnabled);
+    setCustomDecks(await loadCustomDecks(user?.id));
+    onSelect(toPracticeDeck(saved));
+    handleClose();
+  };
+
+  /**
+   * Import a deck from a CSV, JSON or Anki file, showing any rows that will be skipped first
+   */
+  const handleImport = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    const result = await importDeckFile();
+    if (!result) return;
+
+    if (result.entries.length === 0) {
+      Alert.alert('Nothing to Import', describeImportErrors(result.errors));
+      return;
+    }
+
+    const ready = `${result.entries.length} ${result.entries.length === 1 ? 'word' : 'words'} ready to import.`;
+    Alert.alert(
+      `Import "${result.name}"`,
+      result.errors.length > 0
+        ? `${ready}\n\n${result.errors.length} skipped:\n${describeImportErrors(result.errors)}`
+        : ready,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import', onPress: () => saveImportedDeck(result) },
+      ]
+    );
+  };
+
+  /**
+   * Share a custom deck as a file
+   */
+  const handleExport = async (deck: CustomDeck, format: DeckFileFormat) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    const exported = await exportDeckFile(toPracticeDeck(deck), format);
+    if (!exported) {
+      Alert.alert('Error', 'Failed to export deck. Please try again.');
+    }
+  };
+
+  /**
+   * Delete a custom deck after confirming, falling back to all words if it was selected
+   */
+  const handleDelete = (deck: CustomDeck) => {
+    Alert.alert(
+      'Delete Deck',
+      `Delete "${deck.name}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const deleted = await deleteCustomDeck(user?.id, deck.id);
+            if (!deleted) {
+              Alert.alert('Error', 'Failed to delete deck. Please try again.');
+              return;
+            }
+            setCustomDecks(await loadCustomDecks(user?.id));
+            if (selectedDeck?.id === deck.id) onSelect(null);
+            setDraft(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDeckOption = (id: string | null, name: string, wordCount: number, onPress: () => void) => {
+    const isSelected = (selectedDeck?.id ?? null) === id;
+    return (
+      <TouchableOpacity
+        key={id ?? 'all'}
+        style={[styles.deckOption, isSelected && styles.selectedDeck]}
+        onPress={onPress}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isSelected }}
+      >
+        <View style={styles.deckInfo}>
+          <Text style={[styles.deckName, { fontFamily: getFontFamily(), color: isSelected ? '#fff' : '#333' }]}>
+            {name}
+          </Text>
+          <Text style={[styles.deckCount, { fontFamily: getFontFamily(), color: isSelected ? '#E3F2FD' : '#999' }]}>
+            {wordCount} {wordCount === 1 ? 'word' : 'words'}
+          </Text>
+        </View>
+        {isSelected && <MaterialIcons name="check" size={20} color="#fff" />}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDeckList = () => (
+    <ScrollView style={styles.content}>
+      {renderDeckOption(null, 'All words', wordDictionary.length, () => handleSelect(null))}
+
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>My Decks</Text>
+        <View style={styles.sectionActions}>
+          <TouchableOpacity style={styles.newDeckButton} onPress={handleImport}>
+            <MaterialIcons name="file-upload" size={18} color="#4f81cb" />
+            <Text style={[styles.newDeckText, { fontFamily: getFontFamily() }]}>Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.newDeckButton}
+            onPress={() => setDraft({ name: '', wordsText: '' })}
+          >
+            <MaterialIcons name="add" size={18} color="#4f81cb" />
+            <Text style={[styles.newDeckText, { fontFamily: getFontFamily() }]}>New Deck</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {customDecks.length === 0 ? (
+        <Text style={[styles.emptyText, { fontFamily: getFontFamily() }]}>
+          Make a deck of your own words, like names from your favourite films.
+        </Text>
+      ) : (
+        customDecks.map(deck => (
+          <View key={deck.id} style={styles.customDeckRow}>
+            <View style={styles.customDeckOption}>
+              {renderDeckOption(deck.id, deck.name, deck.words.length, () => handleSelect(toPracticeDeck(deck)))}
+            </View>
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => setDraft({ id: deck.id, name: deck.name, wordsText: deck.words.join('\n') })}
+              accessibilityLabel={`Edit ${deck.name}`}
+            >
+              <MaterialIcons name="edit" size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <Text style={[styles.sectionTitle, styles.builtInTitle, { fontFamily: getFontFamily() }]}>Categories</Text>
+      {builtInDecks.map(deck =>
+        renderDeckOption(deck.id, deck.name, deck.words.length, () => handleSelect(deck))
+      )}
+
+      <View style={styles.bottomSpace} />
+    </ScrollView>
+  );
+
+  const renderEditor = (editing: DeckDraft) => {
+    const existing = customDecks.find(deck => deck.id === editing.id);
+    return (
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.inputLabel, { fontFamily: getFontFamily() }]}>Name</Text>
+        <TextInput
+          style={[styles.input, { fontFamily: getFontFamily() }]}
+          value={editing.name}
+          onChangeText={name => setDraft({ ...editing, name })}
+          placeholder="e.g. Rogue One"
+          placeholderTextColor="#999"
+          maxLength={40}
+        />
+
+        <Text style={[styles.inputLabel, { fontFamily: getFontFamily() }]}>Words</Text>
+        <TextInput
+          style={[styles.input, styles.wordsInput, { fontFamily: getFontFamily() }]}
+          value={editing.wordsText}
+          onChangeText={wordsText => setDraft({ ...editing, wordsText })}
+          placeholder={'jyn\ncassian\nscarif'}
+          placeholderTextColor="#999"
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+          textAlignVertical="top"
+        />
+        <Text style={[styles.helperText, { fontFamily: getFontFamily() }]}>
+          One word per line or separated by commas, up to {MAX_CUSTOM_DECK_WORDS}.
+        </Text>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSaveDraft}>
+          <Text style={[styles.saveButtonText, { fontFamily: getFontFamily() }]}>Save and Practise</Text>
+        </TouchableOpacity>
+        {existing && (
+          <>
+            <Text style={[styles.inputLabel, styles.exportLabel, { fontFamily: getFontFamily() }]}>Export</Text>
+            <View style={styles.exportRow}>
+              {(Object.keys(DECK_FILE_FORMATS) as DeckFileFormat[]).map(format => (
+                <TouchableOpacity
+                  key={format}
+                  style={styles.exportButton}
+                  onPress={() => handleExport(existing, format)}
+                >
+                  <MaterialIcons name="ios-share" size={18} color="#4f81cb" />
+                  <Text style={[styles.exportButtonText, { fontFamily: getFontFamily() }]}>
+                    {DECK_FILE_FORMATS[format].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+        {existing && (
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(existing)}>
+            <MaterialIcons name="delete-outline" size={20} color="#f44336" />
+            <Text style={[styles.deleteButtonText, { fontFamily: getFontFamily() }]}>Delete Deck</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.deckButton} onPress={handleOpen}>
+        <MaterialIcons name="style" size={20} color="#4f81cb" />
+        <Text style={[styles.deckButtonText, { fontFamily: getFontFamily() }]} numberOfLines={1}>
+          Deck: {selectedDeck?.name ?? 'All words'}
+        </Text>
+        <MaterialIcons name="expand-more" size={20} color="#4f81cb" />
+      </TouchableOpacity>
+
+      <Modal
+        animationType="slide"
+        transparent={false}
+        visible={visible}
+        onRequestClose={() => (draft ? setDraft(null) : handleClose())}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            {draft ? (
+              <TouchableOpacity onPress={() => setDraft(null)} accessibilityLabel="Back to decks">
+                <MaterialIcons name="arrow-back" size={24} color="#333" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.headerSpacer} />
+            )}
+            <Text style={[styles.modalTitle, { fontFamily: getFontFamily() }]}>
+              {draft ? (draft.id ? 'Edit Deck' : 'New Deck') : 'Select Deck'}
+            </Text>
+            <TouchableOpacity onPress={handleClose}>
+              <MaterialIcons name="close" size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+
+          {draft ? renderEditor(draft) : renderDeckList()}
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  deckButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  deckButtonText: {
+    fontSize: 16,
+    color: '#4f81cb',
+    marginHorizontal: 8,
+    flexShrink: 1,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingTop: 50,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  deckOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  selectedDeck: {
+    backgroundColor: '#4f81cb',
+    borderColor: '#4f81cb',
+  },
+  deckInfo: {
+    flex: 1,
+  },
+  deckName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  deckCount: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  builtInTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  newDeckButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  newDeckText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f81cb',
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  customDeckRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  customDeckOption: {
+    flex: 1,
+  },
+  editButton: {
+    padding: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 12,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 16,
+  },
+  wordsInput: {
+    minHeight: 160,
+    marginBottom: 6,
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 20,
+  },
+  saveButton: {
+    backgroundColor: '#4f81cb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  exportLabel: {
+    marginTop: 24,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+    backgroundColor: '#fff',
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f81cb',
+    marginLeft: 6,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    color: '#f44336',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  bottomSpace: {
+    height: 40,
+  },
+});
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSettings } from '../context/SettingsContext';
+import { getFontFamily } from '../utils/fonts';
+import { hapticLight } from '../utils/haptics';
+import { AurebeshCharacter } from '../utils/aurebeshScript';
+import { getGlyphPronunciation, speakGlyph, stopSpeaking } from '../utils/pronunciation';
+
+interface GlyphPronunciationProps {
+  glyph: AurebeshCharacter;
+  /** Speak the glyph when it's shown, if autoplay is on in settings */
+  autoPlay?: boolean;
+}
+
+/**
+ * A speaker button that says a glyph's name and an example word, with the name's
+ * phonetic respelling beside it. Uses the user's speech rate, and speaks by itself when
+ * the glyph appears if autoplay is on.
+ */
+export const GlyphPronunciation: React.FC<GlyphPronunciationProps> = ({
+  glyph,
+  autoPlay = false,
+}) => {
+  const { settings } = useSettings();
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // Counts utterances, so a cut-off one finishing late doesn't reset the button
+  const utteranceRef = useRef(0);
+  const pronunciation = getGlyphPronunciation(glyph);
+
+  const speak = () => {
+    const utterance = ++utteranceRef.current;
+    setIsSpeaking(true);
+    speakGlyph(glyph, settings.speechRate, () => {
+      if (utteranceRef.current === utterance) setIsSpeaking(false);
+    });
+  };
+
+  /**
+   * Speak each glyph as it appears, and stop when it goes away
+   */
+  useEffect(() => {
+    if (autoPlay && settings.pronunciationAutoplay) {
+      speak();
+    }
+    return () => {
+      stopSpeaking();
+    };
+  }, [glyph.english]);
+
+  const handlePress = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (isSpeaking) {
+      stopSpeaking();
+    } else {
+      speak();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.speakButton, isSpeaking && styles.speakButtonActive]}
+        onPress={handlePress}
+        accessibilityRole="button"
+        accessibilityLabel={isSpeaking ? 'Stop pronunciation' : `Pronounce ${glyph.name}`}
+      >
+        <MaterialIcons name={isSpeaking ? 'stop' : 'volume-up'} size={22} color={isSpeaking ? '#fff' : '#4f81cb'} />
+      </TouchableOpacity>
+      {pronunciation && (
+        <View style={styles.textContainer}>
+          <Text style={[styles.respelling, { fontFamily: getFontFamily() }]}>
+            {pronunciation.respelling}
+          </Text>
+          <Text style={[styles.example, { fontFamily: getFontFamily() }]}>
+            {glyph.english} as in "{pronunciation.example}"
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  speakButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  speakButtonActive: {
+    backgroundColor: '#4f81cb',
+  },
+  textContainer: {
+    marginLeft: 12,
+  },
+  respelling: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    letterSpacing: 1,
+  },
+  example: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+});
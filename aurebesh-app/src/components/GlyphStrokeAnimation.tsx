@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Animated } from 'react-native';
+import Svg, { Circle, Path, Text as SvgText } from 'react-native-svg';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSettings } from '../context/SettingsContext';
+import { getFontFamily } from '../utils/fonts';
+import { hapticLight } from '../utils/haptics';
+import { GlyphStrokes, Stroke } from '../utils/glyphStrokes';
+import { getGuideLayout } from './HandwritingCanvas';
+
+const AnimatedPath = Animated.createAnimatedComponent(Path);
+
+interface GlyphStrokeAnimationProps {
+  strokeData: GlyphStrokes;
+  /** Height of the drawing area; the width allows for the widest glyphs */
+  size?: number;
+  /** Hides the replay and slow-motion controls */
+  hideControls?: boolean;
+}
+
+/**
+ * Time to draw a stroke as long as the glyph is high
+ */
+const MS_PER_UNIT = 600;
+
+/**
+ * How many times longer each stroke takes in slow motion
+ */
+const SLOW_MOTION_FACTOR = 3;
+
+/**
+ * Pause between one stroke finishing and the next starting
+ */
+const STROKE_PAUSE_MS = 200;
+
+/**
+ * Length of a stroke in the glyph's units
+ */
+const getStrokeLength = (stroke: Stroke): number =>
+  stroke.slice(1).reduce((sum, [x, y], index) => sum + Math.hypot(x - stroke[index][0], y - stroke[index][1]), 0);
+
+/**
+ * Draws a glyph stroke by stroke in writing order, with each stroke's start numbered.
+ * Plays once when shown and whenever the glyph changes; the controls replay it at
+ * normal speed or in slow motion.
+ */
+export const GlyphStrokeAnimation: React.FC<GlyphStrokeAnimationProps> = ({
+  strokeData,
+  size = 160,
+  hideControls = false,
+}) => {
+  const { settings } = useSettings();
+  const [slowMotion, setSlowMotion] = useState(false);
+  const progressRef = useRef<Animated.Value[]>([]);
+  const animationRef = useRef<Animated.CompositeAnimation | null>(null);
+
+  const width = size * 1.4;
+  const { scale, offsetX, offsetY } = getGuideLayout(strokeData, width, size);
+  const strokeWidth = scale * 0.14;
+  const lengths = strokeData.strokes.map(stroke => getStrokeLength(stroke) * scale);
+
+  // One progress value per stroke, from 0 (not started) to 1 (drawn)
+  if (progressRef.current.length !== strokeData.strokes.length) {
+    progressRef.current = strokeData.strokes.map(() => new Animated.Value(0));
+  }
+
+  /**
+   * Draws the strokes one after another from a blank glyph
+   */
+  const play = (slow: boolean) => {
+    animationRef.current?.stop();
+    progressRef.current.forEach(value => value.setValue(0));
+
+    const speed = slow ? SLOW_MOTION_FACTOR : 1;
+    animationRef.current = Animated.sequence(
+      strokeData.strokes.flatMap((stroke, index) => [
+        Animated.timing(progressRef.current[index], {
+          toValue: 1,
+          duration: Math.max(250, getStrokeLength(stroke) * MS_PER_UNIT) * speed,
+          // Dash offsets can't use the native driver
+          useNativeDriver: false,
+        }),
+        Animated.delay(STROKE_PAUSE_MS * speed),
+      ])
+    );
+    animationRef.current.start();
+  };
+
+  /**
+   * Play the glyph when it's shown
+   */
+  useEffect(() => {
+    play(slowMotion);
+    return () => {
+      animationRef.current?.stop();
+    };
+  }, [strokeData]);
+
+  const handleReplay = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    play(slowMotion);
+  };
+
+  /**
+   * Switch slow motion on or off and replay at the new speed
+   */
+  const handleSlowMotion = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setSlowMotion(!slowMotion);
+    play(!slowMotion);
+  };
+
+  const toCanvas = ([x, y]: [number, number]) => [offsetX + x * scale, offsetY + y * scale];
+  const toPathData = (stroke: Stroke) =>
+    stroke.map((point, index) => `${index === 0 ? 'M' : 'L'}${toCanvas(point).join(' ')}`).join(' ');
+
+  return (
+    <View style={styles.container}>
+      <Svg width={width} height={size}>
+        {/* The whole glyph, faintly, so the learner sees where each stroke goes */}
+        {strokeData.strokes.map((stroke, index) => (
+          <Path
+            key={`outline-${index}`}
+            d={toPathData(stroke)}
+            fill="none"
+            stroke="#e8edf3"
+            strokeWidth={strokeWidth}
+            strokeLinecap="butt"
+            strokeLinejoin="round"
+          />
+        ))}
+
+        {/* Strokes drawing themselves: the dash slides along the stroke as it's drawn */}
+        {strokeData.strokes.map((stroke, index) => (
+          <AnimatedPath
+            key={`stroke-${index}`}
+            d={toPathData(stroke)}
+            fill="none"
+            stroke="#333"
+            strokeWidth={strokeWidth}
+            strokeLinecap="butt"
+            strokeLinejoin="round"
+            strokeDasharray={[lengths[index], lengths[index]]}
+            strokeDashoffset={progressRef.current[index].interpolate({
+              inputRange: [0, 1],
+              outputRange: [lengths[index], 0],
+            })}
+          />
+        ))}
+
+        {/* Stroke order numbers at each stroke's start */}
+        {strokeData.strokes.map((stroke, index) => {
+          const [x, y] = toCanvas(stroke[0]);
+          return (
+            <React.Fragment key={`order-${index}`}>
+              <Circle cx={x} cy={y} r={scale * 0.08} fill="#4f81cb" />
+              <SvgText
+                x={x}
+                y={y + scale * 0.04}
+                fontSize={scale * 0.11}
+                fontWeight="bold"
+                fill="#fff"
+                textAnchor="middle"
+              >
+                {index + 1}
+              </SvgText>
+            </React.Fragment>
+          );
+        })}
+      </Svg>
+
+      {!hideControls && (
+        <View style={styles.controls}>
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={handleReplay}
+            accessibilityRole="button"
+            accessibilityLabel="Replay stroke order"
+          >
+            <MaterialIcons name="replay" size={18} color="#4f81cb" />
+            <Text style={[styles.controlText, { fontFamily: getFontFamily() }]}>Replay</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.controlButton, slowMotion && styles.controlButtonActive]}
+            onPress={handleSlowMotion}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: slowMotion }}
+          >
+            <MaterialIcons name="slow-motion-video" size={18} color={slowMotion ? '#fff' : '#4f81cb'} />
+            <Text style={[styles.controlText, { fontFamily: getFontFamily() }, slowMotion && styles.controlTextActive]}>
+              Slow motion
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+    gap: 12,
+  },
+  controlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+  },
+  controlButtonActive: {
+    backgroundColor: '#4f81cb',
+  },
+  controlText: {
+    fontSize: 14,
+    color: '#4f81cb',
+    marginLeft: 6,
+  },
+  controlTextActive: {
+    color: '#fff',
+  },
+});
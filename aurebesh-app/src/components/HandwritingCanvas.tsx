@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { View, PanResponder, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Polyline } from 'react-native-svg';
+import { GlyphStrokes, Stroke } from '../utils/glyphStrokes';
+
+interface HandwritingCanvasProps {
+  /** Strokes drawn so far, in canvas pixels */
+  strokes: Stroke[];
+  onStrokesChange: (strokes: Stroke[]) => void;
+  /** A glyph to show faintly underneath for tracing */
+  guide?: GlyphStrokes | null;
+  height?: number;
+  /** Stops drawing, e.g. while a result is shown */
+  disabled?: boolean;
+}
+
+/**
+ * Turns a stroke into SVG path data
+ */
+const toPathData = (stroke: Stroke): string =>
+  stroke.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+
+/**
+ * Where a glyph's unit box sits in the canvas: as large as fits, centred
+ */
+export const getGuideLayout = (guide: GlyphStrokes, width: number, height: number) => {
+  const scale = Math.min(height * 0.7, (width * 0.85) / guide.width);
+  return {
+    scale,
+    offsetX: (width - guide.width * scale) / 2,
+    offsetY: (height - scale) / 2,
+  };
+};
+
+/**
+ * A drawing surface for writing Aurebesh glyphs with a finger.
+ * Each touch from press to release becomes one stroke. When a guide glyph is given, its
+ * strokes are drawn faintly underneath so the learner can trace them.
+ */
+export const HandwritingCanvas: React.FC<HandwritingCanvasProps> = ({
+  strokes,
+  onStrokesChange,
+  guide,
+  height = 260,
+  disabled = false,
+}) => {
+  const [width, setWidth] = useState(0);
+  const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
+
+  // The pan responder is created once, so it reads the latest values through refs
+  const strokesRef = useRef(strokes);
+  strokesRef.current = strokes;
+  const onChangeRef = useRef(onStrokesChange);
+  onChangeRef.current = onStrokesChange;
+  const disabledRef = useRef(disabled);
+  disabledRef.current = disabled;
+  const currentStrokeRef = useRef<Stroke | null>(null);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !disabledRef.current,
+      onMoveShouldSetPanResponder: () => !disabledRef.current,
+      // Keep the enclosing scroll view from taking over mid-stroke
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        const { locationX, locationY } = event.nativeEvent;
+        currentStrokeRef.current = [[locationX, locationY]];
+        setCurrentStroke(currentStrokeRef.current);
+      },
+      onPanResponderMove: event => {
+        if (!currentStrokeRef.current) return;
+        const { locationX, locationY } = event.nativeEvent;
+        currentStrokeRef.current = [...currentStrokeRef.current, [locationX, locationY]];
+        setCurrentStroke(currentStrokeRef.current);
+      },
+      onPanResponderRelease: () => {
+        if (currentStrokeRef.current) {
+          onChangeRef.current([...strokesRef.current, currentStrokeRef.current]);
+        }
+        currentStrokeRef.current = null;
+        setCurrentStroke(null);
+      },
+      onPanResponderTerminate: () => {
+        currentStrokeRef.current = null;
+        setCurrentStroke(null);
+      },
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderGuide = () => {
+    if (!guide || width === 0) return null;
+    const { scale, offsetX, offsetY } = getGuideLayout(guide, width, height);
+    return guide.strokes.map((stroke, index) => (
+      <Polyline
+        key={`guide-${index}`}
+        points={stroke.map(([x, y]) => `${offsetX + x * scale},${offsetY + y * scale}`).join(' ')}
+        fill="none"
+        stroke="#D6E4F5"
+        strokeWidth={scale * 0.14}
+        strokeLinecap="square"
+        strokeLinejoin="miter"
+      />
+    ));
+  };
+
+  return (
+    <View
+      style={[styles.canvas, { height }]}
+      onLayout={handleLayout}
+      {...panResponder.panHandlers}
+    >
+      {/* Touches go to the view, so locations stay relative to the canvas */}
+      <Svg width="100%" height="100%" pointerEvents="none">
+        {renderGuide()}
+        {[...strokes, ...(currentStroke ? [currentStroke] : [])].map((stroke, index) => (
+          <Path
+            key={`stroke-${index}`}
+            d={toPathData(stroke)}
+            fill="none"
+            stroke="#333"
+            strokeWidth={8}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  canvas: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    borderStyle: 'dashed',
+    overflow: 'hidden',
+  },
+});
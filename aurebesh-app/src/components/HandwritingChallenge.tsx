@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSettings } from '../context/SettingsContext';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { GlyphStrokes, Stroke, glyphStrokes } from '../utils/glyphStrokes';
+import { HandwritingResult, recognizeGlyph } from '../utils/handwriting';
+import { HandwritingCanvas } from './HandwritingCanvas';
+import { GlyphStrokeAnimation } from './GlyphStrokeAnimation';
+
+/**
+ * Matches shown under the result, best first
+ */
+const TOP_MATCH_COUNT = 3;
+
+/**
+ * Picks a glyph to draw, different from the previous one where possible
+ */
+const pickGlyph = (pool: GlyphStrokes[], previous?: GlyphStrokes): GlyphStrokes => {
+  const candidates = pool.filter(entry => entry !== previous);
+  const from = candidates.length > 0 ? candidates : pool;
+  return from[Math.floor(Math.random() * from.length)];
+};
+
+/**
+ * Handwriting practice for the Write screen.
+ * Names a glyph and has the learner draw it on a canvas, freehand or by tracing a faint
+ * guide. The drawing is scored on the device against every glyph's reference strokes,
+ * and the result says which glyph it looked most like. A wrong drawing is followed by
+ * the glyph's stroke order.
+ */
+export const HandwritingChallenge: React.FC = () => {
+  const { settings } = useSettings();
+  // Digraphs are only asked for, and only matched against, when they're turned on
+  const pool = settings.digraphsEnabled
+    ? glyphStrokes
+    : glyphStrokes.filter(entry => entry.glyph.kind === 'letter');
+
+  const [target, setTarget] = useState<GlyphStrokes>(() => pickGlyph(pool));
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [showGuide, setShowGuide] = useState(false);
+  const [result, setResult] = useState<HandwritingResult | null>(null);
+
+  /**
+   * Move on to another glyph
+   */
+  const handleNext = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setTarget(pickGlyph(pool, target));
+    setStrokes([]);
+    setResult(null);
+  };
+
+  /**
+   * Take back the last stroke
+   */
+  const handleUndo = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setStrokes(prev => prev.slice(0, -1));
+  };
+
+  /**
+   * Wipe the canvas, keeping the same glyph
+   */
+  const handleClear = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setStrokes([]);
+    setResult(null);
+  };
+
+  const handleToggleGuide = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setShowGuide(prev => !prev);
+  };
+
+  /**
+   * Score the drawing against every glyph in play
+   */
+  const handleCheck = async () => {
+    if (strokes.length === 0) return;
+    const recognized = recognizeGlyph(strokes, target.glyph.english, pool.map(entry => entry.glyph));
+    setResult(recognized);
+    if (recognized.isCorrect) {
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+    } else {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+    }
+  };
+
+  const bestMatch = result?.matches[0];
+
+  return (
+    <View style={styles.card}>
+      <Text style={[styles.instructionText, { fontFamily: getFontFamily() }]}>
+        Draw this glyph:
+      </Text>
+      <View style={styles.promptRow}>
+        <Text style={[styles.glyphName, { fontFamily: getFontFamily() }]}>{target.glyph.name}</Text>
+        <Text style={[styles.glyphEnglish, { fontFamily: getFontFamily() }]}>{target.glyph.english}</Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.guideToggle}
+        onPress={handleToggleGuide}
+        accessibilityRole="switch"
+        accessibilityState={{ checked: showGuide }}
+      >
+        <MaterialIcons name={showGuide ? 'check-box' : 'check-box-outline-blank'} size={20} color="#4f81cb" />
+        <Text style={[styles.guideToggleText, { fontFamily: getFontFamily() }]}>Show a guide to trace</Text>
+      </TouchableOpacity>
+
+      <HandwritingCanvas
+        strokes={strokes}
+        onStrokesChange={setStrokes}
+        guide={showGuide ? target : null}
+        disabled={result !== null}
+      />
+
+      {/* Result */}
+      {result && bestMatch && (
+        <View style={[styles.resultContainer, result.isCorrect ? styles.resultCorrect : styles.resultWrong]}>
+          <View style={styles.resultHeader}>
+            <MaterialIcons
+              name={result.isCorrect ? 'check-circle' : 'cancel'}
+              size={20}
+              color={result.isCorrect ? '#4CAF50' : '#f44336'}
+            />
+            <Text style={[styles.resultTitle, {
+              fontFamily: getFontFamily(),
+              color: result.isCorrect ? '#4CAF50' : '#f44336'
+            }]}>
+              {result.isCorrect ? 'Nicely drawn!' : 'Not quite.'} {Math.round(result.targetScore * 100)}% like {target.glyph.name}
+            </Text>
+          </View>
+          <View style={styles.bestMatchRow}>
+            <Text style={[styles.resultText, { fontFamily: getFontFamily() }]}>
+              Looks most like {bestMatch.glyph.name} ({bestMatch.glyph.english})
+            </Text>
+            <Text style={[styles.matchGlyph, { fontFamily: getAurebeshFontFamily() }]}>
+              {bestMatch.glyph.aurebesh}
+            </Text>
+          </View>
+          {result.matches.slice(0, TOP_MATCH_COUNT).map(match => (
+            <View key={match.glyph.english} style={styles.matchRow}>
+              <Text style={[styles.matchName, { fontFamily: getFontFamily() }]}>
+                {match.glyph.name} ({match.glyph.english})
+              </Text>
+              <View style={styles.matchBar}>
+                <View style={[styles.matchBarFill, { width: `${Math.round(match.score * 100)}%` }]} />
+              </View>
+              <Text style={[styles.matchScore, { fontFamily: getFontFamily() }]}>
+                {Math.round(match.score * 100)}%
+              </Text>
+            </View>
+          ))}
+          {!result.isCorrect && (
+            <View style={styles.strokeOrder}>
+              <Text style={[styles.resultText, { fontFamily: getFontFamily() }]}>
+                How to write {target.glyph.name}:
+              </Text>
+              <GlyphStrokeAnimation strokeData={target} size={100} />
+            </View>
+          )}
+        </View>
+      )}
+
+      {/* Actions */}
+      <View style={styles.actionsRow}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={handleUndo}
+          disabled={strokes.length === 0 || result !== null}
+        >
+          <MaterialIcons name="undo" size={20} color={strokes.length === 0 || result !== null ? '#ccc' : '#666'} />
+          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleClear}>
+          <MaterialIcons name="backspace" size={20} color="#666" />
+          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Clear</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleNext}>
+          <MaterialIcons name="skip-next" size={20} color="#666" />
+          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
+        </TouchableOpacity>
+      </View>
+
+      {result === null ? (
+        <TouchableOpacity
+          style={[styles.submitButton, strokes.length === 0 && styles.submitButtonDisabled]}
+          onPress={handleCheck}
+          disabled={strokes.length === 0}
+        >
+          <Text style={[styles.submitButtonText, { fontFamily: getFontFamily() }]}>Check Drawing</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.submitButton, { backgroundColor: result.isCorrect ? '#4CAF50' : '#ff9500' }]}
+          onPress={result.isCorrect ? handleNext : handleClear}
+        >
+          <Text style={[styles.submitButtonText, { fontFamily: getFontFamily() }]}>
+            {result.isCorrect ? 'Next Glyph' : 'Try Again'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  instructionText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  promptRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  glyphName: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  glyphEnglish: {
+    fontSize: 20,
+    color: '#4f81cb',
+    fontWeight: '600',
+    marginLeft: 10,
+  },
+  guideToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  guideToggleText: {
+    fontSize: 14,
+    color: '#4f81cb',
+    marginLeft: 6,
+  },
+  resultContainer: {
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+    borderLeftWidth: 4,
+  },
+  resultCorrect: {
+    backgroundColor: '#E8F5E8',
+    borderLeftColor: '#4CAF50',
+  },
+  resultWrong: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#f44336',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+    flex: 1,
+  },
+  bestMatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  resultText: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  matchGlyph: {
+    fontSize: 28,
+    color: '#333',
+    marginLeft: 8,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  matchName: {
+    width: 110,
+    fontSize: 13,
+    color: '#666',
+  },
+  matchBar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  matchBarFill: {
+    height: '100%',
+    backgroundColor: '#4f81cb',
+  },
+  matchScore: {
+    width: 40,
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  strokeOrder: {
+    marginTop: 8,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: 16,
+  },
+  actionButton: {
+    alignItems: 'center',
+    padding: 8,
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  submitButton: {
+    backgroundColor: '#4f81cb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#b0c4de',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
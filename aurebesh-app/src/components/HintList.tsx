@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { Hint } from '../utils/hints';
+
+interface HintListProps {
+  /** The hints taken so far, in the order they were given */
+  hints: Hint[];
+}
+
+/**
+ * The hints taken for the current word, newest last, each with the points it cost
+ */
+export const HintList: React.FC<HintListProps> = ({ hints }) => {
+  if (hints.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {hints.map((hint, index) => (
+        <View key={index} style={[styles.hintRow, index > 0 && styles.hintRowSpaced]}>
+          <MaterialIcons name="lightbulb" size={16} color="#ff9500" />
+          <Text style={[styles.hintText, { fontFamily: getFontFamily() }]}>
+            {hint.text}
+            {hint.glyphs && (
+              <Text style={[styles.hintGlyphs, { fontFamily: getAurebeshFontFamily() }]}>
+                {' '}{hint.glyphs}
+              </Text>
+            )}
+          </Text>
+          <Text style={[styles.costText, { fontFamily: getFontFamily() }]}>-{hint.cost}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF8E1',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#FFE082',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hintRowSpaced: {
+    marginTop: 8,
+  },
+  hintText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#F57C00',
+    flex: 1,
+  },
+  hintGlyphs: {
+    fontSize: 18,
+  },
+  costText: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#bf6f00',
+  },
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { LetterGrade, LetterStatus } from '../utils/letterGrade';
+
+interface LetterFeedbackProps {
+  /** The glyph-by-glyph grade of the answer */
+  grade: LetterGrade;
+  /** The answer was a near miss and was given credit */
+  nearMiss?: boolean;
+}
+
+/**
+ * Cell colours for each letter status
+ */
+const STATUS_COLORS: Record<LetterStatus, { background: string; text: string }> = {
+  correct: { background: '#E8F5E8', text: '#388E3C' },
+  substituted: { background: '#FFEBEE', text: '#c62828' },
+  missing: { background: '#FFF3E0', text: '#ef6c00' },
+  extra: { background: '#f0f0f0', text: '#999' },
+};
+
+/**
+ * Glyph-by-glyph feedback for an Aurebesh answer.
+ * Shows the expected spelling with each glyph coloured by how it was answered: green
+ * when right, red with the glyph given in its place, orange when left out, and grey
+ * struck-through glyphs that don't belong.
+ */
+export const LetterFeedback: React.FC<LetterFeedbackProps> = ({ grade, nearMiss = false }) => {
+  const color = grade.isCorrect ? '#4CAF50' : grade.correctLetters > 0 ? '#ff9500' : '#f44336';
+
+  return (
+    <View style={[styles.container, { borderColor: color }]}>
+      <View style={styles.summaryRow}>
+        <MaterialIcons name={grade.isCorrect ? 'check-circle' : 'rule'} size={20} color={color} />
+        <Text style={[styles.summaryText, { color, fontFamily: getFontFamily() }]}>
+          {grade.isCorrect
+            ? 'Correct! Well done!'
+            : nearMiss
+              ? `Near miss! ${grade.correctLetters} of ${grade.totalLetters} letters right, counted toward your score`
+              : `${grade.correctLetters} of ${grade.totalLetters} letters right`}
+        </Text>
+      </View>
+
+      <View style={styles.letterRow}>
+        {grade.letters.map((letter, index) => {
+          const token = letter.expected ?? letter.given;
+          if (!token) return null;
+          if (token.type === 'space') {
+            return <View key={index} style={styles.spaceCell} />;
+          }
+
+          const colors = STATUS_COLORS[letter.status];
+          return (
+            <View
+              key={index}
+              style={[
+                styles.letterCell,
+                { backgroundColor: colors.background },
+                letter.status === 'missing' && styles.missingCell,
+              ]}
+            >
+              <Text style={[
+                styles.glyphText,
+                { color: colors.text, fontFamily: getAurebeshFontFamily() },
+                letter.status === 'extra' && styles.struckText,
+              ]}>
+                {token.glyph}
+              </Text>
+              <Text style={[
+                styles.englishText,
+                { color: colors.text, fontFamily: getFontFamily() },
+                letter.status === 'extra' && styles.struckText,
+              ]}>
+                {token.english.toUpperCase()}
+              </Text>
+              {letter.status === 'substituted' && letter.given && (
+                <Text style={[styles.givenText, { fontFamily: getFontFamily() }]}>
+                  not {letter.given.english.toUpperCase()}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  summaryText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    flex: 1,
+  },
+  letterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  letterCell: {
+    minWidth: 34,
+    borderRadius: 6,
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+    alignItems: 'center',
+  },
+  missingCell: {
+    borderWidth: 1,
+    borderColor: '#ef6c00',
+    borderStyle: 'dashed',
+  },
+  spaceCell: {
+    width: 12,
+  },
+  glyphText: {
+    fontSize: 20,
+  },
+  englishText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  struckText: {
+    textDecorationLine: 'line-through',
+  },
+  givenText: {
+    fontSize: 10,
+    color: '#999',
+  },
+});
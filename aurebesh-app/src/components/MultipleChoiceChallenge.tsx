@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, AppState } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { getRandomWord } from '../utils/dictionary';
+import { translateToAurebesh } from '../utils/aurebeshTranslator';
+import { createSessionId, getLocalAttempts, recordLocalAttempt, recordLocalSession, recordLocalStatistics } from '../utils/learningStore';
+import { SessionSummary } from '../utils/learningDatabase';
+import { ConfusionMatrix, loadConfusionMatrix } from '../utils/confusionMatrix';
+import {
+  CHOICE_LEVELS,
+  CHOICE_LEVEL_WINDOW,
+  ChoiceProgress,
+  ChoiceQuestion,
+  buildChoiceQuestion,
+  getChoiceLevel,
+  loadChoiceProgress,
+  recordChoiceAnswer,
+} from '../utils/multipleChoice';
+
+/**
+ * Running totals for the current multiple-choice session
+ */
+interface ChoiceSession {
+  id: string;
+  startTime: Date;
+  attempted: number;
+  correct: number;
+  streak: number;
+  maxStreak: number;
+}
+
+const createChoiceSession = (): ChoiceSession => ({
+  id: createSessionId(),
+  startTime: new Date(),
+  attempted: 0,
+  correct: 0,
+  streak: 0,
+  maxStreak: 0,
+});
+
+/**
+ * Multiple-choice Read practice for new learners.
+ * Shows an Aurebesh word and four English options. The learner's level on the
+ * multiple-choice curve picks the word difficulty and how close the distractors are,
+ * and moves up or down with their recent answers. Each visit is saved as a session.
+ */
+export const MultipleChoiceChallenge: React.FC = () => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<ChoiceProgress>({ level: 1, recentResults: [] });
+  const [question, setQuestion] = useState<ChoiceQuestion | null>(null);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [levelChange, setLevelChange] = useState<'up' | 'down' | null>(null);
+
+  // Personalisation for distractors, loaded once per user and kept up to date locally
+  const confusionsRef = useRef<ConfusionMatrix>({});
+  const attemptCountRef = useRef(0);
+  const questionShownAtRef = useRef(Date.now());
+  const advanceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sessionRef = useRef<ChoiceSession>(createChoiceSession());
+  const levelRef = useRef(progress.level);
+  levelRef.current = progress.level;
+
+  /**
+   * Load the learner's level and answer history, then ask the first question
+   */
+  useEffect(() => {
+    Promise.all([
+      loadChoiceProgress(user?.id),
+      loadConfusionMatrix(user?.id),
+      getLocalAttempts(user?.id),
+    ]).then(([loadedProgress, confusions, attempts]) => {
+      confusionsRef.current = confusions;
+      attemptCountRef.current = attempts.length;
+      setProgress(loadedProgress);
+      loadNextQuestion(loadedProgress.level);
+    });
+
+    return () => {
+      if (advanceTimeoutRef.current) clearTimeout(advanceTimeoutRef.current);
+    };
+  }, [user?.id]);
+
+  /**
+   * The session as it stands, filed under the word difficulty of the level reached
+   */
+  const getSessionSummary = (session: ChoiceSession): SessionSummary => ({
+    id: session.id,
+    difficulty: getChoiceLevel(levelRef.current).wordDifficulty,
+    questionsAttempted: session.attempted,
+    questionsCorrect: session.correct,
+    maxStreak: session.maxStreak,
+    score: session.correct,
+    startTime: session.startTime,
+    mode: 'choice',
+  });
+
+  /**
+   * Save the session so far, if anything was answered, and start a new one
+   */
+  const saveSession = () => {
+    const finished = sessionRef.current;
+    sessionRef.current = createChoiceSession();
+    if (finished.attempted > 0) {
+      recordLocalSession(user?.id, getSessionSummary(finished));
+    }
+  };
+
+  /**
+   * Start a session when practice is shown and save it when the user leaves, or when the
+   * app goes to the background, where it may be closed
+   */
+  useFocusEffect(
+    useCallback(() => {
+      sessionRef.current = createChoiceSession();
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'background') saveSession();
+      });
+      return () => {
+        subscription.remove();
+        saveSession();
+      };
+    }, [user?.id])
+  );
+
+  /**
+   * Build the next question for a level
+   */
+  const loadNextQuestion = (level: number, previousWord?: string) => {
+    const choiceLevel = getChoiceLevel(level);
+    let word = getRandomWord(choiceLevel.wordDifficulty);
+    // One retry is enough to avoid asking the same word twice in a row
+    if (word.english === previousWord) {
+      word = getRandomWord(choiceLevel.wordDifficulty);
+    }
+
+    setQuestion(buildChoiceQuestion(word, choiceLevel, {
+      confusions: confusionsRef.current,
+      attemptCount: attemptCountRef.current,
+      useDigraphs: settings.digraphsEnabled,
+    }));
+    setSelectedOption(null);
+    questionShownAtRef.current = Date.now();
+  };
+
+  /**
+   * Check the chosen option, record it and update the level
+   */
+  const handleSelect = async (option: string) => {
+    if (!question || selectedOption !== null) return;
+
+    const isCorrect = option === question.word.english;
+    setSelectedOption(option);
+
+    const session = sessionRef.current;
+    const streak = isCorrect ? session.streak + 1 : 0;
+    const updatedSession = {
+      ...session,
+      attempted: session.attempted + 1,
+      correct: session.correct + (isCorrect ? 1 : 0),
+      streak,
+      maxStreak: Math.max(session.maxStreak, streak),
+    };
+    sessionRef.current = updatedSession;
+    recordLocalAttempt(user?.id, {
+      session_id: session.id,
+      mode: 'choice',
+      prompt: question.word.english,
+      expected_answer: question.word.english,
+      given_answer: option,
+      is_correct: isCorrect,
+      hint_used: false,
+      answer_revealed: false,
+      response_time_ms: Date.now() - questionShownAtRef.current,
+    }, getSessionSummary(updatedSession));
+    recordLocalStatistics(user?.id, {
+      questions_attempted: 1,
+      questions_correct: isCorrect ? 1 : 0,
+      current_streak: streak,
+      difficulty: getChoiceLevel(levelRef.current).wordDifficulty,
+    });
+    attemptCountRef.current += 1;
+
+    const updated = await recordChoiceAnswer(user?.id, isCorrect);
+    setLevelChange(updated.level > progress.level ? 'up' : updated.level < progress.level ? 'down' : null);
+    setProgress(updated);
+
+    if (isCorrect) {
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+      // Auto-advance after a correct answer
+      advanceTimeoutRef.current = setTimeout(() => {
+        loadNextQuestion(updated.level, question.word.english);
+      }, 1000);
+    } else {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+    }
+  };
+
+  /**
+   * Move on after a wrong answer
+   */
+  const handleNext = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    loadNextQuestion(progress.level, question?.word.english);
+  };
+
+  /**
+   * Colours an option once an answer has been chosen
+   */
+  const getOptionStyle = (option: string) => {
+    if (selectedOption === null || !question) return null;
+    if (option === question.word.english) return styles.correctOption;
+    if (option === selectedOption) return styles.wrongOption;
+    return styles.dimmedOption;
+  };
+
+  const choiceLevel = getChoiceLevel(progress.level);
+
+  return (
+    <View style={styles.card}>
+      {/* Level and progress towards the next level */}
+      <View style={styles.levelRow}>
+        <Text style={[styles.levelText, { fontFamily: getFontFamily() }]}>
+          Level {choiceLevel.level} of {CHOICE_LEVELS.length}
+        </Text>
+        <Text style={[styles.levelDetail, { fontFamily: getFontFamily() }]}>
+          {choiceLevel.wordDifficulty.charAt(0).toUpperCase() + choiceLevel.wordDifficulty.slice(1)} words
+        </Text>
+      </View>
+      <View style={styles.resultDots}>
+        {Array.from({ length: CHOICE_LEVEL_WINDOW }, (_, index) => {
+          const result = progress.recentResults[index];
+          return (
+            <View
+              key={index}
+              style={[
+                styles.resultDot,
+                result === true && styles.resultDotCorrect,
+                result === false && styles.resultDotWrong,
+              ]}
+            />
+          );
+        })}
+      </View>
+
+      {levelChange && (
+        <View style={[styles.levelBanner, levelChange === 'down' && styles.levelBannerDown]}>
+          <MaterialIcons name={levelChange === 'up' ? 'trending-up' : 'trending-down'} size={18} color="#fff" />
+          <Text style={[styles.levelBannerText, { fontFamily: getFontFamily() }]}>
+            {levelChange === 'up' ? `Level up! Now level ${progress.level}` : `Back to level ${progress.level}`}
+          </Text>
+        </View>
+      )}
+
+      {question && (
+        <>
+          <Text style={[styles.instructionText, { fontFamily: getFontFamily() }]}>
+            Which word is this?
+          </Text>
+          <View style={styles.aurebeshContainer}>
+            <Text style={[styles.aurebeshText, { fontFamily: getAurebeshFontFamily() }]}>
+              {translateToAurebesh(question.word.english, { useDigraphs: settings.digraphsEnabled })}
+            </Text>
+          </View>
+
+          {question.options.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, getOptionStyle(option)]}
+              onPress={() => handleSelect(option)}
+              disabled={selectedOption !== null}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.optionText, { fontFamily: getFontFamily() }]}>{option}</Text>
+              {selectedOption !== null && option === question.word.english && (
+                <MaterialIcons name="check-circle" size={20} color="#4CAF50" />
+              )}
+              {option === selectedOption && option !== question.word.english && (
+                <MaterialIcons name="cancel" size={20} color="#f44336" />
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {selectedOption !== null && selectedOption !== question.word.english && (
+            <TouchableOpacity style={styles.nextButton} onPress={handleNext}>
+              <Text style={[styles.nextButtonText, { fontFamily: getFontFamily() }]}>Next Word</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    margin: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  levelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  levelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  levelDetail: {
+    fontSize: 14,
+    color: '#666',
+  },
+  resultDots: {
+    flexDirection: 'row',
+    marginTop: 8,
+    marginBottom: 16,
+    gap: 6,
+  },
+  resultDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#e0e0e0',
+  },
+  resultDotCorrect: {
+    backgroundColor: '#4CAF50',
+  },
+  resultDotWrong: {
+    backgroundColor: '#f44336',
+  },
+  levelBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 16,
+  },
+  levelBannerDown: {
+    backgroundColor: '#ff9500',
+  },
+  levelBannerText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  instructionText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  aurebeshContainer: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 40,
+    marginBottom: 24,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    borderStyle: 'dashed',
+  },
+  aurebeshText: {
+    fontSize: 32,
+    color: '#333',
+    textAlign: 'center',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+    marginBottom: 10,
+  },
+  correctOption: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#E8F5E8',
+  },
+  wrongOption: {
+    borderColor: '#f44336',
+    backgroundColor: '#FFEBEE',
+  },
+  dimmedOption: {
+    opacity: 0.5,
+  },
+  optionText: {
+    fontSize: 17,
+    color: '#333',
+  },
+  nextButton: {
+    backgroundColor: '#ff9500',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  nextButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
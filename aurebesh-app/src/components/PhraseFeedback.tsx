@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFontFamily } from '../utils/fonts';
+import { PhraseGrade } from '../utils/phrases';
+
+interface PhraseFeedbackProps {
+  /** The word-by-word grade of the answer */
+  grade: PhraseGrade;
+}
+
+/**
+ * Word-by-word feedback for a phrase answer.
+ * Shows the partial credit earned and each word of the phrase, green when right and
+ * red with the word given in its place when wrong or missing.
+ */
+export const PhraseFeedback: React.FC<PhraseFeedbackProps> = ({ grade }) => {
+  const color = grade.isCorrect ? '#4CAF50' : grade.correctWords > 0 ? '#ff9500' : '#f44336';
+
+  return (
+    <View style={[styles.container, { borderColor: color }]}>
+      <View style={styles.summaryRow}>
+        <MaterialIcons name={grade.isCorrect ? 'check-circle' : 'rule'} size={20} color={color} />
+        <Text style={[styles.summaryText, { color, fontFamily: getFontFamily() }]}>
+          {grade.isCorrect
+            ? 'Correct! Well done!'
+            : `${grade.correctWords} of ${grade.totalWords} words right (${Math.round(grade.credit * 100)}%)`}
+        </Text>
+      </View>
+
+      <View style={styles.wordRow}>
+        {grade.words.map((word, index) => (
+          <View
+            key={`${word.expected}-${index}`}
+            style={[styles.wordChip, word.isCorrect ? styles.correctChip : styles.wrongChip]}
+          >
+            <Text style={[
+              styles.wordText,
+              { color: word.isCorrect ? '#388E3C' : '#c62828', fontFamily: getFontFamily() },
+            ]}>
+              {word.expected}
+            </Text>
+            {!word.isCorrect && (
+              <Text style={[styles.givenText, { fontFamily: getFontFamily() }]}>
+                {word.given ?? 'missing'}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {grade.extraWords.length > 0 && (
+        <Text style={[styles.extraText, { fontFamily: getFontFamily() }]}>
+          Not in the phrase: {grade.extraWords.join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  summaryText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    flex: 1,
+  },
+  wordRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  wordChip: {
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    alignItems: 'center',
+  },
+  correctChip: {
+    backgroundColor: '#E8F5E8',
+  },
+  wrongChip: {
+    backgroundColor: '#FFEBEE',
+  },
+  wordText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  givenText: {
+    fontSize: 12,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  extraText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+});
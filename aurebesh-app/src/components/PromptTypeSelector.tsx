@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFontFamily } from '../utils/fonts';
+
+/**
+ * What practice prompts are made of
+ */
+export type PromptType = 'words' | 'phrases';
+
+interface PromptTypeSelectorProps {
+  value: PromptType;
+  onChange: (promptType: PromptType) => void;
+}
+
+const PROMPT_TYPES: { type: PromptType; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { type: 'words', label: 'Words', icon: 'short-text' },
+  { type: 'phrases', label: 'Phrases', icon: 'notes' },
+];
+
+/**
+ * Switch between single-word prompts and phrases on the Read and Write screens
+ */
+export const PromptTypeSelector: React.FC<PromptTypeSelectorProps> = ({ value, onChange }) => (
+  <View style={styles.container}>
+    {PROMPT_TYPES.map(({ type, label, icon }) => (
+      <TouchableOpacity
+        key={type}
+        style={[styles.option, value === type && styles.selectedOption]}
+        onPress={() => onChange(type)}
+        accessibilityRole="button"
+        accessibilityState={{ selected: value === type }}
+      >
+        <MaterialIcons name={icon} size={18} color={value === type ? '#4f81cb' : '#666'} />
+        <Text style={[
+          styles.optionText,
+          { fontFamily: getFontFamily(), color: value === type ? '#4f81cb' : '#666' },
+        ]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    gap: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  selectedOption: {
+    borderColor: '#4f81cb',
+    backgroundColor: '#E3F2FD',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -5,3 +5,16 @@
 
 export { AnimatedAuthNavigator } from './AnimatedAuthNavigator';
 export { AurebeshKeyboard } from './AurebeshKeyboard';
+export { BlitzChallenge } from './BlitzChallenge';
+export { CalendarHeatmap } from './CalendarHeatmap';
+export { DeckPicker } from './DeckPicker';
+export { GlyphPronunciation } from './GlyphPronunciation';
+export { GlyphStrokeAnimation } from './GlyphStrokeAnimation';
+export { HandwritingCanvas } from './HandwritingCanvas';
+export { HandwritingChallenge } from './HandwritingChallenge';
+export { HintList } from './HintList';
+export { LetterFeedback } from './LetterFeedback';
+export { MultipleChoiceChallenge } from './MultipleChoiceChallenge';
+export { PhraseFeedback } from './PhraseFeedback';
+export { PromptTypeSelector } from './PromptTypeSelector';
+export type { PromptType } from './PromptTypeSelector';
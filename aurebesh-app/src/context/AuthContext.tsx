@@ -1,6 +1,30 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../utils/supabase';
+import { migrateGuestLearningData } from '../utils/learningStore';
+import { migrateGuestWordReviews } from '../utils/wordReviews';
+import { migrateGuestConfusions } from '../utils/confusionMatrix';
+import { migrateGuestChoiceProgress } from '../utils/multipleChoice';
+import { migrateGuestCustomDecks } from '../utils/decks';
+import { migrateGuestGlyphReviews } from '../utils/glyphReviews';
+import { createSerialQueue } from '../utils/storage';
+
+/**
+ * Storage key remembering that the app is being used as a guest
+ */
+const GUEST_MODE_KEY = '@aurebesh_guest_mode';
+
+/**
+ * Sign-in events can arrive while an earlier migration is still running; handling them
+ * one at a time keeps guest progress from being migrated twice
+ */
+const runSessionTask = createSerialQueue();
+
+/**
+ * Accounts whose guest progress has already been migrated while the app has been running
+ */
+const migratedUserIds = new Set<string>();
 
 /**
  * Authentication context interface defining the shape of auth-related data and functions.
@@ -9,6 +33,9 @@ interface AuthContextType {
   session: Session | null;
   user: User | null;
   loading: boolean;
+  isGuest: boolean;
+  continueAsGuest: () => Promise<void>;
+  exitGuestMode: () => Promise<void>;
   signIn: (email: string, password: string) => Promise<{ error?: any }>;
   signUp: (email: string, password: string) => Promise<{ error?: any; data?: any }>;
   signOut: () => Promise<void>;
@@ -42,29 +69,79 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isGuest, setIsGuest] = useState(false);
+
+  /**
+   * Apply a session change
+   * @param session - The new session, or null when signed out
+   */
+  const applySession = (session: Session | null) => {
+    setSession(session);
+    setUser(session?.user ?? null);
+    setLoading(false);
+  };
+
+  /**
+   * Move any progress made as a guest on this device into an account that has just
+   * signed in. Runs once per account, after the session is applied.
+   * @param userId - The id of the account that signed in
+   */
+  const migrateGuestProgress = (userId: string) =>
+    runSessionTask(async () => {
+      if (migratedUserIds.has(userId)) return;
+      migratedUserIds.add(userId);
+
+      await migrateGuestLearningData(userId);
+      await migrateGuestWordReviews(userId);
+      await migrateGuestConfusions(userId);
+      await migrateGuestChoiceProgress(userId);
+      await migrateGuestCustomDecks(userId);
+      await migrateGuestGlyphReviews(userId);
+      await AsyncStorage.removeItem(GUEST_MODE_KEY);
+      setIsGuest(false);
+    });
 
   /**
    * Initialize authentication state by checking for existing session.
    * Sets up session listener to handle auth state changes.
    */
   useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
+    // Get initial session, restoring guest mode if no one is signed in
+    Promise.all([supabase.auth.getSession(), AsyncStorage.getItem(GUEST_MODE_KEY)])
+      .then(([{ data: { session } }, guestMode]) => {
+        setIsGuest(!session && guestMode === 'true');
+        applySession(session);
+      });
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      applySession(session);
+      if (event === 'SIGNED_IN' && session?.user) {
+        migrateGuestProgress(session.user.id);
+      }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  /**
+   * Use the app without an account. Progress is stored on this device only until
+   * the guest signs up or signs in.
+   */
+  const continueAsGuest = async () => {
+    await AsyncStorage.setItem(GUEST_MODE_KEY, 'true');
+    setIsGuest(true);
+  };
+
+  /**
+   * Leave guest mode and return to the sign-in screens.
+   * Guest progress stays on the device and is migrated when an account signs in.
+   */
+  const exitGuestMode = async () => {
+    await AsyncStorage.removeItem(GUEST_MODE_KEY);
+    setIsGuest(false);
+  };
+
   /**
    * Sign in user with email and password.
    * @param email - User's email address
@@ -135,6 +212,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     session,
     user,
     loading,
+    isGuest,
+    continueAsGuest,
+    exitGuestMode,
     signIn,
     signUp,
     signOut,
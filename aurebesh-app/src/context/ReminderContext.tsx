@@ -0,0 +1,125 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { cancelPracticeReminders, getReminderPermission, requestReminderPermission, schedulePracticeReminders } from '../utils/reminders';
+import { hasPracticedToday } from '../utils/practiceStreaks';
+import { createSerialQueue } from '../utils/storage';
+
+/**
+ * Reminder context interface
+ */
+interface ReminderContextType {
+  /** Whether notifications may be shown; null until checked and while the user can still be asked */
+  permissionGranted: boolean | null;
+  rescheduleReminders: () => Promise<void>;
+  /** Asks for permission to notify, then schedules reminders; used when the user turns them on */
+  requestPermission: () => Promise<boolean>;
+}
+
+const ReminderContext = createContext<ReminderContextType | undefined>(undefined);
+
+/**
+ * Scheduling runs can overlap (a settings change while the app is backgrounding);
+ * running them one at a time keeps them from cancelling each other's reminders
+ */
+const runReminderTask = createSerialQueue();
+
+/**
+ * Reminder provider component that keeps local practice reminders in step with the
+ * Notifications setting, the chosen time and weekdays, and whether the user has
+ * practised today. Reminders are rescheduled when the app moves to the background,
+ * so a session just finished cancels today's reminder.
+ */
+export const ReminderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { session, user, isGuest } = useAuth();
+  const { settings } = useSettings();
+  const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
+
+  // Latest values for the AppState listener, which outlives a single render
+  const latestRef = useRef({ settings, userId: user?.id, inApp: false });
+  latestRef.current = { settings, userId: user?.id, inApp: !!session || isGuest };
+
+  /**
+   * Cancel or reschedule reminders to match the current settings
+   */
+  const rescheduleReminders = () =>
+    runReminderTask(async () => {
+      const { settings: current, userId, inApp } = latestRef.current;
+
+      if (!inApp || !current.notificationsEnabled) {
+        await cancelPracticeReminders();
+        return;
+      }
+
+      // Only checked here: the user is asked when they turn reminders on, not at launch
+      const granted = await getReminderPermission();
+      setPermissionGranted(granted);
+      if (!granted) return;
+
+      await schedulePracticeReminders(
+        { time: current.reminderTime, weekdays: current.reminderWeekdays },
+        await hasPracticedToday(userId)
+      );
+    });
+
+  /**
+   * Ask for permission to show notifications and schedule reminders if it is given
+   * @returns True if notifications may be shown
+   */
+  const requestPermission = async (): Promise<boolean> => {
+    const granted = await requestReminderPermission();
+    await rescheduleReminders();
+    return granted;
+  };
+
+  /**
+   * Reschedule whenever the setting, schedule or user changes
+   */
+  useEffect(() => {
+    rescheduleReminders();
+  }, [
+    settings.notificationsEnabled,
+    settings.reminderTime,
+    settings.reminderWeekdays.join(','),
+    user?.id,
+    !!session || isGuest,
+  ]);
+
+  /**
+   * Reschedule when leaving the app (to skip today after practising) and when returning
+   * (to top up the days ahead)
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'background' || state === 'active') {
+        rescheduleReminders();
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  const value: ReminderContextType = {
+    permissionGranted,
+    rescheduleReminders,
+    requestPermission,
+  };
+
+  return (
+    <ReminderContext.Provider value={value}>
+      {children}
+    </ReminderContext.Provider>
+  );
+};
+
+/**
+ * Hook to use reminder context
+ */
+export const useReminders = (): ReminderContextType => {
+  const context = useContext(ReminderContext);
+  if (!context) {
+    throw new Error('useReminders must be used within a ReminderProvider');
+  }
+  return context;
+};
@@ -10,6 +10,18 @@ interface UserSettings {
   crashReportingEnabled: boolean;
   hapticFeedbackEnabled: boolean;
   dataSyncEnabled: boolean;
+  digraphsEnabled: boolean;
+  randomWordOrder: boolean;
+  /** Give Read and Write answers one glyph off the right spelling credit toward the score */
+  nearMissCredit: boolean;
+  /** Pace of spoken glyph names, as an expo-speech rate where 1 is normal */
+  speechRate: number;
+  /** Say a glyph's name when its detail view or flashcard answer is shown */
+  pronunciationAutoplay: boolean;
+  /** Practice reminder time as "HH:MM", in the device's time zone */
+  reminderTime: string;
+  /** Days of the week to send practice reminders on, 0 = Sunday ... 6 = Saturday */
+  reminderWeekdays: number[];
 }
 
 /**
@@ -21,6 +33,13 @@ const DEFAULT_SETTINGS: UserSettings = {
   crashReportingEnabled: true,
   hapticFeedbackEnabled: true,
   dataSyncEnabled: true,
+  digraphsEnabled: true,
+  randomWordOrder: false,
+  nearMissCredit: false,
+  speechRate: 1,
+  pronunciationAutoplay: false,
+  reminderTime: '19:00',
+  reminderWeekdays: [0, 1, 2, 3, 4, 5, 6],
 };
 
 /**
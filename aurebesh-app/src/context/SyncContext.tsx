@@ -0,0 +1,140 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { getPendingSyncCount, getRejectedSyncCount, processSyncQueue, subscribeToSyncQueue } from '../utils/learningStore';
+
+/**
+ * Sync context interface
+ */
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  /** Uploads the database refused, kept on the device */
+  rejectedCount: number;
+  lastSyncedAt: Date | null;
+  syncNow: () => Promise<boolean>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+/**
+ * Sync provider component that uploads queued learning progress in the background.
+ * Syncs when connectivity returns and whenever new progress is queued while online,
+ * but only for signed-in users who have Data Sync enabled.
+ */
+export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+
+  // Latest values for the NetInfo and queue listeners, which outlive a single render
+  const isOnlineRef = useRef(true);
+  const canSyncRef = useRef(false);
+  canSyncRef.current = !!user && settings.dataSyncEnabled;
+
+  /**
+   * Refresh the number of uploads waiting for the current user, and of those refused
+   */
+  const refreshPendingCount = async () => {
+    setPendingCount(await getPendingSyncCount(user?.id));
+    setRejectedCount(await getRejectedSyncCount(user?.id));
+  };
+
+  /**
+   * Upload everything queued for the current user
+   * @returns True if the queue was fully synced
+   */
+  const syncNow = async (): Promise<boolean> => {
+    if (!user || !canSyncRef.current || !isOnlineRef.current) {
+      await refreshPendingCount();
+      return false;
+    }
+
+    setIsSyncing(true);
+    try {
+      const success = await processSyncQueue(user.id);
+      if (success) {
+        setLastSyncedAt(new Date());
+      }
+      return success;
+    } catch (error) {
+      console.error('Error syncing learning data:', error);
+      return false;
+    } finally {
+      setIsSyncing(false);
+      await refreshPendingCount();
+    }
+  };
+
+  /**
+   * Sync whenever the device comes back online
+   */
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      const cameOnline = online && !isOnlineRef.current;
+      isOnlineRef.current = online;
+      setIsOnline(online);
+
+      if (cameOnline) {
+        syncNow();
+      }
+    });
+
+    return () => unsubscribe();
+  }, [user?.id]);
+
+  /**
+   * Sync newly queued progress right away while online
+   */
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncQueue(() => {
+      if (isOnlineRef.current && canSyncRef.current) {
+        syncNow();
+      } else {
+        refreshPendingCount();
+      }
+    });
+
+    return unsubscribe;
+  }, [user?.id]);
+
+  /**
+   * Sync on sign-in and when Data Sync is turned on
+   */
+  useEffect(() => {
+    syncNow();
+  }, [user?.id, settings.dataSyncEnabled]);
+
+  const value: SyncContextType = {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    rejectedCount,
+    lastSyncedAt,
+    syncNow,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+/**
+ * Hook to use sync context
+ */
+export const useSync = (): SyncContextType => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
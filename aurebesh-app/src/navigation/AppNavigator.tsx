@@ -18,11 +18,12 @@ const LoadingScreen: React.FC = () => (
 
 /**
  * AppNavigator is the root navigation component that handles routing based on authentication state.
- * Automatically switches between auth screens and main app screens based on user session.
+ * Automatically switches between auth screens and main app screens based on user session,
+ * and also opens the main app for guests using it without an account.
  * Shows loading screen while checking authentication status.
  */
 const AppNavigator: React.FC = () => {
-  const { session, loading } = useAuth();
+  const { session, isGuest, loading } = useAuth();
 
   // Show loading screen while checking authentication
   if (loading) {
@@ -31,7 +32,7 @@ const AppNavigator: React.FC = () => {
 
   return (
     <NavigationContainer>
-      {session ? <TabNavigator /> : <AnimatedAuthNavigator />}
+      {session || isGuest ? <TabNavigator /> : <AnimatedAuthNavigator />}
     </NavigationContainer>
   );
 };
@@ -2,6 +2,8 @@ import React from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
 import LearnScreen from '../screens/LearnScreen';
 import AlphabetScreen from '../screens/AlphabetScreen';
+import ProgressScreen from '../screens/ProgressScreen';
+import ConfusionScreen from '../screens/ConfusionScreen';
 
 /**
  * Type definition for the learn stack navigator parameters.
@@ -9,13 +11,16 @@ import AlphabetScreen from '../screens/AlphabetScreen';
 export type LearnStackParamList = {
   LearnMain: undefined;
   Alphabet: undefined;
+  Progress: undefined;
+  Confusions: undefined;
 };
 
 const Stack = createStackNavigator<LearnStackParamList>();
 
 /**
  * LearnStackNavigator provides navigation for the Learn section.
- * Includes the main Learn screen and the Alphabet reference screen.
+ * Includes the main Learn screen, the Alphabet reference screen, the Progress dashboard
+ * and the glyph Confusions analysis.
  */
 const LearnStackNavigator: React.FC = () => {
   return (
@@ -32,6 +37,14 @@ const LearnStackNavigator: React.FC = () => {
         name="Alphabet" 
         component={AlphabetScreen} 
       />
+      <Stack.Screen 
+        name="Progress" 
+        component={ProgressScreen} 
+      />
+      <Stack.Screen 
+        name="Confusions" 
+        component={ConfusionScreen} 
+      />
     </Stack.Navigator>
   );
 };
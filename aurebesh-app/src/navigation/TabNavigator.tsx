@@ -2,7 +2,7 @@ import React from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Platform } from 'react-native';
-import { WriteScreen, ReadScreen, SettingsScreen } from '../screens';
+import { WriteScreen, ReadScreen, ListenScreen, TranslateScreen, SettingsScreen } from '../screens';
 import LearnStackNavigator from './LearnStackNavigator';
 import { useSettings } from '../context/SettingsContext';
 import { hapticLight } from '../utils/haptics';
@@ -16,6 +16,8 @@ export type TabParamList = {
   Learn: undefined;
   Write: undefined;
   Read: undefined;
+  Listen: undefined;
+  Translate: undefined;
   Settings: undefined;
 };
 
@@ -23,7 +25,7 @@ const Tab = createBottomTabNavigator<TabParamList>();
 
 /**
  * TabNavigator provides the main navigation for authenticated users.
- * Features bottom tabs for Learn, Write, Read, and Settings screens.
+ * Features bottom tabs for Read, Write, Listen, Translate, Learn, and Settings screens.
  */
 const TabNavigator: React.FC = () => {
   const { settings } = useSettings();
@@ -96,6 +98,26 @@ const TabNavigator: React.FC = () => {
           ),
         }}
       />
+      <Tab.Screen
+        name="Listen"
+        component={ListenScreen}
+        options={{
+          title: 'Listen',
+          tabBarIcon: ({ color }) => (
+            <MaterialIcons name="hearing" size={28} color={color} />
+          ),
+        }}
+      />
+      <Tab.Screen
+        name="Translate"
+        component={TranslateScreen}
+        options={{
+          title: 'Translate',
+          tabBarIcon: ({ color }) => (
+            <MaterialIcons name="translate" size={28} color={color} />
+          ),
+        }}
+      />
       <Tab.Screen
         name="Learn"
         component={LearnStackNavigator}
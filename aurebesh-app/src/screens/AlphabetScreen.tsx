@@ -12,48 +12,43 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useSettings } from '../context/SettingsContext';
 import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
 import { hapticLight } from '../utils/haptics';
+import {
+  aurebeshAlphabet,
+  aurebeshDigraphs,
+  aurebeshNumerals,
+  aurebeshPunctuation,
+  AurebeshCharacter,
+} from '../utils/aurebeshScript';
+import { getGlyphStrokes } from '../utils/glyphStrokes';
+import { GlyphStrokeAnimation } from '../components/GlyphStrokeAnimation';
+import { GlyphPronunciation } from '../components/GlyphPronunciation';
 
 /**
- * Interface defining the structure of an Aurebesh character
+ * Sections of the reference grid, in the order they are taught
  */
-interface AurebeshCharacter {
-  english: string;
-  aurebesh: string;
-  name: string;
-}
+const glyphSections: { title: string; glyphs: AurebeshCharacter[] }[] = [
+  { title: 'Letters', glyphs: aurebeshAlphabet },
+  { title: 'Digraphs', glyphs: aurebeshDigraphs },
+  { title: 'Numerals', glyphs: aurebeshNumerals },
+  { title: 'Punctuation', glyphs: aurebeshPunctuation },
+];
 
 /**
- * Complete Aurebesh alphabet with proper character names from Star Wars lore.
- * Each character maps an English letter to its Aurebesh equivalent and includes the canonical name.
+ * Returns the detail label describing what a glyph stands for in English
+ * @param character - The glyph being described
  */
-const aurebeshAlphabet: AurebeshCharacter[] = [
-  { english: 'A', aurebesh: 'a', name: 'Aurek' },
-  { english: 'B', aurebesh: 'b', name: 'Besh' },
-  { english: 'C', aurebesh: 'c', name: 'Cresh' },
-  { english: 'D', aurebesh: 'd', name: 'Dorn' },
-  { english: 'E', aurebesh: 'e', name: 'Esk' },
-  { english: 'F', aurebesh: 'f', name: 'Forn' },
-  { english: 'G', aurebesh: 'g', name: 'Grek' },
-  { english: 'H', aurebesh: 'h', name: 'Herf' },
-  { english: 'I', aurebesh: 'i', name: 'Isk' },
-  { english: 'J', aurebesh: 'j', name: 'Jenth' },
-  { english: 'K', aurebesh: 'k', name: 'Krill' },
-  { english: 'L', aurebesh: 'l', name: 'Leth' },
-  { english: 'M', aurebesh: 'm', name: 'Mern' },
-  { english: 'N', aurebesh: 'n', name: 'Nern' },
-  { english: 'O', aurebesh: 'o', name: 'Osk' },
-  { english: 'P', aurebesh: 'p', name: 'Peth' },
-  { english: 'Q', aurebesh: 'q', name: 'Qek' },
-  { english: 'R', aurebesh: 'r', name: 'Resh' },
-  { english: 'S', aurebesh: 's', name: 'Senth' },
-  { english: 'T', aurebesh: 't', name: 'Trill' },
-  { english: 'U', aurebesh: 'u', name: 'Usk' },
-  { english: 'V', aurebesh: 'v', name: 'Vev' },
-  { english: 'W', aurebesh: 'w', name: 'Wesk' },
-  { english: 'X', aurebesh: 'x', name: 'Xesh' },
-  { english: 'Y', aurebesh: 'y', name: 'Yirt' },
-  { english: 'Z', aurebesh: 'z', name: 'Zerek' },
-];
+const getEnglishLabel = (character: AurebeshCharacter): string => {
+  switch (character.kind) {
+    case 'digraph':
+      return 'English Letters';
+    case 'numeral':
+      return 'Number';
+    case 'punctuation':
+      return 'Punctuation Mark';
+    default:
+      return 'English Letter';
+  }
+};
 
 /**
  * Props for the AlphabetScreen component
@@ -73,6 +68,8 @@ const AlphabetScreen: React.FC<AlphabetScreenProps> = ({ navigation }) => {
   const { settings } = useSettings();
   const [selectedCharacter, setSelectedCharacter] = useState<AurebeshCharacter | null>(null);
   const screenWidth = Dimensions.get('window').width;
+  // Stroke order for the selected glyph; numerals and punctuation have none
+  const selectedStrokes = selectedCharacter ? getGlyphStrokes(selectedCharacter.english) : undefined;
 
   /**
    * Gets the appropriate font family based on user settings
@@ -150,7 +147,8 @@ const AlphabetScreen: React.FC<AlphabetScreenProps> = ({ navigation }) => {
   };
 
   /**
-   * Renders the detailed view for a selected character
+   * Renders the detailed view for a selected character, drawn stroke by stroke when
+   * it has stroke data
    */
   const renderCharacterDetail = () => (
     <View style={styles.detailContainer}>
@@ -167,13 +165,19 @@ const AlphabetScreen: React.FC<AlphabetScreenProps> = ({ navigation }) => {
       </TouchableOpacity>
 
       <View style={styles.detailCard}>
-        <Text style={[styles.detailAurebeshCharacter, { fontFamily: getAurebeshFontFamily() }]}>
-          {selectedCharacter?.aurebesh}
-        </Text>
+        {selectedStrokes ? (
+          <View style={styles.strokeAnimation}>
+            <GlyphStrokeAnimation strokeData={selectedStrokes} />
+          </View>
+        ) : (
+          <Text style={[styles.detailAurebeshCharacter, { fontFamily: getAurebeshFontFamily() }]}>
+            {selectedCharacter?.aurebesh}
+          </Text>
+        )}
         
         <View style={styles.detailInfo}>
           <Text style={[styles.detailLabel, { fontFamily: getAppFontFamily() }]}>
-            English Letter
+            {selectedCharacter && getEnglishLabel(selectedCharacter)}
           </Text>
           <Text style={[styles.detailValue, { fontFamily: getAppFontFamily() }]}>
             {selectedCharacter?.english}
@@ -189,8 +193,14 @@ const AlphabetScreen: React.FC<AlphabetScreenProps> = ({ navigation }) => {
           </Text>
         </View>
 
+        {selectedCharacter && (
+          <View style={styles.pronunciation}>
+            <GlyphPronunciation glyph={selectedCharacter} autoPlay />
+          </View>
+        )}
+
         <Text style={[styles.detailDescription, { fontFamily: getAppFontFamily() }]}>
-          This is the Aurebesh character "{selectedCharacter?.name}" which represents the English letter "{selectedCharacter?.english}". 
+          This is the Aurebesh character "{selectedCharacter?.name}" which represents "{selectedCharacter?.english}" in English. 
           Each Aurebesh character has its own unique name from the Star Wars galaxy.
         </Text>
       </View>
@@ -230,18 +240,25 @@ const AlphabetScreen: React.FC<AlphabetScreenProps> = ({ navigation }) => {
               </Text>
             </View>
 
-            {/* Alphabet Grid */}
-            <View style={styles.alphabetGrid}>
-              {aurebeshAlphabet.map((character, index) => 
-                renderCharacterCard(character, index)
-              )}
-            </View>
+            {/* Glyph Grids: letters, digraphs, numerals and punctuation */}
+            {glyphSections.map((section) => (
+              <View key={section.title}>
+                <Text style={[styles.sectionTitle, { fontFamily: getAppFontFamily() }]}>
+                  {section.title}
+                </Text>
+                <View style={styles.alphabetGrid}>
+                  {section.glyphs.map((character, index) => 
+                    renderCharacterCard(character, index)
+                  )}
+                </View>
+              </View>
+            ))}
 
             {/* Footer Information */}
             <View style={styles.footer}>
               <Text style={[styles.footerText, { fontFamily: getAppFontFamily() }]}>
                 The Aurebesh alphabet is the writing system used throughout the Star Wars galaxy. 
-                Each character corresponds to a letter in the English alphabet and has its own unique name 
+                Each character corresponds to an English letter, letter pair, number or punctuation mark and has its own unique name 
                 derived from the ancient civilizations of that galaxy.
               </Text>
             </View>
@@ -296,6 +313,12 @@ const styles = StyleSheet.create({
     flex: 1,
     lineHeight: 20,
   },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
   alphabetGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -389,6 +412,9 @@ const styles = StyleSheet.create({
     marginBottom: 30,
     textAlign: 'center',
   },
+  strokeAnimation: {
+    marginBottom: 30,
+  },
   detailInfo: {
     alignItems: 'center',
     marginBottom: 20,
@@ -406,6 +432,9 @@ const styles = StyleSheet.create({
     color: '#333',
     textAlign: 'center',
   },
+  pronunciation: {
+    marginBottom: 20,
+  },
   detailDescription: {
     fontSize: 14,
     color: '#666',
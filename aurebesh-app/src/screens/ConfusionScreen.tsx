@@ -0,0 +1,549 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { AurebeshCharacter, findGlyph } from '../utils/aurebeshScript';
+import { getGlyphToken } from '../utils/aurebeshTranslator';
+import {
+  ConfusionDrillQuestion,
+  ConfusionMatrix,
+  buildConfusionDrill,
+  getConfusedGlyphs,
+  getWorstConfusionPairs,
+  loadConfusionMatrix,
+  recordGlyphConfusions,
+} from '../utils/confusionMatrix';
+
+/**
+ * Most glyphs shown along each side of the heatmap
+ */
+const HEATMAP_SIZE = 10;
+
+/**
+ * Number of worst pairs listed and drilled
+ */
+const WORST_PAIR_LIMIT = 5;
+
+/**
+ * Questions per confusion drill
+ */
+const DRILL_LENGTH = 10;
+
+/**
+ * Props for the ConfusionScreen component
+ */
+interface ConfusionScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+}
+
+/**
+ * ConfusionScreen shows which glyphs the learner mixes up.
+ * A heatmap plots expected glyphs (rows) against the glyphs given instead (columns),
+ * the worst pairs are listed below it, and "Drill My Confusions" runs a quiz built
+ * from those pairs.
+ */
+const ConfusionScreen: React.FC<ConfusionScreenProps> = ({ navigation }) => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const [matrix, setMatrix] = useState<ConfusionMatrix>({});
+  const [loading, setLoading] = useState(true);
+  const [drill, setDrill] = useState<ConfusionDrillQuestion[] | null>(null);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<AurebeshCharacter | null>(null);
+  const [drillCorrect, setDrillCorrect] = useState(0);
+
+  /**
+   * Load the user's confusion matrix
+   */
+  useEffect(() => {
+    loadConfusionMatrix(user?.id).then(loaded => {
+      setMatrix(loaded);
+      setLoading(false);
+    });
+  }, [user?.id]);
+
+  const heatmapGlyphs = getConfusedGlyphs(matrix, HEATMAP_SIZE);
+  const worstPairs = getWorstConfusionPairs(matrix, WORST_PAIR_LIMIT);
+  const maxCount = Math.max(
+    1,
+    ...heatmapGlyphs.flatMap(expected => heatmapGlyphs.map(given => matrix[expected]?.[given] ?? 0))
+  );
+
+  /**
+   * Handles back navigation with haptic feedback, leaving a running drill first
+   */
+  const handleGoBack = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (drill) {
+      setDrill(null);
+      setMatrix(await loadConfusionMatrix(user?.id));
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  /**
+   * Starts a drill built from the worst pairs
+   */
+  const startDrill = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setDrill(buildConfusionDrill(worstPairs, DRILL_LENGTH));
+    setQuestionIndex(0);
+    setSelectedOption(null);
+    setDrillCorrect(0);
+  };
+
+  /**
+   * Checks the chosen option; a wrong choice is recorded as another confusion
+   * @param option - The glyph the learner picked
+   */
+  const handleOptionPress = async (option: AurebeshCharacter) => {
+    if (!drill || selectedOption) return;
+
+    const question = drill[questionIndex];
+    setSelectedOption(option);
+
+    if (option.english === question.glyph.english) {
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+      setDrillCorrect(prev => prev + 1);
+    } else {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+      const expectedToken = getGlyphToken(question.glyph.english);
+      const givenToken = getGlyphToken(option.english);
+      if (expectedToken && givenToken) {
+        recordGlyphConfusions(user?.id, [expectedToken], [givenToken]);
+      }
+    }
+  };
+
+  /**
+   * Moves to the next drill question
+   */
+  const handleNextQuestion = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setSelectedOption(null);
+    setQuestionIndex(prev => prev + 1);
+  };
+
+  /**
+   * Colour of a heatmap cell, from white (never) to red (the most frequent confusion)
+   */
+  const getCellColor = (count: number): string =>
+    count > 0 ? `rgba(244, 67, 54, ${0.15 + 0.85 * (count / maxCount)})` : '#f8f9fa';
+
+  /**
+   * Renders a heatmap axis label: the glyph in Aurebesh above its English letters
+   */
+  const renderAxisLabel = (glyphId: string) => (
+    <View style={styles.axisLabel} key={glyphId}>
+      <Text style={[styles.axisGlyph, { fontFamily: getAurebeshFontFamily() }]}>
+        {findGlyph(glyphId)?.aurebesh ?? glyphId}
+      </Text>
+      <Text style={[styles.axisEnglish, { fontFamily: getFontFamily() }]}>{glyphId}</Text>
+    </View>
+  );
+
+  /**
+   * Renders the confusion heatmap
+   */
+  const renderHeatmap = () => (
+    <View style={styles.card}>
+      <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Confusion Heatmap</Text>
+      <Text style={[styles.cardDescription, { fontFamily: getFontFamily() }]}>
+        Rows are the glyphs you were asked for; columns are what you answered instead.
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={styles.heatmapRow}>
+            <View style={styles.axisLabel} />
+            {heatmapGlyphs.map(renderAxisLabel)}
+          </View>
+          {heatmapGlyphs.map(expected => (
+            <View style={styles.heatmapRow} key={expected}>
+              {renderAxisLabel(expected)}
+              {heatmapGlyphs.map(given => {
+                const count = matrix[expected]?.[given] ?? 0;
+                return (
+                  <View
+                    key={given}
+                    style={[styles.heatmapCell, { backgroundColor: getCellColor(count) }]}
+                    accessibilityLabel={`${expected} answered as ${given}: ${count} times`}
+                  >
+                    {count > 0 && (
+                      <Text style={[styles.heatmapCount, { fontFamily: getFontFamily() }]}>{count}</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+
+  /**
+   * Renders the worst pairs and the drill button
+   */
+  const renderWorstPairs = () => (
+    <View style={styles.card}>
+      <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Most Confused Pairs</Text>
+      {worstPairs.map(pair => (
+        <View style={styles.pairRow} key={pair.glyphs.join('|')}>
+          {pair.glyphs.map((glyphId, index) => (
+            <React.Fragment key={glyphId}>
+              {index > 0 && <MaterialIcons name="compare-arrows" size={20} color="#999" />}
+              <View style={styles.pairGlyph}>
+                <Text style={[styles.pairAurebesh, { fontFamily: getAurebeshFontFamily() }]}>
+                  {findGlyph(glyphId)?.aurebesh ?? glyphId}
+                </Text>
+                <Text style={[styles.pairName, { fontFamily: getFontFamily() }]}>
+                  {findGlyph(glyphId)?.name ?? glyphId}
+                </Text>
+              </View>
+            </React.Fragment>
+          ))}
+          <Text style={[styles.pairCount, { fontFamily: getFontFamily() }]}>×{pair.count}</Text>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.drillButton}
+        onPress={startDrill}
+        accessibilityRole="button"
+        accessibilityLabel="Drill my confusions"
+      >
+        <MaterialIcons name="fitness-center" size={24} color="#ffffff" />
+        <Text style={[styles.drillButtonText, { fontFamily: getFontFamily() }]}>Drill My Confusions</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  /**
+   * Renders the running drill, or its result once every question is answered
+   */
+  const renderDrill = (questions: ConfusionDrillQuestion[]) => {
+    if (questionIndex >= questions.length) {
+      return (
+        <View style={styles.card}>
+          <MaterialIcons name="emoji-events" size={48} color="#4f81cb" style={styles.centerIcon} />
+          <Text style={[styles.resultTitle, { fontFamily: getFontFamily() }]}>
+            {drillCorrect} / {questions.length} correct
+          </Text>
+          <TouchableOpacity style={styles.drillButton} onPress={startDrill} accessibilityRole="button">
+            <MaterialIcons name="replay" size={24} color="#ffffff" />
+            <Text style={[styles.drillButtonText, { fontFamily: getFontFamily() }]}>Drill Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const question = questions[questionIndex];
+
+    return (
+      <View style={styles.card}>
+        <Text style={[styles.drillProgress, { fontFamily: getFontFamily() }]}>
+          Question {questionIndex + 1} of {questions.length}
+        </Text>
+        <Text style={[styles.drillGlyph, { fontFamily: getAurebeshFontFamily() }]}>
+          {question.glyph.aurebesh}
+        </Text>
+        <Text style={[styles.cardDescription, { fontFamily: getFontFamily() }]}>Which glyph is this?</Text>
+
+        <View style={styles.optionGrid}>
+          {question.options.map(option => {
+            const isAnswer = option.english === question.glyph.english;
+            const isPicked = selectedOption?.english === option.english;
+            return (
+              <TouchableOpacity
+                key={option.english}
+                style={[
+                  styles.optionButton,
+                  selectedOption && isAnswer && styles.optionCorrect,
+                  isPicked && !isAnswer && styles.optionIncorrect,
+                ]}
+                onPress={() => handleOptionPress(option)}
+                disabled={!!selectedOption}
+                accessibilityRole="button"
+                accessibilityLabel={`${option.english}, ${option.name}`}
+              >
+                <Text style={[styles.optionEnglish, { fontFamily: getFontFamily() }]}>{option.english}</Text>
+                <Text style={[styles.optionName, { fontFamily: getFontFamily() }]}>{option.name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {selectedOption && (
+          <TouchableOpacity style={styles.drillButton} onPress={handleNextQuestion} accessibilityRole="button">
+            <Text style={[styles.drillButtonText, { fontFamily: getFontFamily() }]}>Next</Text>
+            <MaterialIcons name="arrow-forward" size={24} color="#ffffff" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={handleGoBack}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4f81cb" />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { fontFamily: getFontFamily() }]}>
+          {drill ? 'Confusion Drill' : 'Glyph Confusions'}
+        </Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4f81cb" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {drill ? renderDrill(drill) : worstPairs.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="grid-on" size={48} color="#ccc" />
+              <Text style={[styles.emptyTitle, { fontFamily: getFontFamily() }]}>No confusions yet</Text>
+              <Text style={[styles.cardDescription, { fontFamily: getFontFamily() }]}>
+                Wrong answers on the Read and Write tabs are analysed glyph by glyph and show up here.
+              </Text>
+            </View>
+          ) : (
+            <>
+              {renderHeatmap()}
+              {renderWorstPairs()}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e1e5e9',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#e1e5e9',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  heatmapRow: {
+    flexDirection: 'row',
+  },
+  axisLabel: {
+    width: 36,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  axisGlyph: {
+    fontSize: 18,
+    color: '#333',
+  },
+  axisEnglish: {
+    fontSize: 10,
+    color: '#666',
+  },
+  heatmapCell: {
+    width: 32,
+    height: 32,
+    margin: 2,
+    marginTop: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  heatmapCount: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  pairRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  pairGlyph: {
+    alignItems: 'center',
+    width: 72,
+  },
+  pairAurebesh: {
+    fontSize: 28,
+    color: '#333',
+  },
+  pairName: {
+    fontSize: 12,
+    color: '#666',
+  },
+  pairCount: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#f44336',
+    textAlign: 'right',
+  },
+  drillButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4f81cb',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+    gap: 8,
+  },
+  drillButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  drillProgress: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  drillGlyph: {
+    fontSize: 96,
+    color: '#333',
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  optionButton: {
+    width: '48%',
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginBottom: 10,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#e1e5e9',
+    backgroundColor: '#f8f9fa',
+  },
+  optionCorrect: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  optionIncorrect: {
+    borderColor: '#f44336',
+    backgroundColor: '#ffebee',
+  },
+  optionEnglish: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  optionName: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  centerIcon: {
+    alignSelf: 'center',
+  },
+  resultTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+});
+
+export default ConfusionScreen;
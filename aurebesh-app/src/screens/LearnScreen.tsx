@@ -1,58 +1,88 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
   ScrollView, 
   TouchableOpacity, 
-  Dimensions 
+  Dimensions,
+  AppState
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
 import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
 import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
-import { hapticLight } from '../utils/haptics';
+import { hapticLight, hapticMedium } from '../utils/haptics';
+import {
+  aurebeshAlphabet,
+  aurebeshDigraphs,
+  aurebeshNumerals,
+  aurebeshPunctuation,
+  AurebeshCharacter,
+} from '../utils/aurebeshScript';
+import {
+  ReviewGrade,
+  ReviewState,
+  buildReviewQueue,
+  createReviewState,
+  getNextDueDate,
+  mergeReviewStates,
+  scheduleReview,
+} from '../utils/spacedRepetition';
+import {
+  loadGlyphReviewStates,
+  saveGlyphReviewState,
+  syncGlyphReviewStates,
+} from '../utils/glyphReviews';
+import { createSessionId, recordLocalAttempt, recordLocalSession } from '../utils/learningStore';
+import { SessionSummary } from '../utils/learningDatabase';
+import { GlyphPronunciation } from '../components/GlyphPronunciation';
 
 /**
- * Interface for Aurebesh character data including English letter, Aurebesh character, and canonical name
+ * Grading buttons shown once a flashcard's answer is revealed
  */
-interface AurebeshCharacter {
-  english: string;
-  aurebesh: string;
-  name: string;
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; color: string }[] = [
+  { grade: 'again', label: 'Again', color: '#f44336' },
+  { grade: 'hard', label: 'Hard', color: '#ff9500' },
+  { grade: 'good', label: 'Good', color: '#4CAF50' },
+  { grade: 'easy', label: 'Easy', color: '#4f81cb' },
+];
+
+/**
+ * Running totals for the current flashcard session
+ */
+interface FlashcardSession {
+  id: string;
+  startTime: Date;
+  reviewed: number;
+  recalled: number;
+  streak: number;
+  maxStreak: number;
 }
 
+const createFlashcardSession = (): FlashcardSession => ({
+  id: createSessionId(),
+  startTime: new Date(),
+  reviewed: 0,
+  recalled: 0,
+  streak: 0,
+  maxStreak: 0,
+});
+
 /**
- * Complete Aurebesh alphabet with proper character names from Star Wars lore.
- * Each character maps an English letter to its Aurebesh equivalent and includes the canonical name.
+ * Flashcards have no difficulty levels, so their sessions are filed as easy
  */
-const aurebeshAlphabet: AurebeshCharacter[] = [
-  { english: 'A', aurebesh: 'a', name: 'Aurek' },
-  { english: 'B', aurebesh: 'b', name: 'Besh' },
-  { english: 'C', aurebesh: 'c', name: 'Cresh' },
-  { english: 'D', aurebesh: 'd', name: 'Dorn' },
-  { english: 'E', aurebesh: 'e', name: 'Esk' },
-  { english: 'F', aurebesh: 'f', name: 'Forn' },
-  { english: 'G', aurebesh: 'g', name: 'Grek' },
-  { english: 'H', aurebesh: 'h', name: 'Herf' },
-  { english: 'I', aurebesh: 'i', name: 'Isk' },
-  { english: 'J', aurebesh: 'j', name: 'Jenth' },
-  { english: 'K', aurebesh: 'k', name: 'Krill' },
-  { english: 'L', aurebesh: 'l', name: 'Leth' },
-  { english: 'M', aurebesh: 'm', name: 'Mern' },
-  { english: 'N', aurebesh: 'n', name: 'Nern' },
-  { english: 'O', aurebesh: 'o', name: 'Osk' },
-  { english: 'P', aurebesh: 'p', name: 'Peth' },
-  { english: 'Q', aurebesh: 'q', name: 'Qek' },
-  { english: 'R', aurebesh: 'r', name: 'Resh' },
-  { english: 'S', aurebesh: 's', name: 'Senth' },
-  { english: 'T', aurebesh: 't', name: 'Trill' },
-  { english: 'U', aurebesh: 'u', name: 'Usk' },
-  { english: 'V', aurebesh: 'v', name: 'Vev' },
-  { english: 'W', aurebesh: 'w', name: 'Wesk' },
-  { english: 'X', aurebesh: 'x', name: 'Xesh' },
-  { english: 'Y', aurebesh: 'y', name: 'Yirt' },
-  { english: 'Z', aurebesh: 'z', name: 'Zerek' },
-];
+const toSessionSummary = (session: FlashcardSession): SessionSummary => ({
+  id: session.id,
+  difficulty: 'easy',
+  questionsAttempted: session.reviewed,
+  questionsCorrect: session.recalled,
+  maxStreak: session.maxStreak,
+  score: session.recalled,
+  startTime: session.startTime,
+  mode: 'flashcard',
+});
 
 /**
  * LearnScreen displays the complete Aurebesh alphabet with character names.
@@ -67,12 +97,19 @@ interface LearnScreenProps {
 
 const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
   const { settings } = useSettings();
+  const { user } = useAuth();
   const [selectedCharacter, setSelectedCharacter] = useState<AurebeshCharacter | null>(null);
-  const [currentFlashcard, setCurrentFlashcard] = useState<AurebeshCharacter | null>(null);
-  const [flashcardIndex, setFlashcardIndex] = useState(0);
   const [showFlashcardAnswer, setShowFlashcardAnswer] = useState(false);
   const [isFlashcardMode, setIsFlashcardMode] = useState(false);
-  const [shuffledAlphabet, setShuffledAlphabet] = useState<AurebeshCharacter[]>([]);
+  const [reviewStates, setReviewStates] = useState<Record<string, ReviewState>>({});
+  // Latest review states, for merging in synced states that arrive mid-practice
+  const reviewStatesRef = useRef<Record<string, ReviewState>>({});
+  const [reviewQueue, setReviewQueue] = useState<string[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  // When the current flashcard appeared, for response times in the attempt log
+  const cardShownAtRef = useRef(Date.now());
+  // The flashcard session in progress, saved when practice ends or the user leaves
+  const flashcardSessionRef = useRef<FlashcardSession | null>(null);
   const screenWidth = Dimensions.get('window').width;
   
   /**
@@ -103,53 +140,105 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
   };
 
   /**
-   * Shuffles an array using the Fisher-Yates algorithm
-   * @param array - The array to shuffle
-   * @returns A new shuffled array
+   * Builds the flashcard deck: letters, numerals and punctuation, plus digraphs when enabled
    */
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
+  const getFlashcardDeck = (): AurebeshCharacter[] => [
+    ...aurebeshAlphabet,
+    ...(settings.digraphsEnabled ? aurebeshDigraphs : []),
+    ...aurebeshNumerals,
+    ...aurebeshPunctuation,
+  ];
 
   /**
-   * Starts flashcard mode with a randomized alphabet order
+   * Ids of the deck's glyphs, used as scheduling keys
+   */
+  const getDeckIds = (): string[] => getFlashcardDeck().map(character => character.english);
+
+  /**
+   * The glyph at the front of the review queue
+   */
+  const currentFlashcard =
+    getFlashcardDeck().find(character => character.english === reviewQueue[0]) ?? null;
+
+  /**
+   * Starts flashcard mode with the glyphs that are due for review.
+   * Practice starts from the local store; synced states are merged in when they arrive.
    */
   const startFlashcards = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
-    const shuffled = shuffleArray(aurebeshAlphabet);
-    setShuffledAlphabet(shuffled);
+    const states = await loadGlyphReviewStates(user?.id);
+    applyReviewStates(states);
+    setReviewQueue(buildReviewQueue(getDeckIds(), states));
+    setReviewedCount(0);
+    flashcardSessionRef.current = createFlashcardSession();
+    cardShownAtRef.current = Date.now();
     setIsFlashcardMode(true);
-    setFlashcardIndex(0);
-    setCurrentFlashcard(shuffled[0]);
     setShowFlashcardAnswer(false);
+
+    if (user && settings.dataSyncEnabled) {
+      syncGlyphReviewStates(user.id).then(handleReviewStatesSynced);
+    }
   };
 
   /**
-   * Exits flashcard mode
+   * Sets the review states shown, keeping the ref in step
    */
-  const exitFlashcards = async () => {
-    await hapticLight(settings.hapticFeedbackEnabled);
-    setIsFlashcardMode(false);
-    setCurrentFlashcard(null);
-    setShowFlashcardAnswer(false);
-    setShuffledAlphabet([]);
+  const applyReviewStates = (states: Record<string, ReviewState>) => {
+    reviewStatesRef.current = states;
+    setReviewStates(states);
+  };
+
+  /**
+   * Merges synced states into any grades made since practice started, then rebuilds the
+   * queue from them, keeping the card on screen in front
+   * @param synced - States merged with the server
+   */
+  const handleReviewStatesSynced = (synced: Record<string, ReviewState>) => {
+    const merged = mergeReviewStates(reviewStatesRef.current, synced);
+    applyReviewStates(merged);
+    setReviewQueue(previous => {
+      if (previous.length === 0) return previous;
+      const queue = buildReviewQueue(getDeckIds(), merged).filter(id => id !== previous[0]);
+      return [previous[0], ...queue];
+    });
   };
 
   /**
-   * Reshuffles the flashcards and starts over
+   * Saves the flashcard session so far, if any card was graded
+   */
+  const saveFlashcardSession = () => {
+    const finished = flashcardSessionRef.current;
+    flashcardSessionRef.current = null;
+    if (!finished || finished.reviewed === 0) return;
+
+    recordLocalSession(user?.id, toSessionSummary(finished));
+  };
+
+  /**
+   * Save the flashcard session when the user leaves the screen, or when the app goes to
+   * the background, where it may be closed
+   */
+  useFocusEffect(
+    useCallback(() => {
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'background') saveFlashcardSession();
+      });
+      return () => {
+        subscription.remove();
+        saveFlashcardSession();
+      };
+    }, [user?.id])
+  );
+
+  /**
+   * Exits flashcard mode
    */
-  const reshuffleFlashcards = async () => {
+  const exitFlashcards = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
-    const shuffled = shuffleArray(aurebeshAlphabet);
-    setShuffledAlphabet(shuffled);
-    setFlashcardIndex(0);
-    setCurrentFlashcard(shuffled[0]);
+    saveFlashcardSession();
+    setIsFlashcardMode(false);
     setShowFlashcardAnswer(false);
+    setReviewQueue([]);
   };
 
   /**
@@ -161,25 +250,70 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
   };
 
   /**
-   * Moves to the next flashcard
+   * Grades the current flashcard, reschedules it and moves to the next due glyph
+   * @param grade - How well the glyph was recalled
    */
-  const nextFlashcard = async () => {
-    await hapticLight(settings.hapticFeedbackEnabled);
-    const nextIndex = (flashcardIndex + 1) % shuffledAlphabet.length;
-    setFlashcardIndex(nextIndex);
-    setCurrentFlashcard(shuffledAlphabet[nextIndex]);
+  const gradeFlashcard = async (grade: ReviewGrade) => {
+    if (!currentFlashcard) return;
+
+    if (grade === 'again') {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+    } else {
+      await hapticLight(settings.hapticFeedbackEnabled);
+    }
+
+    const id = currentFlashcard.english;
+    const nextState = scheduleReview(reviewStatesRef.current[id] ?? createReviewState(id), grade);
+    const updatedStates = { ...reviewStatesRef.current, [id]: nextState };
+    applyReviewStates(updatedStates);
+    saveGlyphReviewState(nextState, user?.id);
+
+    // Grading after coming back to the screen starts a new session
+    const session = flashcardSessionRef.current ?? createFlashcardSession();
+    const recalled = grade !== 'again';
+    const streak = recalled ? session.streak + 1 : 0;
+    const updatedSession = {
+      ...session,
+      reviewed: session.reviewed + 1,
+      recalled: session.recalled + (recalled ? 1 : 0),
+      streak,
+      maxStreak: Math.max(session.maxStreak, streak),
+    };
+    flashcardSessionRef.current = updatedSession;
+    recordLocalAttempt(user?.id, {
+      session_id: session.id,
+      mode: 'flashcard',
+      prompt: currentFlashcard.aurebesh,
+      expected_answer: id,
+      given_answer: grade,
+      is_correct: recalled,
+      hint_used: false,
+      answer_revealed: false,
+      response_time_ms: Date.now() - cardShownAtRef.current,
+    }, toSessionSummary(updatedSession));
+
+    // A forgotten glyph may still be first in line; show something else before repeating it
+    const queue = buildReviewQueue(getDeckIds(), updatedStates);
+    if (queue.length > 1 && queue[0] === id) {
+      queue.push(queue.shift() as string);
+    }
+
+    setReviewQueue(queue);
+    setReviewedCount(prev => prev + 1);
     setShowFlashcardAnswer(false);
+    cardShownAtRef.current = Date.now();
   };
 
   /**
-   * Moves to the previous flashcard
+   * Describes when the next glyph is due, for the caught-up message
    */
-  const previousFlashcard = async () => {
-    await hapticLight(settings.hapticFeedbackEnabled);
-    const prevIndex = flashcardIndex === 0 ? shuffledAlphabet.length - 1 : flashcardIndex - 1;
-    setFlashcardIndex(prevIndex);
-    setCurrentFlashcard(shuffledAlphabet[prevIndex]);
-    setShowFlashcardAnswer(false);
+  const getNextDueText = (): string => {
+    const nextDue = getNextDueDate(getDeckIds(), reviewStates);
+    if (!nextDue) return '';
+    return `Next review: ${nextDue.toLocaleDateString()} at ${nextDue.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    })}`;
   };
 
   /**
@@ -256,6 +390,10 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
             </Text>
           </View>
 
+          <View style={styles.pronunciation}>
+            <GlyphPronunciation glyph={selectedCharacter} autoPlay />
+          </View>
+
           <Text style={[styles.detailDescription, { fontFamily: getFontFamily() }]}>
             Tap other characters to explore the Aurebesh alphabet, or practice reading with the Read screen.
           </Text>
@@ -285,31 +423,34 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
               
               <View style={styles.flashcardHeaderCenter}>
                 <Text style={[styles.flashcardCounter, { fontFamily: getFontFamily() }]}>
-                  {flashcardIndex + 1} / {shuffledAlphabet.length}
+                  {reviewQueue.length} due
+                </Text>
+                <Text style={[styles.flashcardReviewed, { fontFamily: getFontFamily() }]}>
+                  {reviewedCount} reviewed
                 </Text>
-                <TouchableOpacity 
-                  style={styles.shuffleButton}
-                  onPress={reshuffleFlashcards}
-                  accessibilityRole="button"
-                  accessibilityLabel="Shuffle flashcards"
-                >
-                  <MaterialIcons name="shuffle" size={16} color="#666" />
-                </TouchableOpacity>
               </View>
               
               <View style={{ width: 40 }} />
             </View>
 
-            {currentFlashcard && (
+            {currentFlashcard ? (
               <View style={styles.flashcard}>
                 <Text style={[styles.flashcardCharacter, { fontFamily: getAurebeshFontFamily() }]}>
                   {currentFlashcard.aurebesh}
                 </Text>
                 
                 {showFlashcardAnswer ? (
-                  <Text style={[styles.flashcardAnswer, { fontFamily: getFontFamily() }]}>
-                    {currentFlashcard.english}
-                  </Text>
+                  <View>
+                    <Text style={[styles.flashcardAnswer, { fontFamily: getFontFamily() }]}>
+                      {currentFlashcard.english}
+                    </Text>
+                    <Text style={[styles.flashcardName, { fontFamily: getFontFamily() }]}>
+                      {currentFlashcard.name}
+                    </Text>
+                    <View style={styles.flashcardPronunciation}>
+                      <GlyphPronunciation glyph={currentFlashcard} autoPlay />
+                    </View>
+                  </View>
                 ) : (
                   <TouchableOpacity 
                     style={styles.revealButton}
@@ -323,27 +464,35 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
                   </TouchableOpacity>
                 )}
               </View>
+            ) : (
+              <View style={styles.flashcard}>
+                <MaterialIcons name="check-circle" size={64} color="#4CAF50" />
+                <Text style={[styles.caughtUpTitle, { fontFamily: getFontFamily() }]}>
+                  All caught up!
+                </Text>
+                <Text style={[styles.caughtUpText, { fontFamily: getFontFamily() }]}>
+                  {getNextDueText()}
+                </Text>
+              </View>
             )}
 
-            <View style={styles.flashcardControls}>
-              <TouchableOpacity 
-                style={styles.flashcardNavButton}
-                onPress={previousFlashcard}
-                accessibilityRole="button"
-                accessibilityLabel="Previous flashcard"
-              >
-                <MaterialIcons name="chevron-left" size={32} color="#ffffff" />
-              </TouchableOpacity>
-              
-              <TouchableOpacity 
-                style={styles.flashcardNavButton}
-                onPress={nextFlashcard}
-                accessibilityRole="button"
-                accessibilityLabel="Next flashcard"
-              >
-                <MaterialIcons name="chevron-right" size={32} color="#ffffff" />
-              </TouchableOpacity>
-            </View>
+            {currentFlashcard && showFlashcardAnswer && (
+              <View style={styles.gradeControls}>
+                {GRADE_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.grade}
+                    style={[styles.gradeButton, { backgroundColor: option.color }]}
+                    onPress={() => gradeFlashcard(option.grade)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Grade ${option.label}`}
+                  >
+                    <Text style={[styles.gradeButtonText, { fontFamily: getFontFamily() }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
         ) : selectedCharacter ? renderCharacterDetail() : (
           <>
@@ -382,6 +531,50 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
                 <MaterialIcons name="chevron-right" size={24} color="#666" />
               </TouchableOpacity>
 
+              {/* Progress Dashboard Button */}
+              <TouchableOpacity 
+                style={styles.settingItem}
+                onPress={async () => {
+                  await hapticLight(settings.hapticFeedbackEnabled);
+                  navigation.navigate('Progress');
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="View your learning progress"
+              >
+                <MaterialIcons name="insights" size={24} color="#4f81cb" style={styles.settingIcon} />
+                <View style={styles.settingText}>
+                  <Text style={[styles.settingTitle, { fontFamily: getFontFamily() }]}>
+                    Your Progress
+                  </Text>
+                  <Text style={[styles.settingDescription, { fontFamily: getFontFamily() }]}>
+                    Accuracy, streaks and recent sessions
+                  </Text>
+                </View>
+                <MaterialIcons name="chevron-right" size={24} color="#666" />
+              </TouchableOpacity>
+
+              {/* Glyph Confusions Button */}
+              <TouchableOpacity 
+                style={styles.settingItem}
+                onPress={async () => {
+                  await hapticLight(settings.hapticFeedbackEnabled);
+                  navigation.navigate('Confusions');
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="View the glyphs you confuse"
+              >
+                <MaterialIcons name="grid-on" size={24} color="#4f81cb" style={styles.settingIcon} />
+                <View style={styles.settingText}>
+                  <Text style={[styles.settingTitle, { fontFamily: getFontFamily() }]}>
+                    Glyph Confusions
+                  </Text>
+                  <Text style={[styles.settingDescription, { fontFamily: getFontFamily() }]}>
+                    See and drill the glyphs you mix up
+                  </Text>
+                </View>
+                <MaterialIcons name="chevron-right" size={24} color="#666" />
+              </TouchableOpacity>
+
               {/* Flashcard Practice Section */}
               <View style={styles.flashcardSection}>
                 <View style={styles.sectionHeader}>
@@ -409,9 +602,9 @@ const LearnScreen: React.FC<LearnScreenProps> = ({ navigation }) => {
 
                 <View style={styles.practiceInfo}>
                   <Text style={[styles.practiceInfoText, { fontFamily: getFontFamily() }]}>
-                    • {aurebeshAlphabet.length} characters to learn{'\n'}
+                    • {getFlashcardDeck().length} characters to learn{'\n'}
                     • Tap to reveal answers{'\n'}
-                    • Navigate with arrow buttons
+                    • Grade yourself: glyphs you miss come back sooner
                   </Text>
                 </View>
               </View>
@@ -584,6 +777,9 @@ const styles = StyleSheet.create({
     color: '#333',
     textAlign: 'center',
   },
+  pronunciation: {
+    marginBottom: 20,
+  },
   detailDescription: {
     fontSize: 14,
     color: '#666',
@@ -647,10 +843,6 @@ const styles = StyleSheet.create({
   flashcardHeaderCenter: {
     alignItems: 'center',
   },
-  shuffleButton: {
-    marginTop: 8,
-    padding: 4,
-  },
   exitButton: {
     backgroundColor: '#4f81cb',
     borderRadius: 20,
@@ -664,6 +856,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#666',
   },
+  flashcardReviewed: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
   flashcard: {
     backgroundColor: '#fff',
     borderRadius: 20,
@@ -696,6 +893,15 @@ const styles = StyleSheet.create({
     color: '#4f81cb',
     textAlign: 'center',
   },
+  flashcardName: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  flashcardPronunciation: {
+    marginTop: 16,
+  },
   revealButton: {
     backgroundColor: '#4f81cb',
     paddingHorizontal: 24,
@@ -707,19 +913,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  flashcardControls: {
+  caughtUpTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  caughtUpText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  gradeControls: {
     flexDirection: 'row',
     justifyContent: 'space-between',
-    paddingHorizontal: 60,
+    paddingHorizontal: 20,
+    gap: 8,
   },
-  flashcardNavButton: {
-    backgroundColor: '#4f81cb',
-    borderRadius: 25,
-    width: 50,
-    height: 50,
-    justifyContent: 'center',
+  gradeButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
     alignItems: 'center',
   },
+  gradeButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   // Flashcard practice section styles
   flashcardSection: {
     backgroundColor: '#fff',
@@ -0,0 +1,657 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, AppState } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { WordPair, getRandomWord } from '../utils/dictionary';
+import { AurebeshKeyboard } from '../components/AurebeshKeyboard';
+import { LetterFeedback } from '../components/LetterFeedback';
+import {
+  AurebeshToken,
+  getGlyphToken,
+  tokenizeAurebesh,
+  tokensToEnglish,
+  tokensToGlyphs,
+} from '../utils/aurebeshTranslator';
+import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { createSessionId, recordLocalAttempt, recordLocalSession, recordLocalStatistics } from '../utils/learningStore';
+import { SessionSummary } from '../utils/learningDatabase';
+import { recordGlyphConfusions } from '../utils/confusionMatrix';
+import { LetterGrade, gradeLetters } from '../utils/letterGrade';
+import { speakText, stopSpeaking } from '../utils/pronunciation';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Share of the user's speech rate used for the slow replay
+ */
+const SLOW_REPLAY_FACTOR = 0.6;
+
+/**
+ * Running totals for the current listening session
+ */
+interface ListenSessionState {
+  id: string;
+  startTime: Date;
+  attempted: number;
+  correct: number;
+  streak: number;
+  maxStreak: number;
+}
+
+const createSessionState = (): ListenSessionState => ({
+  id: createSessionId(),
+  startTime: new Date(),
+  attempted: 0,
+  correct: 0,
+  streak: 0,
+  maxStreak: 0,
+});
+
+const toSessionSummary = (session: ListenSessionState, difficulty: Difficulty): SessionSummary => ({
+  id: session.id,
+  difficulty,
+  questionsAttempted: session.attempted,
+  questionsCorrect: session.correct,
+  maxStreak: session.maxStreak,
+  score: session.correct,
+  startTime: session.startTime,
+  mode: 'listen',
+});
+
+/**
+ * ListenScreen component
+ * Speaks an English word with the device's text-to-speech voice and the user spells it
+ * in Aurebesh on the custom keyboard. Answers are graded letter by letter, and each visit
+ * to the screen is saved as a listening session.
+ */
+const ListenScreen: React.FC = () => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [currentWord, setCurrentWord] = useState<WordPair | null>(null);
+  const [answerTokens, setAnswerTokens] = useState<AurebeshToken[]>([]);
+  const [grade, setGrade] = useState<LetterGrade | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [session, setSession] = useState<ListenSessionState>(createSessionState);
+
+  // Latest values for callbacks that outlive a single render
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const difficultyRef = useRef(difficulty);
+  difficultyRef.current = difficulty;
+  const wordShownAtRef = useRef(Date.now());
+  // Counts utterances, so a cut-off one finishing late doesn't reset the play button
+  const utteranceRef = useRef(0);
+  const advanceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Save the session so far, if anything was answered, and start a new one
+   */
+  const saveSession = () => {
+    const finished = sessionRef.current;
+    if (finished.attempted > 0) {
+      recordLocalSession(user?.id, toSessionSummary(finished, difficultyRef.current));
+    }
+    const fresh = createSessionState();
+    sessionRef.current = fresh;
+    setSession(fresh);
+  };
+
+  /**
+   * Start a session when the tab is opened and save it when the user leaves
+   */
+  useFocusEffect(
+    useCallback(() => {
+      const fresh = createSessionState();
+      sessionRef.current = fresh;
+      setSession(fresh);
+      // Going to the background, where the app may be closed, saves the session too
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'background') saveSession();
+      });
+      return () => {
+        subscription.remove();
+        if (advanceTimeoutRef.current) clearTimeout(advanceTimeoutRef.current);
+        stopSpeaking();
+        saveSession();
+      };
+    }, [user?.id])
+  );
+
+  /**
+   * Load a new word when the difficulty changes
+   */
+  useEffect(() => {
+    loadNewWord();
+  }, [difficulty]);
+
+  /**
+   * Speak a word at the user's speech rate, or slower for a replay
+   */
+  const speakWord = (word: WordPair, slow: boolean = false) => {
+    const utterance = ++utteranceRef.current;
+    setIsSpeaking(true);
+    speakText(word.english, settings.speechRate * (slow ? SLOW_REPLAY_FACTOR : 1), () => {
+      if (utteranceRef.current === utterance) setIsSpeaking(false);
+    });
+  };
+
+  /**
+   * Pick the next word and say it
+   */
+  const loadNewWord = () => {
+    let word = getRandomWord(difficulty);
+    // One retry is enough to avoid the same word twice in a row
+    if (word.english === currentWord?.english) {
+      word = getRandomWord(difficulty);
+    }
+    setCurrentWord(word);
+    setAnswerTokens([]);
+    setGrade(null);
+    setShowAnswer(false);
+    wordShownAtRef.current = Date.now();
+    speakWord(word);
+  };
+
+  /**
+   * Handle character press from Aurebesh keyboard
+   */
+  const handleCharacterPress = (character: string) => {
+    if (grade || showAnswer) return;
+    const token = getGlyphToken(character);
+    if (token) {
+      setAnswerTokens(prev => [...prev, token]);
+    }
+  };
+
+  const handleBackspace = () => {
+    if (grade || showAnswer) return;
+    setAnswerTokens(prev => prev.slice(0, -1));
+  };
+
+  const handleSpace = () => {
+    if (grade || showAnswer) return;
+    setAnswerTokens(prev => [...prev, { type: 'space', english: ' ', glyph: ' ' }]);
+  };
+
+  const handleClear = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (grade || showAnswer) return;
+    setAnswerTokens([]);
+  };
+
+  const handlePlay = async (slow: boolean) => {
+    if (!currentWord) return;
+    await hapticLight(settings.hapticFeedbackEnabled);
+    speakWord(currentWord, slow);
+  };
+
+  /**
+   * Add an answer to the session totals and the learning statistics
+   */
+  const recordResult = (isCorrect: boolean) => {
+    const previous = sessionRef.current;
+    const streak = isCorrect ? previous.streak + 1 : 0;
+    const updated = {
+      ...previous,
+      attempted: previous.attempted + 1,
+      correct: previous.correct + (isCorrect ? 1 : 0),
+      streak,
+      maxStreak: Math.max(previous.maxStreak, streak),
+    };
+    sessionRef.current = updated;
+    setSession(updated);
+    recordLocalStatistics(user?.id, {
+      questions_attempted: 1,
+      questions_correct: isCorrect ? 1 : 0,
+      current_streak: streak,
+      difficulty,
+    });
+  };
+
+  /**
+   * Grade the answer letter by letter
+   */
+  const checkAnswer = async () => {
+    if (!currentWord || !answerTokens.some(token => token.type !== 'space')) {
+      await hapticLight(settings.hapticFeedbackEnabled);
+      Alert.alert('Enter an Answer', 'Spell the word you heard with the keyboard before submitting.');
+      return;
+    }
+
+    const expectedTokens = tokenizeAurebesh(currentWord.english, {
+      useDigraphs: settings.digraphsEnabled,
+    });
+    const letterGrade = gradeLetters(expectedTokens, answerTokens);
+    setGrade(letterGrade);
+    recordResult(letterGrade.isCorrect);
+    recordLocalAttempt(user?.id, {
+      session_id: sessionRef.current.id,
+      mode: 'listen',
+      prompt: currentWord.english,
+      expected_answer: currentWord.english,
+      given_answer: tokensToEnglish(answerTokens),
+      is_correct: letterGrade.isCorrect,
+      hint_used: false,
+      answer_revealed: false,
+      response_time_ms: Date.now() - wordShownAtRef.current,
+    }, toSessionSummary(sessionRef.current, difficultyRef.current));
+
+    if (letterGrade.isCorrect) {
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+      // Auto-advance after correct answer
+      advanceTimeoutRef.current = setTimeout(() => {
+        loadNewWord();
+      }, 1500);
+    } else {
+      await hapticMedium(settings.hapticFeedbackEnabled);
+      recordGlyphConfusions(user?.id, expectedTokens, answerTokens);
+    }
+  };
+
+  /**
+   * Show the word and its spelling without answering
+   */
+  const handleShowAnswer = async () => {
+    if (!currentWord) return;
+    await hapticMedium(settings.hapticFeedbackEnabled);
+    if (!grade) {
+      recordResult(false);
+      recordLocalAttempt(user?.id, {
+        session_id: sessionRef.current.id,
+        mode: 'listen',
+        prompt: currentWord.english,
+        expected_answer: currentWord.english,
+        given_answer: tokensToEnglish(answerTokens),
+        is_correct: false,
+        hint_used: false,
+        answer_revealed: true,
+        response_time_ms: Date.now() - wordShownAtRef.current,
+      }, toSessionSummary(sessionRef.current, difficultyRef.current));
+    }
+    setShowAnswer(true);
+  };
+
+  const handleNext = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (advanceTimeoutRef.current) clearTimeout(advanceTimeoutRef.current);
+    loadNewWord();
+  };
+
+  const handleDifficultyChange = async (newDifficulty: Difficulty) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (newDifficulty === difficulty) return;
+    // Sessions are saved per difficulty
+    saveSession();
+    setDifficulty(newDifficulty);
+  };
+
+  const isAnswered = grade !== null || showAnswer;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <MaterialIcons name="hearing" size={48} color="#4f81cb" />
+        <Text style={[styles.title, { fontFamily: getFontFamily() }]}>
+          Listen & Spell
+        </Text>
+        <Text style={[styles.subtitle, { fontFamily: getFontFamily() }]}>
+          Spell the word you hear in Aurebesh
+        </Text>
+      </View>
+
+      {/* Difficulty Selector */}
+      <View style={styles.difficultySelector}>
+        {(['easy', 'medium', 'hard'] as const).map(level => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.difficultyOption, difficulty === level && styles.selectedDifficulty]}
+            onPress={() => handleDifficultyChange(level)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: difficulty === level }}
+          >
+            <Text style={[styles.difficultyOptionText, {
+              fontFamily: getFontFamily(),
+              color: difficulty === level ? '#fff' : '#4f81cb'
+            }]}>
+              {level.charAt(0).toUpperCase() + level.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Session Progress */}
+      <Text style={[styles.sessionText, { fontFamily: getFontFamily() }]}>
+        {session.correct}/{session.attempted} correct · Streak {session.streak}
+      </Text>
+
+      {/* Question Card */}
+      {currentWord && (
+        <View style={styles.questionCard}>
+          <Text style={[styles.instructionText, { fontFamily: getFontFamily() }]}>
+            Listen, then write the word in Aurebesh:
+          </Text>
+
+          {/* Playback */}
+          <View style={styles.playbackRow}>
+            <TouchableOpacity
+              style={[styles.playButton, isSpeaking && styles.playButtonActive]}
+              onPress={() => handlePlay(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Play the word"
+            >
+              <MaterialIcons name="volume-up" size={36} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.slowButton}
+              onPress={() => handlePlay(true)}
+              accessibilityRole="button"
+              accessibilityLabel="Play the word slowly"
+            >
+              <MaterialIcons name="slow-motion-video" size={20} color="#4f81cb" />
+              <Text style={[styles.slowButtonText, { fontFamily: getFontFamily() }]}>Slower</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* The word, once answered */}
+          {isAnswered && (
+            <View style={styles.answerContainer}>
+              <MaterialIcons name="visibility" size={16} color="#4CAF50" />
+              <Text style={[styles.answerLabel, { fontFamily: getFontFamily() }]}>
+                {currentWord.english}
+              </Text>
+              <Text style={[styles.answerText, { fontFamily: getAurebeshFontFamily() }]}>
+                {tokensToGlyphs(tokenizeAurebesh(currentWord.english, { useDigraphs: settings.digraphsEnabled }))}
+              </Text>
+            </View>
+          )}
+
+          {/* User Input Display */}
+          <View style={styles.inputContainer}>
+            <Text style={[styles.inputLabel, { fontFamily: getFontFamily() }]}>
+              Your Aurebesh:
+            </Text>
+            <View style={styles.inputDisplay}>
+              {answerTokens.length > 0 ? (
+                <Text style={[styles.userAnswerText, { fontFamily: getAurebeshFontFamily() }]}>
+                  {tokensToGlyphs(answerTokens)}
+                </Text>
+              ) : (
+                <Text style={[styles.placeholderText, { fontFamily: getFontFamily() }]}>
+                  Type using the keyboard below...
+                </Text>
+              )}
+            </View>
+          </View>
+
+          {/* Letter-by-letter Feedback */}
+          {grade && <LetterFeedback grade={grade} />}
+
+          {isAnswered ? (
+            <TouchableOpacity
+              style={[styles.submitButton, { backgroundColor: grade?.isCorrect ? '#4CAF50' : '#ff9500' }]}
+              onPress={handleNext}
+            >
+              <Text style={[styles.submitButtonText, { fontFamily: getFontFamily() }]}>
+                Next Word
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.submitButton} onPress={checkAnswer}>
+              <Text style={[styles.submitButtonText, { fontFamily: getFontFamily() }]}>
+                Check Answer
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Action Buttons */}
+      <View style={styles.actionsContainer}>
+        <TouchableOpacity style={styles.actionButton} onPress={handleClear}>
+          <MaterialIcons name="backspace" size={20} color="#666" />
+          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Clear</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={handleShowAnswer} disabled={isAnswered}>
+          <MaterialIcons name="visibility" size={20} color={isAnswered ? '#ccc' : '#666'} />
+          <Text style={[styles.actionButtonText, {
+            fontFamily: getFontFamily(),
+            color: isAnswered ? '#ccc' : '#666'
+          }]}>
+            Show Answer
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={handleNext}>
+          <MaterialIcons name="skip-next" size={20} color="#666" />
+          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Custom Aurebesh Keyboard */}
+      <View style={styles.keyboardContainer}>
+        <AurebeshKeyboard
+          onCharacterPress={handleCharacterPress}
+          onBackspace={handleBackspace}
+          onSpace={handleSpace}
+          onClear={handleClear}
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingBottom: 100, // Space for tab bar
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 75,
+    paddingBottom: 30,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    marginTop: 8,
+  },
+  difficultySelector: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 4,
+  },
+  difficultyOption: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  selectedDifficulty: {
+    backgroundColor: '#4f81cb',
+  },
+  difficultyOptionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sessionText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  questionCard: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  instructionText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  playbackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  playButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#4f81cb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButtonActive: {
+    backgroundColor: '#3a6bb5',
+  },
+  slowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+  },
+  slowButtonText: {
+    fontSize: 14,
+    color: '#4f81cb',
+    marginLeft: 6,
+  },
+  answerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E8F5E8',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+  },
+  answerLabel: {
+    fontSize: 16,
+    color: '#4CAF50',
+    marginHorizontal: 8,
+    fontWeight: '600',
+  },
+  answerText: {
+    fontSize: 18,
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  inputDisplay: {
+    backgroundColor: '#f8f9fa',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 16,
+    minHeight: 60,
+    justifyContent: 'center',
+  },
+  userAnswerText: {
+    fontSize: 20,
+    color: '#4f81cb',
+    lineHeight: 28,
+    textAlign: 'left',
+  },
+  placeholderText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'left',
+  },
+  submitButton: {
+    backgroundColor: '#4f81cb',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actionsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    paddingVertical: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    minWidth: 80,
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  keyboardContainer: {
+    marginTop: 20,
+  },
+});
+
+export default ListenScreen;
@@ -25,7 +25,7 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, continueAsGuest } = useAuth();
 
   /**
    * Handles user login using Supabase authentication.
@@ -145,6 +145,17 @@ const LoginScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         >
           <Text style={styles.registerLinkText}>Don't have an account? Sign up</Text>
         </TouchableOpacity>
+
+        {/* Guest link */}
+        <TouchableOpacity 
+          style={styles.guestLinkContainer}
+          onPress={async () => {
+            await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            continueAsGuest();
+          }}
+        >
+          <Text style={styles.guestLinkText}>Continue as guest</Text>
+        </TouchableOpacity>
         </View>
       </TouchableWithoutFeedback>
     </View>
@@ -245,6 +256,15 @@ const styles = StyleSheet.create({
     color: '#999',
     fontFamily: getFontFamily(),
   },
+  guestLinkContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  guestLinkText: {
+    fontSize: 16,
+    color: '#4f81cb',
+    fontFamily: getFontFamily(),
+  },
 });
 
 export default LoginScreen;
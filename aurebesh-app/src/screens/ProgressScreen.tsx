@@ -0,0 +1,629 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/SyncContext';
+import { getFontFamily } from '../utils/fonts';
+import { hapticLight } from '../utils/haptics';
+import {
+  LearningAttempt,
+  LearningSession,
+  LearningStatistics,
+  getLearningAttempts,
+  getRecentLearningSessions,
+  getUserLearningStatistics,
+} from '../utils/learningDatabase';
+import { getLocalAttempts, getLocalSessions, getLocalStatistics } from '../utils/learningStore';
+import { PracticeDay, calculatePracticeStreak, loadPracticeDays } from '../utils/practiceStreaks';
+import { CalendarHeatmap } from '../components';
+
+/**
+ * Number of recent sessions listed on the dashboard
+ */
+const RECENT_SESSION_LIMIT = 20;
+
+/**
+ * Bar colour for each difficulty, matching the difficulty picker on the practice screens
+ */
+const DIFFICULTY_COLORS: Record<LearningSession['difficulty'], string> = {
+  easy: '#4CAF50',
+  medium: '#ff9500',
+  hard: '#f44336',
+};
+
+/**
+ * Formats a number of seconds as a short duration, e.g. "1h 5m", "12m" or "45s"
+ * @param totalSeconds - The duration in seconds
+ */
+const formatDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.max(0, Math.round(totalSeconds))}s`;
+};
+
+/**
+ * Formats an ISO timestamp as a date and time for the session list
+ * @param iso - The timestamp to format
+ */
+const formatDateTime = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * Share of a session's questions answered correctly, as a whole percentage
+ */
+const getSessionAccuracy = (session: LearningSession): number =>
+  session.questions_attempted > 0
+    ? Math.round((session.questions_correct / session.questions_attempted) * 100)
+    : 0;
+
+/**
+ * Capitalizes a difficulty or mode for display
+ */
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Prefix naming how a session was played; plain practice sessions have none
+ */
+const getSessionModePrefix = (session: LearningSession): string =>
+  session.mode && session.mode !== 'practice' ? `${capitalize(session.mode)} · ` : '';
+
+/**
+ * Props for the ProgressScreen component
+ */
+interface ProgressScreenProps {
+  navigation: {
+    goBack: () => void;
+  };
+}
+
+/**
+ * ProgressScreen is the statistics dashboard.
+ * Shows overall accuracy, streaks, time spent and per-difficulty accuracy, the daily practice
+ * streak with a calendar heatmap, and lists recent sessions with a detail view of the answers
+ * given in each. Signed-in users see the totals from get_user_learning_stats; guests and
+ * offline users see the totals stored on the device.
+ */
+const ProgressScreen: React.FC<ProgressScreenProps> = ({ navigation }) => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const { isOnline, syncNow } = useSync();
+  const [statistics, setStatistics] = useState<LearningStatistics | null>(null);
+  const [sessions, setSessions] = useState<LearningSession[]>([]);
+  const [practiceDays, setPracticeDays] = useState<PracticeDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedSession, setSelectedSession] = useState<LearningSession | null>(null);
+  const [sessionAttempts, setSessionAttempts] = useState<LearningAttempt[]>([]);
+  const [loadingAttempts, setLoadingAttempts] = useState(false);
+
+  /**
+   * Whether the dashboard should read from Supabase rather than the device
+   */
+  const useServerData = !!user && settings.dataSyncEnabled && isOnline;
+
+  /**
+   * Loads statistics and recent sessions. Queued progress is uploaded first so the
+   * server totals include it; if the server can't be reached the device copy is shown.
+   */
+  const loadProgress = async () => {
+    let serverStatistics: LearningStatistics | null = null;
+    let serverSessions: LearningSession[] = [];
+
+    if (useServerData) {
+      await syncNow();
+      [serverStatistics, serverSessions] = await Promise.all([
+        getUserLearningStatistics(),
+        getRecentLearningSessions(RECENT_SESSION_LIMIT),
+      ]);
+    }
+
+    const localSessions = await getLocalSessions(user?.id, RECENT_SESSION_LIMIT);
+    setStatistics(serverStatistics ?? await getLocalStatistics(user?.id));
+    setSessions(serverSessions.length > 0 ? serverSessions : localSessions);
+    setPracticeDays(await loadPracticeDays(user?.id, useServerData));
+  };
+
+  /**
+   * Load the dashboard when the screen opens
+   */
+  useEffect(() => {
+    loadProgress().finally(() => setLoading(false));
+  }, [user?.id]);
+
+  /**
+   * Handles pull-to-refresh
+   */
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await loadProgress();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  /**
+   * Handles back navigation with haptic feedback, closing the session detail first
+   */
+  const handleGoBack = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (selectedSession) {
+      setSelectedSession(null);
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  /**
+   * Opens a session's detail view and loads the answers given during it
+   * @param session - The session that was tapped
+   */
+  const handleSessionPress = async (session: LearningSession) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setSelectedSession(session);
+    setSessionAttempts([]);
+    setLoadingAttempts(true);
+
+    try {
+      const end = session.session_end ?? new Date().toISOString();
+      const isDuringSession = (attempt: LearningAttempt) =>
+        !!attempt.created_at && attempt.created_at >= session.session_start && attempt.created_at <= end;
+
+      // Answers are matched by session id; those saved before answers carried one, by time
+      const allLocalAttempts = await getLocalAttempts(user?.id);
+      let localAttempts = allLocalAttempts.filter(attempt => !!session.id && attempt.session_id === session.id);
+      if (localAttempts.length === 0) {
+        localAttempts = allLocalAttempts.filter(isDuringSession);
+      }
+
+      let serverAttempts: LearningAttempt[] = [];
+      if (useServerData && session.id) {
+        serverAttempts = await getLearningAttempts({ sessionId: session.id, limit: 500 });
+      }
+      if (useServerData && serverAttempts.length === 0) {
+        serverAttempts = await getLearningAttempts({ since: session.session_start, until: end, limit: 500 });
+      }
+
+      setSessionAttempts(serverAttempts.length > 0 ? serverAttempts : localAttempts);
+    } finally {
+      setLoadingAttempts(false);
+    }
+  };
+
+  /**
+   * Renders a single statistic tile
+   */
+  const renderStatTile = (icon: keyof typeof MaterialIcons.glyphMap, value: string, label: string) => (
+    <View style={styles.statTile} key={label}>
+      <MaterialIcons name={icon} size={24} color="#4f81cb" />
+      <Text style={[styles.statValue, { fontFamily: getFontFamily() }]}>{value}</Text>
+      <Text style={[styles.statLabel, { fontFamily: getFontFamily() }]}>{label}</Text>
+    </View>
+  );
+
+  /**
+   * Renders an accuracy bar for one difficulty
+   */
+  const renderAccuracyBar = (difficulty: LearningSession['difficulty'], accuracy: number) => (
+    <View style={styles.accuracyRow} key={difficulty}>
+      <Text style={[styles.accuracyLabel, { fontFamily: getFontFamily() }]}>{capitalize(difficulty)}</Text>
+      <View style={styles.accuracyTrack}>
+        <View
+          style={[
+            styles.accuracyFill,
+            { width: `${Math.min(100, Math.max(0, accuracy))}%`, backgroundColor: DIFFICULTY_COLORS[difficulty] },
+          ]}
+        />
+      </View>
+      <Text style={[styles.accuracyValue, { fontFamily: getFontFamily() }]}>{Math.round(accuracy)}%</Text>
+    </View>
+  );
+
+  /**
+   * Renders a row in the recent sessions list
+   */
+  const renderSessionRow = (session: LearningSession, index: number) => (
+    <TouchableOpacity
+      key={session.id ?? `${session.session_start}-${index}`}
+      style={styles.sessionRow}
+      onPress={() => handleSessionPress(session)}
+      accessibilityRole="button"
+      accessibilityLabel={`Session on ${formatDateTime(session.session_start)}`}
+    >
+      <View style={[styles.difficultyDot, { backgroundColor: DIFFICULTY_COLORS[session.difficulty] }]} />
+      <View style={styles.sessionInfo}>
+        <Text style={[styles.sessionDate, { fontFamily: getFontFamily() }]}>
+          {formatDateTime(session.session_start)}
+        </Text>
+        <Text style={[styles.sessionMeta, { fontFamily: getFontFamily() }]}>
+          {getSessionModePrefix(session)}{capitalize(session.difficulty)} · {session.questions_correct}/{session.questions_attempted} correct
+          {session.session_duration_seconds !== undefined ? ` · ${formatDuration(session.session_duration_seconds)}` : ''}
+        </Text>
+      </View>
+      <Text style={[styles.sessionScore, { fontFamily: getFontFamily() }]}>{getSessionAccuracy(session)}%</Text>
+      <MaterialIcons name="chevron-right" size={24} color="#666" />
+    </TouchableOpacity>
+  );
+
+  /**
+   * Renders the detail view for the selected session
+   */
+  const renderSessionDetail = (session: LearningSession) => (
+    <View>
+      <View style={styles.card}>
+        <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>
+          {getSessionModePrefix(session)}{formatDateTime(session.session_start)}
+        </Text>
+        <View style={styles.statGrid}>
+          {renderStatTile('tune', capitalize(session.difficulty), 'Difficulty')}
+          {renderStatTile('check-circle', `${getSessionAccuracy(session)}%`, 'Accuracy')}
+          {renderStatTile('local-fire-department', `${session.max_streak}`, 'Best Streak')}
+          {renderStatTile('star', `${session.final_score}`, 'Score')}
+          {renderStatTile('quiz', `${session.questions_correct}/${session.questions_attempted}`, 'Correct')}
+          {renderStatTile('timer', formatDuration(session.session_duration_seconds ?? 0), 'Duration')}
+        </View>
+      </View>
+
+      <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>Answers</Text>
+      {loadingAttempts ? (
+        <ActivityIndicator size="small" color="#4f81cb" style={styles.inlineLoader} />
+      ) : sessionAttempts.length === 0 ? (
+        <Text style={[styles.emptyText, { fontFamily: getFontFamily() }]}>
+          No individual answers were recorded for this session.
+        </Text>
+      ) : (
+        sessionAttempts.map((attempt, index) => (
+          <View key={attempt.id ?? `${attempt.created_at}-${index}`} style={styles.attemptRow}>
+            <MaterialIcons
+              name={attempt.is_correct ? 'check-circle' : 'cancel'}
+              size={20}
+              color={attempt.is_correct ? '#4CAF50' : '#f44336'}
+            />
+            <View style={styles.attemptInfo}>
+              <Text style={[styles.attemptExpected, { fontFamily: getFontFamily() }]}>
+                {attempt.expected_answer}
+              </Text>
+              <Text style={[styles.attemptMeta, { fontFamily: getFontFamily() }]}>
+                {capitalize(attempt.mode)}
+                {attempt.is_correct ? '' : ` · answered "${attempt.given_answer}"`}
+                {attempt.hint_used ? ' · hint' : ''}
+                {attempt.answer_revealed ? ' · revealed' : ''}
+              </Text>
+            </View>
+            <Text style={[styles.attemptTime, { fontFamily: getFontFamily() }]}>
+              {(attempt.response_time_ms / 1000).toFixed(1)}s
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  const practiceStreak = calculatePracticeStreak(practiceDays);
+
+  /**
+   * Renders the dashboard overview
+   */
+  const renderOverview = () => {
+    if (!statistics || statistics.total_questions_attempted === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="insights" size={48} color="#ccc" />
+          <Text style={[styles.emptyTitle, { fontFamily: getFontFamily() }]}>No progress yet</Text>
+          <Text style={[styles.emptyText, { fontFamily: getFontFamily() }]}>
+            Practice on the Read tab and your statistics will appear here.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {/* Overall Statistics */}
+        <View style={styles.card}>
+          <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Overall</Text>
+          <View style={styles.statGrid}>
+            {renderStatTile('check-circle', `${Math.round(statistics.accuracy_percentage)}%`, 'Accuracy')}
+            {renderStatTile('quiz', `${statistics.total_questions_attempted}`, 'Questions')}
+            {renderStatTile('bolt', `${statistics.current_streak}`, 'Answer Streak')}
+            {renderStatTile('emoji-events', `${statistics.best_streak}`, 'Best Answer Streak')}
+            {renderStatTile('timer', formatDuration(statistics.total_time_spent_seconds), 'Time Spent')}
+            {renderStatTile('event-repeat', `${statistics.total_sessions}`, 'Sessions')}
+          </View>
+        </View>
+
+        {/* Daily Practice */}
+        <View style={styles.card}>
+          <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Daily Practice</Text>
+          <View style={styles.statGrid}>
+            {renderStatTile('local-fire-department', `${practiceStreak.currentStreak}`, 'Day Streak')}
+            {renderStatTile('military-tech', `${practiceStreak.longestStreak}`, 'Longest')}
+            {renderStatTile('ac-unit', `${practiceStreak.freezesAvailable}`, 'Freezes')}
+          </View>
+          {!practiceStreak.practicedToday && practiceStreak.currentStreak > 0 && (
+            <Text style={[styles.streakHint, { fontFamily: getFontFamily() }]}>
+              Practise today to keep your streak going.
+            </Text>
+          )}
+          <CalendarHeatmap days={practiceDays} frozenDates={practiceStreak.frozenDates} />
+        </View>
+
+        {/* Accuracy by Difficulty */}
+        <View style={styles.card}>
+          <Text style={[styles.cardTitle, { fontFamily: getFontFamily() }]}>Accuracy by Difficulty</Text>
+          {renderAccuracyBar('easy', statistics.easy_accuracy)}
+          {renderAccuracyBar('medium', statistics.medium_accuracy)}
+          {renderAccuracyBar('hard', statistics.hard_accuracy)}
+        </View>
+
+        {/* Recent Sessions */}
+        <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>Recent Sessions</Text>
+        {sessions.length === 0 ? (
+          <Text style={[styles.emptyText, { fontFamily: getFontFamily() }]}>
+            Finished sessions will be listed here.
+          </Text>
+        ) : (
+          sessions.map(renderSessionRow)
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerBackButton}
+          onPress={handleGoBack}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4f81cb" />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { fontFamily: getFontFamily() }]}>
+          {selectedSession ? 'Session Details' : 'Your Progress'}
+        </Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4f81cb" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            selectedSession ? undefined : (
+              <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#4f81cb" />
+            )
+          }
+        >
+          {selectedSession ? renderSessionDetail(selectedSession) : renderOverview()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e1e5e9',
+  },
+  headerBackButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#e1e5e9',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  statGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  statTile: {
+    width: '31%',
+    alignItems: 'center',
+    backgroundColor: '#f0f8ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 4,
+    marginBottom: 10,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  streakHint: {
+    fontSize: 13,
+    color: '#ff9500',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  accuracyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  accuracyLabel: {
+    width: 70,
+    fontSize: 14,
+    color: '#333',
+  },
+  accuracyTrack: {
+    flex: 1,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#e1e5e9',
+    overflow: 'hidden',
+  },
+  accuracyFill: {
+    height: '100%',
+    borderRadius: 6,
+  },
+  accuracyValue: {
+    width: 48,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  difficultyDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  sessionScore: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4f81cb',
+    marginHorizontal: 8,
+  },
+  attemptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  attemptInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  attemptExpected: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  attemptMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  attemptTime: {
+    fontSize: 13,
+    color: '#999',
+    marginLeft: 8,
+  },
+  inlineLoader: {
+    marginVertical: 20,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
+
+export default ProgressScreen;
@@ -10,26 +10,56 @@ import {
   Modal,
   Animated,
   KeyboardAvoidingView,
-  Platform
+  Platform,
+  AppState
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
 import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
 import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
-import { getRandomWord, WordPair, getCategories } from '../utils/dictionary';
-import { saveCompleteLearningSession, SessionSummary, getUserLearningStatistics, updateUserStatistics } from '../utils/learningDatabase';
+import { WordPair, getCategories } from '../utils/dictionary';
+import { WordReview, loadWordReviews, recordWordAttempt, selectNextWord, WordAttemptOutcome } from '../utils/wordReviews';
+import { tokenizeAurebesh, tokensMatch, translateToAurebesh } from '../utils/aurebeshTranslator';
+import { SessionMode, SessionSummary } from '../utils/learningDatabase';
+import { createSessionId, getLocalStatistics, recordLocalAttempt, recordLocalSession, recordLocalStatistics } from '../utils/learningStore';
+import { recordGlyphConfusions } from '../utils/confusionMatrix';
+import { getRandomPhrase, gradePhraseAnswer, PhraseGrade, phraseToWordPair } from '../utils/phrases';
+import { gradeLetters, isNearMiss, LetterGrade } from '../utils/letterGrade';
+import { buildHintLadder, getAnswerPoints, getHintCost } from '../utils/hints';
+import { Deck } from '../utils/decks';
+import { BlitzChallenge, DeckPicker, HintList, LetterFeedback, MultipleChoiceChallenge, PhraseFeedback, PromptType, PromptTypeSelector } from '../components';
+
+/**
+ * Ways to practise on the Read screen: typed answers, timed Blitz rounds, or picking
+ * from four options
+ */
+type ReadMode = Extract<SessionMode, 'practice' | 'blitz' | 'choice'>;
+
+/**
+ * Display name and icon for each Read mode
+ */
+const READ_MODES: { mode: ReadMode; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { mode: 'practice', label: 'Practice', icon: 'school' },
+  { mode: 'choice', label: 'Choice', icon: 'list' },
+  { mode: 'blitz', label: 'Blitz', icon: 'timer' },
+];
 
 /**
  * ReadScreen allows users to practice translating Aurebesh to English.
  * Users see a word written in Aurebesh and enter the English equivalent.
- * Includes hints, scoring, and difficulty progression.
+ * Includes progressive hints that cost points, scoring, and difficulty progression, phrase
+ * prompts graded word by word, glyph-by-glyph feedback on wrong words, a timed Blitz mode,
+ * and a multiple-choice mode for new learners.
  */
 const ReadScreen: React.FC = () => {
   const { settings } = useSettings();
+  const { user } = useAuth();
   const [currentWord, setCurrentWord] = useState<WordPair | null>(null);
   const [userAnswer, setUserAnswer] = useState('');
-  const [showHint, setShowHint] = useState(false);
+  // Hints taken for the current word, counted along its hint ladder
+  const [hintsShown, setHintsShown] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [score, setScore] = useState(0);
   const [streak, setStreak] = useState(0);
@@ -38,16 +68,40 @@ const ReadScreen: React.FC = () => {
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('easy');
   const [showDifficultyModal, setShowDifficultyModal] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
+  const [readMode, setReadMode] = useState<ReadMode>('practice');
+  const [promptType, setPromptType] = useState<PromptType>('words');
+  // Deck words are drawn from, or null for the whole dictionary
+  const [selectedDeck, setSelectedDeck] = useState<Deck | null>(null);
+  // Word-by-word grade of the last phrase answer
+  const [phraseGrade, setPhraseGrade] = useState<PhraseGrade | null>(null);
+  // Glyph-by-glyph grade of the last wrong single-word answer
+  const [letterGrade, setLetterGrade] = useState<LetterGrade | null>(null);
+  // Whether that answer was a near miss given credit
+  const [nearMissCredited, setNearMissCredited] = useState(false);
   
   // Animation for modal content
   const modalSlideAnim = useRef(new Animated.Value(300)).current; // Start 300px below
   const backdropOpacityAnim = useRef(new Animated.Value(0)).current; // Start transparent
   
-  // Session tracking for database storage
+  // Session tracking for the learning store
+  const [sessionId, setSessionId] = useState(createSessionId);
   const [sessionStartTime, setSessionStartTime] = useState<Date>(new Date());
+  // Totals for this session alone; score, streak and questionsAnswered are lifetime totals
+  const [sessionQuestionsAttempted, setSessionQuestionsAttempted] = useState(0);
   const [sessionQuestionsCorrect, setSessionQuestionsCorrect] = useState(0);
   const [sessionMaxStreak, setSessionMaxStreak] = useState(0);
+  // Points earned this session, after hint costs, and the hints taken
+  const [sessionPoints, setSessionPoints] = useState(0);
+  const [sessionHintsUsed, setSessionHintsUsed] = useState(0);
   
+  // Review history used to pick the next word; a ref so delayed word loads see the latest
+  const wordReviewsRef = useRef<Record<string, WordReview>>({});
+  // When the current word appeared, for response times in the attempt log
+  const wordShownAtRef = useRef(Date.now());
+
+  // Totals already written to the learning store, to work out what each save adds
+  const savedTotalsRef = useRef({ attempted: 0, correct: 0 });
+
   // Ref to store latest session data for cleanup
   const sessionDataRef = useRef<SessionSummary>({
     difficulty: 'easy',
@@ -66,28 +120,54 @@ const ReadScreen: React.FC = () => {
   }, []);
 
   /**
-   * Refresh statistics when screen is focused (e.g., after returning from Settings)
+   * Load the user's word review history, then pick a word from it
+   */
+  useEffect(() => {
+    loadWordReviews('read', user?.id).then(reviews => {
+      wordReviewsRef.current = reviews;
+      loadNewWord();
+    });
+  }, [user?.id]);
+
+  /**
+   * Refresh statistics when screen is focused (e.g., after returning from Settings),
+   * start a session, and save it when the user leaves. Going to the background, where the
+   * app may be closed, also saves the session and starts a new one.
    */
   useFocusEffect(
     useCallback(() => {
       refreshStatistics();
-    }, [])
+      startNewSession();
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'background' && sessionDataRef.current.questionsAttempted > 0) {
+          recordLocalSession(user?.id, sessionDataRef.current);
+          startNewSession();
+        }
+      });
+      return () => {
+        subscription.remove();
+        if (sessionDataRef.current.questionsAttempted > 0) {
+          recordLocalSession(user?.id, sessionDataRef.current);
+        }
+      };
+    }, [user?.id])
   );
 
   /**
-   * Load user statistics from database and initialize session
+   * Load user statistics from the learning store and initialize session
    */
   const loadUserStatistics = async () => {
     try {
-      const stats = await getUserLearningStatistics();
+      const stats = await getLocalStatistics(user?.id);
       if (stats) {
-        // Load existing stats from database into UI
-        console.log('Loading stats from database:', stats);
+        // Load existing stats from the device (including progress not yet synced) into UI
         setScore(stats.total_questions_correct || 0); // Correct = total correct answers
-        setStreak(stats.current_streak || 0); // Load current streak from database (persists across restarts)
+        setStreak(stats.current_streak || 0); // Load current streak from the store (persists across restarts)
         setQuestionsAnswered(stats.total_questions_attempted || 0); // Total = total attempted
-        setSessionQuestionsCorrect(stats.total_questions_correct || 0);
-        setSessionMaxStreak(stats.best_streak || 0);
+        savedTotalsRef.current = {
+          attempted: stats.total_questions_attempted || 0,
+          correct: stats.total_questions_correct || 0,
+        };
       }
       loadNewWord(); // Just load a word, don't reset stats
     } catch (error) {
@@ -97,26 +177,25 @@ const ReadScreen: React.FC = () => {
   };
 
   /**
-   * Refresh statistics from database without loading a new word
+   * Refresh statistics from the learning store without loading a new word
    */
   const refreshStatistics = async () => {
     try {
-      const stats = await getUserLearningStatistics();
+      const stats = await getLocalStatistics(user?.id);
       if (stats) {
-        console.log('Refreshing stats from database:', stats);
         setScore(stats.total_questions_correct || 0);
         setStreak(stats.current_streak || 0);
         setQuestionsAnswered(stats.total_questions_attempted || 0);
-        setSessionQuestionsCorrect(stats.total_questions_correct || 0);
-        setSessionMaxStreak(stats.best_streak || 0);
+        savedTotalsRef.current = {
+          attempted: stats.total_questions_attempted || 0,
+          correct: stats.total_questions_correct || 0,
+        };
       } else {
         // If no stats found (e.g., after reset), set everything to 0
-        console.log('No stats found, resetting to zero');
         setScore(0);
         setStreak(0);
         setQuestionsAnswered(0);
-        setSessionQuestionsCorrect(0);
-        setSessionMaxStreak(0);
+        savedTotalsRef.current = { attempted: 0, correct: 0 };
       }
     } catch (error) {
       console.error('Error refreshing user statistics:', error);
@@ -124,25 +203,27 @@ const ReadScreen: React.FC = () => {
   };
 
   /**
-   * Load new word when difficulty changes
+   * Load new word when difficulty, the prompt type or the deck changes
    */
   useEffect(() => {
     loadNewWord();
-  }, [difficulty]);
+  }, [difficulty, promptType, selectedDeck]);
 
   /**
    * Update session data ref whenever values change
    */
   useEffect(() => {
     sessionDataRef.current = {
+      id: sessionId,
       difficulty,
-      questionsAttempted: questionsAnswered,
-      questionsCorrect: score, // Use score (correct answers) instead of sessionQuestionsCorrect
-      maxStreak: streak, // Use current streak instead of sessionMaxStreak
-      score,
+      questionsAttempted: sessionQuestionsAttempted,
+      questionsCorrect: sessionQuestionsCorrect,
+      maxStreak: sessionMaxStreak,
+      score: sessionPoints,
       startTime: sessionStartTime,
+      hintsUsed: sessionHintsUsed,
     };
-  }, [difficulty, questionsAnswered, score, streak, sessionStartTime]);
+  }, [difficulty, sessionQuestionsAttempted, sessionQuestionsCorrect, sessionMaxStreak, sessionId, sessionStartTime, sessionPoints, sessionHintsUsed]);
 
   /**
    * Animate modal content when modal visibility changes
@@ -190,23 +271,19 @@ const ReadScreen: React.FC = () => {
   }, [showDifficultyModal, modalSlideAnim, backdropOpacityAnim]);
 
   /**
-   * Save stats to database whenever score, streak, or questionsAnswered changes
+   * Save stats to the learning store whenever score, streak, or questionsAnswered changes
    */
   useEffect(() => {
     // Only save if at least one question has been answered
     if (questionsAnswered > 0) {
-      console.log('Stats changed, updating database:', {
-        questions_attempted: questionsAnswered,
-        questions_correct: score,
-        current_streak: streak,
-        difficulty,
-      });
-      
       // Use a timeout to debounce rapid state changes
       const timeoutId = setTimeout(() => {
-        updateUserStatistics({
-          questions_attempted: questionsAnswered,
-          questions_correct: score,
+        // The store takes increments, so totals merged in by a sync in the meantime aren't overwritten
+        const saved = savedTotalsRef.current;
+        savedTotalsRef.current = { attempted: questionsAnswered, correct: score };
+        recordLocalStatistics(user?.id, {
+          questions_attempted: questionsAnswered - saved.attempted,
+          questions_correct: score - saved.correct,
           current_streak: streak,
           difficulty,
         });
@@ -217,48 +294,38 @@ const ReadScreen: React.FC = () => {
   }, [score, streak, questionsAnswered]); // Save whenever any of these change
 
   /**
-   * Save session when component unmounts
-   */
-  useEffect(() => {
-    return () => {
-      // Save final session when component unmounts using ref data
-      if (sessionDataRef.current.questionsAttempted > 0) {
-        console.log('Component unmounting, saving final session with data:', sessionDataRef.current);
-        saveCompleteLearningSession(sessionDataRef.current);
-      }
-    };
-  }, []);
-
-  /**
-   * Start a new learning session (don't reset stats from database)
+   * Start a new learning session with fresh session totals
    */
   const startNewSession = () => {
+    setSessionId(createSessionId());
     setSessionStartTime(new Date());
-    // Don't reset score, streak, questionsAnswered - they come from database
-    loadNewWord();
+    setSessionQuestionsAttempted(0);
+    setSessionQuestionsCorrect(0);
+    setSessionMaxStreak(0);
+    setSessionPoints(0);
+    setSessionHintsUsed(0);
+    // Don't reset score, streak, questionsAnswered - they come from the learning store
   };
 
   /**
-   * Save the current session to the database
+   * Save the current session to the learning store (uploaded by the sync queue)
    */
   const saveCurrentSession = async () => {
     try {
       const sessionData: SessionSummary = {
+        id: sessionId,
         difficulty,
-        questionsAttempted: questionsAnswered,
+        questionsAttempted: sessionQuestionsAttempted,
         questionsCorrect: sessionQuestionsCorrect,
         maxStreak: sessionMaxStreak,
-        score,
+        score: sessionPoints,
         startTime: sessionStartTime,
+        hintsUsed: sessionHintsUsed,
       };
 
-      console.log('Attempting to save session with data:', sessionData);
-
-      const success = await saveCompleteLearningSession(sessionData);
+      const success = await recordLocalSession(user?.id, sessionData);
       if (!success) {
-        console.warn('Failed to save learning session to database');
-      } else {
-        console.log('✅ Successfully saved learning session to database!');
+        console.warn('Failed to save learning session');
       }
     } catch (error) {
       console.error('Error saving session:', error);
@@ -270,7 +337,7 @@ const ReadScreen: React.FC = () => {
    */
   const resetSessionForNewDifficulty = async () => {
     // Save current session before resetting
-    if (questionsAnswered > 0) {
+    if (sessionQuestionsAttempted > 0) {
       await saveCurrentSession();
     }
     
@@ -279,17 +346,59 @@ const ReadScreen: React.FC = () => {
   };
 
   /**
-   * Load a new random word based on current difficulty
+   * Load the next word for the current difficulty: due and weak words first,
+   * or a random word when the user prefers random order. Phrases are always random.
    */
   const loadNewWord = () => {
-    const word = getRandomWord(difficulty);
+    const word = promptType === 'phrases'
+      ? phraseToWordPair(getRandomPhrase(difficulty, currentWord?.english))
+      : selectNextWord(difficulty, wordReviewsRef.current, {
+          random: settings.randomWordOrder,
+          excludeEnglish: currentWord?.english,
+          words: selectedDeck?.words,
+        });
     setCurrentWord(word);
+    setPhraseGrade(null);
+    setLetterGrade(null);
+    setNearMissCredited(false);
+    wordShownAtRef.current = Date.now();
     setUserAnswer('');
-    setShowHint(false);
+    setHintsShown(0);
     setShowAnswer(false);
     setIsCorrect(null);
   };
 
+  /**
+   * Record how the attempt on the current word ended: reschedules the word and
+   * adds the answer to the attempt log
+   */
+  const recordAttempt = (outcome: WordAttemptOutcome, givenAnswer: string) => {
+    if (!currentWord) return;
+    // Review scheduling covers dictionary words only
+    if (promptType === 'words') {
+      recordWordAttempt('read', currentWord, outcome, user?.id).then(reviews => {
+        wordReviewsRef.current = reviews;
+      });
+    }
+    recordLocalAttempt(user?.id, {
+      session_id: sessionId,
+      mode: 'read',
+      prompt: currentWord.english,
+      expected_answer: currentWord.english,
+      given_answer: givenAnswer,
+      is_correct: outcome === 'correct' || outcome === 'correctWithHint',
+      hint_used: hintsShown > 0,
+      answer_revealed: outcome === 'revealed',
+      response_time_ms: Date.now() - wordShownAtRef.current,
+    }, sessionDataRef.current);
+  };
+
+  // Hints for the current word, from its length up to the full answer
+  const hints = currentWord
+    ? buildHintLadder(currentWord, 'english', { useDigraphs: settings.digraphsEnabled })
+    : [];
+  const canTakeHint = hintsShown < hints.length && !showAnswer && isCorrect === null;
+
   /**
    * Check if the user's answer is correct
    */
@@ -300,21 +409,43 @@ const ReadScreen: React.FC = () => {
       return;
     }
 
-    const isAnswerCorrect = userAnswer.trim().toLowerCase() === currentWord.english.toLowerCase();
+    // Compare glyph by glyph so the answer is judged the way the word is actually written
+    const transliterationOptions = { useDigraphs: settings.digraphsEnabled };
+    const expectedTokens = tokenizeAurebesh(currentWord.english, transliterationOptions);
+    const answerTokens = tokenizeAurebesh(userAnswer.trim(), transliterationOptions);
+    // Phrases are graded word by word; each word counts as a question, for partial credit
+    const grade = promptType === 'phrases' ? gradePhraseAnswer(expectedTokens, answerTokens) : null;
+    const isAnswerCorrect = grade ? grade.isCorrect : tokensMatch(expectedTokens, answerTokens);
+    // Wrong single words are diffed glyph by glyph, so a typo shows exactly where it slipped
+    const wordGrade = grade || isAnswerCorrect ? null : gradeLetters(expectedTokens, answerTokens);
+    const isNearMissCredited = wordGrade !== null && settings.nearMissCredit && isNearMiss(wordGrade);
+    setPhraseGrade(grade);
+    setLetterGrade(wordGrade);
+    setNearMissCredited(isNearMissCredited);
     setIsCorrect(isAnswerCorrect);
+    if (!isAnswerCorrect) {
+      recordGlyphConfusions(user?.id, expectedTokens, answerTokens);
+    }
+    recordAttempt(
+      isAnswerCorrect ? (hintsShown > 0 ? 'correctWithHint' : 'correct') : 'incorrect',
+      userAnswer.trim()
+    );
 
     // Update session statistics
-    const newQuestionsAnswered = questionsAnswered + 1;
+    const newQuestionsAnswered = questionsAnswered + (grade ? grade.totalWords : 1);
+    setSessionQuestionsAttempted(sessionQuestionsAttempted + (grade ? grade.totalWords : 1));
+    const hintCost = getHintCost(hints, hintsShown);
 
     if (isAnswerCorrect) {
       await hapticSuccess(settings.hapticFeedbackEnabled);
-      const newScore = score + 1;
+      const newScore = score + (grade ? grade.correctWords : 1);
       const newStreak = streak + 1;
       
-      console.log('Correct answer! Setting new streak:', newStreak);
-      
       // Batch all state updates together to prevent multiple useEffect triggers
       setScore(newScore);
+      setSessionQuestionsCorrect(sessionQuestionsCorrect + (grade ? grade.correctWords : 1));
+      setSessionMaxStreak(Math.max(sessionMaxStreak, newStreak));
+      setSessionPoints(sessionPoints + getAnswerPoints(grade ? grade.correctWords : 1, hintCost));
       setStreak(newStreak);
       setQuestionsAnswered(newQuestionsAnswered);
       
@@ -324,22 +455,32 @@ const ReadScreen: React.FC = () => {
       }, 1500);
     } else {
       await hapticMedium(settings.hapticFeedbackEnabled);
-      console.log('Wrong answer! Resetting streak to 0');
       
       // Batch state updates
       setStreak(0); // Reset streak on wrong answer
       setQuestionsAnswered(newQuestionsAnswered);
+      if (grade && grade.correctWords > 0) {
+        setScore(score + grade.correctWords); // Partial credit for the words that were right
+        setSessionQuestionsCorrect(sessionQuestionsCorrect + grade.correctWords);
+        setSessionPoints(sessionPoints + getAnswerPoints(grade.correctWords, hintCost));
+      } else if (isNearMissCredited) {
+        setScore(score + 1); // Credit for a word one glyph off, if near misses count
+        setSessionQuestionsCorrect(sessionQuestionsCorrect + 1);
+        setSessionPoints(sessionPoints + getAnswerPoints(1, hintCost));
+      }
     }
 
-    // Database save happens automatically via useEffect
+    // Saving to the learning store happens automatically via useEffect
   };
 
   /**
-   * Show hint for the current word
+   * Show the next hint for the current word
    */
   const handleShowHint = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
-    setShowHint(true);
+    if (hintsShown >= hints.length) return;
+    setHintsShown(hintsShown + 1);
+    setSessionHintsUsed(sessionHintsUsed + 1);
   };
 
   /**
@@ -347,18 +488,28 @@ const ReadScreen: React.FC = () => {
    */
   const handleShowAnswer = async () => {
     await hapticMedium(settings.hapticFeedbackEnabled);
+    if (isCorrect === null) {
+      recordAttempt('revealed', userAnswer.trim());
+      // A revealed word counts as attempted, like a skipped one
+      const revealedQuestions = currentWord ? getPromptWordCount(currentWord.english) : 1;
+      setQuestionsAnswered(questionsAnswered + revealedQuestions);
+      setSessionQuestionsAttempted(sessionQuestionsAttempted + revealedQuestions);
+    }
     setShowAnswer(true);
     setStreak(0); // Reset streak when showing answer
   };
 
   /**
-   * Skip to next word
+   * Skip to next word. A word already answered or revealed was counted then.
    */
   const handleSkip = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
     setStreak(0); // Reset streak when skipping
-    const newQuestionsAnswered = questionsAnswered + 1;
-    setQuestionsAnswered(newQuestionsAnswered);
+    if (isCorrect === null && !showAnswer) {
+      const skippedQuestions = currentWord ? getPromptWordCount(currentWord.english) : 1;
+      setQuestionsAnswered(questionsAnswered + skippedQuestions);
+      setSessionQuestionsAttempted(sessionQuestionsAttempted + skippedQuestions);
+    }
     loadNewWord();
   };
 
@@ -368,23 +519,36 @@ const ReadScreen: React.FC = () => {
   const handleDifficultyChange = async (newDifficulty: 'easy' | 'medium' | 'hard') => {
     await hapticLight(settings.hapticFeedbackEnabled);
     
-    // Don't reset session when changing difficulty, just update difficulty
+    // Sessions are saved per difficulty
+    if (newDifficulty !== difficulty) {
+      await resetSessionForNewDifficulty();
+    }
     setDifficulty(newDifficulty);
     setShowDifficultyModal(false);
   };
 
   /**
-   * Get hint text for the current word
+   * Switch between typed practice, multiple choice and Blitz rounds
    */
-  const getHintText = (): string => {
-    if (!currentWord) return '';
-    
-    const word = currentWord.english;
-    const firstLetter = word.charAt(0).toUpperCase();
-    const blanks = '_'.repeat(word.length - 1);
-    return `${firstLetter}${blanks} (${word.length} letters, ${currentWord.category})`;
+  const handleModeChange = async (newMode: ReadMode) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setReadMode(newMode);
   };
 
+  /**
+   * Switch between single words and phrases
+   */
+  const handlePromptTypeChange = async (newPromptType: PromptType) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setPromptType(newPromptType);
+  };
+
+  /**
+   * Number of questions a prompt counts as: one per word for phrases
+   */
+  const getPromptWordCount = (english: string): number =>
+    promptType === 'phrases' ? english.split(' ').filter(Boolean).length : 1;
+
   /**
    * Get the color for answer feedback
    */
@@ -427,41 +591,73 @@ const ReadScreen: React.FC = () => {
       </View>
       */}
 
-      {/* Difficulty Selector */}
-      <TouchableOpacity 
-        style={styles.difficultyButton} 
-        onPress={() => setShowDifficultyModal(true)}
-      >
-        <MaterialIcons name="tune" size={20} color="#4f81cb" />
-        <Text style={[styles.difficultyText, { fontFamily: getFontFamily() }]}>
-          Difficulty: {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
-        </Text>
-        <MaterialIcons name="expand-more" size={20} color="#4f81cb" />
-      </TouchableOpacity>
+      {/* Mode Selector */}
+      <View style={styles.modeSelector}>
+        {READ_MODES.map(({ mode, label, icon }) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.modeOption, readMode === mode && styles.selectedMode]}
+            onPress={() => handleModeChange(mode)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: readMode === mode }}
+          >
+            <MaterialIcons name={icon} size={18} color={readMode === mode ? '#fff' : '#4f81cb'} />
+            <Text style={[styles.modeOptionText, {
+              fontFamily: getFontFamily(),
+              color: readMode === mode ? '#fff' : '#4f81cb'
+            }]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Difficulty Selector (multiple choice follows its own curve) */}
+      {readMode !== 'choice' && (
+        <TouchableOpacity 
+          style={styles.difficultyButton} 
+          onPress={() => setShowDifficultyModal(true)}
+        >
+          <MaterialIcons name="tune" size={20} color="#4f81cb" />
+          <Text style={[styles.difficultyText, { fontFamily: getFontFamily() }]}>
+            Difficulty: {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+          </Text>
+          <MaterialIcons name="expand-more" size={20} color="#4f81cb" />
+        </TouchableOpacity>
+      )}
+
+      {/* Deck Selector (phrases and multiple choice use their own word lists) */}
+      {(readMode === 'blitz' || (readMode === 'practice' && promptType === 'words')) && (
+        <DeckPicker selectedDeck={selectedDeck} onSelect={setSelectedDeck} />
+      )}
+
+      {/* Words or Phrases */}
+      {readMode === 'practice' && (
+        <PromptTypeSelector value={promptType} onChange={handlePromptTypeChange} />
+      )}
+
+      {/* Multiple Choice */}
+      {readMode === 'choice' && <MultipleChoiceChallenge />}
+
+      {/* Blitz Round */}
+      {readMode === 'blitz' && <BlitzChallenge difficulty={difficulty} deck={selectedDeck} />}
 
       {/* Question Card */}
-      {currentWord && (
+      {readMode === 'practice' && currentWord && (
         <View style={styles.questionCard}>
           <Text style={[styles.instructionText, { fontFamily: getFontFamily() }]}>
-            Translate this Aurebesh word:
+            {promptType === 'phrases' ? 'Translate this Aurebesh phrase:' : 'Translate this Aurebesh word:'}
           </Text>
           
           {/* Aurebesh Text Display */}
           <View style={styles.aurebeshContainer}>
             <Text style={[styles.aurebeshText, { fontFamily: getAurebeshFontFamily() }]}>
-              {currentWord.aurebesh}
+              {translateToAurebesh(currentWord.english, { useDigraphs: settings.digraphsEnabled })}
             </Text>
           </View>
           
           {/* Hint Display */}
-          {showHint && (
-            <View style={styles.hintContainer}>
-              <MaterialIcons name="lightbulb" size={16} color="#ff9500" />
-              <Text style={[styles.hintText, { fontFamily: getFontFamily() }]}>
-                {getHintText()}
-              </Text>
-            </View>
-          )}
+          <HintList hints={hints.slice(0, hintsShown)} />
 
           {/* Answer Reveal */}
           {showAnswer && (
@@ -488,7 +684,9 @@ const ReadScreen: React.FC = () => {
           />
 
           {/* Feedback */}
-          {isCorrect !== null && (
+          {phraseGrade && <PhraseFeedback grade={phraseGrade} />}
+          {letterGrade && <LetterFeedback grade={letterGrade} nearMiss={nearMissCredited} />}
+          {isCorrect !== null && !phraseGrade && !letterGrade && (
             <View style={[styles.feedbackContainer, { 
               backgroundColor: isCorrect ? '#E8F5E8' : '#FFEBEE' 
             }]}>
@@ -501,7 +699,19 @@ const ReadScreen: React.FC = () => {
                 fontFamily: getFontFamily(),
                 color: isCorrect ? '#4CAF50' : '#f44336'
               }]}>
-                {isCorrect ? 'Correct! Well done!' : `Incorrect. The answer is "${currentWord.english}"`}
+                {isCorrect
+                  ? `Correct! Well done! +${getAnswerPoints(1, getHintCost(hints, hintsShown))} points`
+                  : `Incorrect. The answer is "${currentWord.english}"`}
+              </Text>
+            </View>
+          )}
+
+          {/* Deck notes for the word, once it's been answered */}
+          {(isCorrect !== null || showAnswer) && selectedDeck?.notes?.[currentWord.english] && (
+            <View style={styles.noteContainer}>
+              <MaterialIcons name="sticky-note-2" size={16} color="#4f81cb" />
+              <Text style={[styles.noteText, { fontFamily: getFontFamily() }]}>
+                {selectedDeck.notes[currentWord.english]}
               </Text>
             </View>
           )}
@@ -545,48 +755,50 @@ const ReadScreen: React.FC = () => {
       )}
 
       {/* Action Buttons */}
-      <View style={styles.actionsContainer}>
-        <TouchableOpacity 
-          style={styles.actionButton} 
-          onPress={handleShowHint}
-          disabled={showHint || showAnswer}
-        >
-          <MaterialIcons 
-            name="lightbulb-outline" 
-            size={20} 
-            color={showHint || showAnswer ? "#ccc" : "#666"} 
-          />
-          <Text style={[styles.actionButtonText, { 
-            fontFamily: getFontFamily(),
-            color: showHint || showAnswer ? "#ccc" : "#666"
-          }]}>
-            Hint
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={styles.actionButton} 
-          onPress={handleShowAnswer}
-          disabled={showAnswer}
-        >
-          <MaterialIcons 
-            name="visibility" 
-            size={20} 
-            color={showAnswer ? "#ccc" : "#666"} 
-          />
-          <Text style={[styles.actionButtonText, { 
-            fontFamily: getFontFamily(),
-            color: showAnswer ? "#ccc" : "#666"
-          }]}>
-            Show Answer
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity style={styles.actionButton} onPress={handleSkip}>
-          <MaterialIcons name="skip-next" size={20} color="#666" />
-          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
-        </TouchableOpacity>
-      </View>
+      {readMode === 'practice' && (
+        <View style={styles.actionsContainer}>
+          <TouchableOpacity 
+            style={styles.actionButton} 
+            onPress={handleShowHint}
+            disabled={!canTakeHint}
+          >
+            <MaterialIcons 
+              name="lightbulb-outline" 
+              size={20} 
+              color={canTakeHint ? "#666" : "#ccc"} 
+            />
+            <Text style={[styles.actionButtonText, { 
+              fontFamily: getFontFamily(),
+              color: canTakeHint ? "#666" : "#ccc"
+            }]}>
+              {canTakeHint ? `Hint (-${hints[hintsShown].cost})` : 'Hint'}
+            </Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={styles.actionButton} 
+            onPress={handleShowAnswer}
+            disabled={showAnswer}
+          >
+            <MaterialIcons 
+              name="visibility" 
+              size={20} 
+              color={showAnswer ? "#ccc" : "#666"} 
+            />
+            <Text style={[styles.actionButtonText, { 
+              fontFamily: getFontFamily(),
+              color: showAnswer ? "#ccc" : "#666"
+            }]}>
+              Show Answer
+            </Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity style={styles.actionButton} onPress={handleSkip}>
+            <MaterialIcons name="skip-next" size={20} color="#666" />
+            <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Difficulty Selection Modal */}
       <Modal
@@ -695,6 +907,32 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  modeSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 4,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  selectedMode: {
+    backgroundColor: '#4f81cb',
+  },
+  modeOptionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   difficultyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -745,22 +983,6 @@ const styles = StyleSheet.create({
     color: '#333',
     textAlign: 'center',
   },
-  hintContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#FFF8E1',
-    padding: 12,
-    borderRadius: 8,
-    marginBottom: 16,
-    borderWidth: 1,
-    borderColor: '#FFE082',
-  },
-  hintText: {
-    marginLeft: 8,
-    fontSize: 14,
-    color: '#F57C00',
-    flex: 1,
-  },
   answerContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -786,6 +1008,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  noteContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#90CAF9',
+  },
+  noteText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#1565C0',
+    flex: 1,
+  },
   feedbackContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -18,13 +18,31 @@ import { getFontFamily } from '../utils/fonts';
 import { hapticMedium, hapticLight } from '../utils/haptics';
 import { calculateStorageUsage, formatBytes, StorageBreakdown, clearNetworkCache } from '../utils/storage';
 import { resetUserStatistics } from '../utils/learningDatabase';
+import { resetLocalLearningData } from '../utils/learningStore';
+import { useSync } from '../context/SyncContext';
+import { useReminders } from '../context/ReminderContext';
+import { shiftReminderTime } from '../utils/reminders';
+import { SPEECH_RATES, speakGlyph } from '../utils/pronunciation';
+import { aurebeshAlphabet } from '../utils/aurebeshScript';
+
+/**
+ * Weekday chips for the reminder schedule, indexed 0 = Sunday ... 6 = Saturday
+ */
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * How far one tap on the reminder time buttons moves the time
+ */
+const REMINDER_TIME_STEP_MINUTES = 15;
 
 /**
  * SettingsScreen allows users to customize app preferences.
  * Includes account management, privacy settings, app info, and logout functionality.
  */
 const SettingsScreen: React.FC = () => {
-  const { user, signOut, deleteAccount } = useAuth();
+  const { user, isGuest, signOut, deleteAccount, exitGuestMode } = useAuth();
+  const { pendingCount, rejectedCount, isOnline } = useSync();
+  const { permissionGranted, requestPermission } = useReminders();
   const { settings, updateSetting, clearSettings, loadSettings } = useSettings();
   const [showPrivacyPolicy, setShowPrivacyPolicy] = useState(false);
   const [showToS, setShowToS] = useState(false);
@@ -79,6 +97,55 @@ const SettingsScreen: React.FC = () => {
     );
   };
 
+  /**
+   * Takes a guest to the sign-in screens. Their progress stays on the device and
+   * is moved into the account they sign up or sign in with.
+   */
+  const handleCreateAccount = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    exitGuestMode();
+  };
+
+  /**
+   * Moves the practice reminder time by one step
+   * @param direction - 1 for later, -1 for earlier
+   */
+  const handleReminderTimeChange = async (direction: 1 | -1) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    updateSetting('reminderTime', shiftReminderTime(settings.reminderTime, direction * REMINDER_TIME_STEP_MINUTES));
+  };
+
+  /**
+   * Sets the speech rate and says a glyph name at it, so the user hears the difference
+   */
+  const handleSpeechRateChange = async (rate: number) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    updateSetting('speechRate', rate);
+    speakGlyph(aurebeshAlphabet[0], rate);
+  };
+
+  /**
+   * Turns practice reminders on or off, asking for permission to notify when turned on
+   */
+  const handleRemindersToggle = async (value: boolean) => {
+    await updateSetting('notificationsEnabled', value);
+    if (value) {
+      await requestPermission();
+    }
+  };
+
+  /**
+   * Turns practice reminders on or off for one day of the week
+   * @param weekday - 0 = Sunday ... 6 = Saturday
+   */
+  const handleReminderWeekdayToggle = async (weekday: number) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    const weekdays = settings.reminderWeekdays.includes(weekday)
+      ? settings.reminderWeekdays.filter(day => day !== weekday)
+      : [...settings.reminderWeekdays, weekday].sort();
+    updateSetting('reminderWeekdays', weekdays);
+  };
+
   /**
    * Handles account deletion with confirmation dialog.
    */
@@ -112,11 +179,8 @@ const SettingsScreen: React.FC = () => {
                   'Failed to delete account. Please try again or contact support.',
                   [{ text: 'OK' }]
                 );
-              } else {
-                // Success - user should be automatically logged out
-                // No need to show an alert since they'll be taken to login screen
-                console.log('Account successfully deleted and user logged out');
               }
+              // On success the user is logged out and taken to the login screen, so no alert is needed
             } catch (error) {
               console.error('Error deleting account:', error);
               Alert.alert(
@@ -158,6 +222,8 @@ const SettingsScreen: React.FC = () => {
               const success = await resetUserStatistics();
               
               if (success) {
+                // Clear the device copy too, or the next sync would upload it again
+                await resetLocalLearningData(user?.id);
                 Alert.alert(
                   'Statistics Reset',
                   'All your learning statistics have been successfully reset.',
@@ -299,21 +365,235 @@ const SettingsScreen: React.FC = () => {
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>Account</Text>
         
-        {/* Logged in as */}
+        {isGuest ? (
+          <>
+            {/* Guest profile */}
+            <View style={styles.settingItem}>
+              <MaterialIcons name="person-outline" size={24} color="#4f81cb" style={styles.settingIcon} />
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Using as guest</Text>
+                <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>Progress is saved on this device only</Text>
+              </View>
+            </View>
+
+            {/* Create Account Button */}
+            <TouchableOpacity style={styles.settingItem} onPress={handleCreateAccount}>
+              <MaterialIcons name="person-add" size={24} color="#4f81cb" style={styles.settingIcon} />
+              <Text style={[styles.settingLabel, styles.createAccountText, { fontFamily: getFontFamily() }]}>Create Account or Sign In</Text>
+              <MaterialIcons name="chevron-right" size={20} color="#ccc" />
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            {/* Logged in as */}
+            <View style={styles.settingItem}>
+              <MaterialIcons name="account-circle" size={24} color="#4f81cb" style={styles.settingIcon} />
+              <View style={styles.settingContent}>
+                <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Logged in as</Text>
+                <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>{user?.email}</Text>
+              </View>
+            </View>
+
+            {/* Logout Button */}
+            <TouchableOpacity style={styles.settingItem} onPress={handleLogout}>
+              <MaterialIcons name="logout" size={24} color="#ff4444" style={styles.settingIcon} />
+              <Text style={[styles.settingLabel, styles.logoutText, { fontFamily: getFontFamily() }]}>Logout</Text>
+              <MaterialIcons name="chevron-right" size={20} color="#ccc" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {/* Learning Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>Learning</Text>
+
+        {/* Digraph Glyphs */}
         <View style={styles.settingItem}>
-          <MaterialIcons name="account-circle" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <MaterialIcons name="text-fields" size={24} color="#4f81cb" style={styles.settingIcon} />
           <View style={styles.settingContent}>
-            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Logged in as</Text>
-            <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>{user?.email}</Text>
+            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Digraph Glyphs</Text>
+            <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>
+              Write ch, sh, th and other pairs with their own glyph
+            </Text>
           </View>
+          <Switch
+            value={settings.digraphsEnabled}
+            onValueChange={(value) => updateSetting('digraphsEnabled', value)}
+            trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
+            thumbColor={settings.digraphsEnabled ? '#fff' : '#f4f3f4'}
+          />
         </View>
 
-        {/* Logout Button */}
-        <TouchableOpacity style={styles.settingItem} onPress={handleLogout}>
-          <MaterialIcons name="logout" size={24} color="#ff4444" style={styles.settingIcon} />
-          <Text style={[styles.settingLabel, styles.logoutText, { fontFamily: getFontFamily() }]}>Logout</Text>
-          <MaterialIcons name="chevron-right" size={20} color="#ccc" />
-        </TouchableOpacity>
+        {/* Random Word Order */}
+        <View style={styles.settingItem}>
+          <MaterialIcons name="shuffle" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <View style={styles.settingContent}>
+            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Random Word Order</Text>
+            <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>
+              Pick practice words at random instead of reviewing due and weak words first
+            </Text>
+          </View>
+          <Switch
+            value={settings.randomWordOrder}
+            onValueChange={(value) => updateSetting('randomWordOrder', value)}
+            trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
+            thumbColor={settings.randomWordOrder ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+
+        {/* Near Miss Credit */}
+        <View style={styles.settingItem}>
+          <MaterialIcons name="spellcheck" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <View style={styles.settingContent}>
+            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Near Miss Credit</Text>
+            <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>
+              Count answers with a single glyph wrong, missing or extra toward your score
+            </Text>
+          </View>
+          <Switch
+            value={settings.nearMissCredit}
+            onValueChange={(value) => updateSetting('nearMissCredit', value)}
+            trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
+            thumbColor={settings.nearMissCredit ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+
+        {/* Speech Speed */}
+        <View style={styles.settingItem}>
+          <MaterialIcons name="record-voice-over" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <Text style={[styles.settingLabel, styles.reminderLabel, { fontFamily: getFontFamily() }]}>Speech Speed</Text>
+          <View style={styles.speechRateRow}>
+            {SPEECH_RATES.map(({ label, rate }) => {
+              const isSelected = settings.speechRate === rate;
+              return (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.speechRateChip, isSelected && styles.weekdayChipSelected]}
+                  onPress={() => handleSpeechRateChange(rate)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text
+                    style={[
+                      styles.weekdayChipText,
+                      isSelected && styles.weekdayChipTextSelected,
+                      { fontFamily: getFontFamily() },
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Pronunciation Autoplay */}
+        <View style={styles.settingItem}>
+          <MaterialIcons name="volume-up" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <View style={styles.settingContent}>
+            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Autoplay Pronunciation</Text>
+            <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>
+              Say glyph names when you open a glyph or reveal a flashcard
+            </Text>
+          </View>
+          <Switch
+            value={settings.pronunciationAutoplay}
+            onValueChange={(value) => updateSetting('pronunciationAutoplay', value)}
+            trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
+            thumbColor={settings.pronunciationAutoplay ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+      </View>
+
+      {/* Practice Reminders Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontFamily: getFontFamily() }]}>Practice Reminders</Text>
+
+        {/* Daily Reminders (the Notifications permission) */}
+        <View style={styles.settingItem}>
+          <MaterialIcons name="notifications" size={24} color="#4f81cb" style={styles.settingIcon} />
+          <View style={styles.settingContent}>
+            <Text style={[styles.settingLabel, { fontFamily: getFontFamily() }]}>Daily Reminders</Text>
+            {permissionGranted === null && settings.notificationsEnabled ? (
+              <Text
+                style={[styles.settingValue, styles.settingLink, { fontFamily: getFontFamily() }]}
+                onPress={requestPermission}
+              >
+                Tap to allow notifications
+              </Text>
+            ) : (
+              <Text style={[styles.settingValue, { fontFamily: getFontFamily() }]}>
+                {permissionGranted === false && settings.notificationsEnabled
+                  ? 'Notifications are turned off for Aurebesh in your device settings'
+                  : 'Skipped on days you have already practised'}
+              </Text>
+            )}
+          </View>
+          <Switch
+            value={settings.notificationsEnabled}
+            onValueChange={handleRemindersToggle}
+            trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
+            thumbColor={settings.notificationsEnabled ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+
+        {settings.notificationsEnabled && (
+          <>
+            {/* Reminder Time */}
+            <View style={styles.settingItem}>
+              <MaterialIcons name="schedule" size={24} color="#4f81cb" style={styles.settingIcon} />
+              <Text style={[styles.settingLabel, styles.reminderLabel, { fontFamily: getFontFamily() }]}>Time</Text>
+              <TouchableOpacity
+                style={styles.reminderTimeButton}
+                onPress={() => handleReminderTimeChange(-1)}
+                accessibilityRole="button"
+                accessibilityLabel="Earlier reminder time"
+              >
+                <MaterialIcons name="remove" size={20} color="#4f81cb" />
+              </TouchableOpacity>
+              <Text style={[styles.reminderTimeText, { fontFamily: getFontFamily() }]}>{settings.reminderTime}</Text>
+              <TouchableOpacity
+                style={styles.reminderTimeButton}
+                onPress={() => handleReminderTimeChange(1)}
+                accessibilityRole="button"
+                accessibilityLabel="Later reminder time"
+              >
+                <MaterialIcons name="add" size={20} color="#4f81cb" />
+              </TouchableOpacity>
+            </View>
+
+            {/* Reminder Days */}
+            <View style={styles.settingItem}>
+              <MaterialIcons name="event" size={24} color="#4f81cb" style={styles.settingIcon} />
+              <View style={styles.weekdayRow}>
+                {WEEKDAY_LABELS.map((label, weekday) => {
+                  const isSelected = settings.reminderWeekdays.includes(weekday);
+                  return (
+                    <TouchableOpacity
+                      key={weekday}
+                      style={[styles.weekdayChip, isSelected && styles.weekdayChipSelected]}
+                      onPress={() => handleReminderWeekdayToggle(weekday)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text
+                        style={[
+                          styles.weekdayChipText,
+                          isSelected && styles.weekdayChipTextSelected,
+                          { fontFamily: getFontFamily() },
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </>
+        )}
       </View>
 
       {/* Privacy & Legal Section */}
@@ -380,26 +660,28 @@ const SettingsScreen: React.FC = () => {
         </View>
       </View>
 
-      {/* Danger Zone */}
-      <View style={[styles.section, styles.dangerSection]}>
-        <Text style={[styles.sectionTitle, styles.dangerTitle, { fontFamily: getFontFamily() }]}>Danger Zone</Text>
+      {/* Danger Zone (guests have no account to delete) */}
+      {!isGuest && (
+        <View style={[styles.section, styles.dangerSection]}>
+          <Text style={[styles.sectionTitle, styles.dangerTitle, { fontFamily: getFontFamily() }]}>Danger Zone</Text>
         
-        {/* Reset Statistics - HIDDEN FOR NOW */}
-        {/* 
-        <TouchableOpacity style={[styles.settingItem, styles.dangerItem]} onPress={handleResetStatistics}>
-          <MaterialIcons name="refresh" size={24} color="#ff4444" style={styles.settingIcon} />
-          <Text style={[styles.settingLabel, styles.dangerText, { fontFamily: getFontFamily() }]}>Reset Statistics</Text>
-          <MaterialIcons name="chevron-right" size={20} color="#ff4444" />
-        </TouchableOpacity>
-        */}
+          {/* Reset Statistics - HIDDEN FOR NOW */}
+          {/* 
+          <TouchableOpacity style={[styles.settingItem, styles.dangerItem]} onPress={handleResetStatistics}>
+            <MaterialIcons name="refresh" size={24} color="#ff4444" style={styles.settingIcon} />
+            <Text style={[styles.settingLabel, styles.dangerText, { fontFamily: getFontFamily() }]}>Reset Statistics</Text>
+            <MaterialIcons name="chevron-right" size={20} color="#ff4444" />
+          </TouchableOpacity>
+          */}
         
-        {/* Delete Account */}
-        <TouchableOpacity style={[styles.settingItem, styles.dangerItem]} onPress={handleDeleteAccount}>
-          <MaterialIcons name="delete-forever" size={24} color="#ff4444" style={styles.settingIcon} />
-          <Text style={[styles.settingLabel, styles.dangerText, { fontFamily: getFontFamily() }]}>Delete Account</Text>
-          <MaterialIcons name="chevron-right" size={20} color="#ff4444" />
-        </TouchableOpacity>
-      </View>
+          {/* Delete Account */}
+          <TouchableOpacity style={[styles.settingItem, styles.dangerItem]} onPress={handleDeleteAccount}>
+            <MaterialIcons name="delete-forever" size={24} color="#ff4444" style={styles.settingIcon} />
+            <Text style={[styles.settingLabel, styles.dangerText, { fontFamily: getFontFamily() }]}>Delete Account</Text>
+            <MaterialIcons name="chevron-right" size={20} color="#ff4444" />
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Privacy Policy Modal */}
       <Modal
@@ -573,13 +855,13 @@ const SettingsScreen: React.FC = () => {
                 <View style={styles.permissionText}>
                   <Text style={[styles.permissionLabel, { fontFamily: getFontFamily() }]}>Push Notifications</Text>
                   <Text style={[styles.permissionDescription, { fontFamily: getFontFamily() }]}>
-                    Receive notifications about learning reminders and app updates
+                    Receive daily practice reminders, scheduled on this device
                   </Text>
                 </View>
               </View>
               <Switch
                 value={settings.notificationsEnabled}
-                onValueChange={(value) => updateSetting('notificationsEnabled', value)}
+                onValueChange={handleRemindersToggle}
                 trackColor={{ false: '#e0e0e0', true: '#4f81cb' }}
                 thumbColor={settings.notificationsEnabled ? '#fff' : '#f4f3f4'}
               />
@@ -650,6 +932,12 @@ const SettingsScreen: React.FC = () => {
                   <Text style={[styles.permissionLabel, { fontFamily: getFontFamily() }]}>Data Sync</Text>
                   <Text style={[styles.permissionDescription, { fontFamily: getFontFamily() }]}>
                     Sync your learning progress across devices
+                    {settings.dataSyncEnabled && pendingCount > 0
+                      ? ` (${pendingCount} waiting${isOnline ? '' : ' for connection'})`
+                      : ''}
+                    {settings.dataSyncEnabled && rejectedCount > 0
+                      ? ` (${rejectedCount} not accepted by the server)`
+                      : ''}
                   </Text>
                 </View>
               </View>
@@ -855,10 +1143,75 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  settingLink: {
+    color: '#4f81cb',
+  },
   logoutText: {
     color: '#ff4444',
     flex: 1,
   },
+  reminderLabel: {
+    flex: 1,
+  },
+  reminderTimeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4f81cb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reminderTimeText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  weekdayRow: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekdayChip: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  speechRateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  speechRateChip: {
+    paddingHorizontal: 12,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayChipSelected: {
+    backgroundColor: '#4f81cb',
+    borderColor: '#4f81cb',
+  },
+  weekdayChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  weekdayChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  createAccountText: {
+    color: '#4f81cb',
+    flex: 1,
+  },
   orangeText: {
     color: '#ff9500',
     flex: 1,
@@ -0,0 +1,499 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Share,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
+import { AurebeshKeyboard } from '../components/AurebeshKeyboard';
+import {
+  AurebeshToken,
+  getCharacterInfo,
+  getGlyphToken,
+  tokenizeAurebesh,
+  tokensToEnglish,
+  tokensToGlyphs,
+  tokensToUnicode,
+} from '../utils/aurebeshTranslator';
+import { hapticLight, hapticSuccess } from '../utils/haptics';
+import { useSettings } from '../context/SettingsContext';
+
+type TranslateDirection = 'toAurebesh' | 'toEnglish';
+
+/**
+ * TranslateScreen component
+ * Free-form two-way translator: type English to see it in Aurebesh, or compose Aurebesh
+ * on the custom keyboard to see the English, with a glyph-by-glyph breakdown
+ */
+const TranslateScreen: React.FC = () => {
+  const { settings } = useSettings();
+  const [direction, setDirection] = useState<TranslateDirection>('toAurebesh');
+  const [englishText, setEnglishText] = useState('');
+  const [composedTokens, setComposedTokens] = useState<AurebeshToken[]>([]);
+
+  // The active pane's text as tokens; both panes share the breakdown and actions below
+  const tokens =
+    direction === 'toAurebesh'
+      ? tokenizeAurebesh(englishText, { useDigraphs: settings.digraphsEnabled })
+      : composedTokens;
+  const glyphTokens = tokens.filter(token => token.type !== 'space');
+  const hasText = glyphTokens.length > 0;
+
+  /**
+   * Switch between the English and Aurebesh input panes
+   */
+  const handleDirectionChange = async (newDirection: TranslateDirection) => {
+    if (newDirection === direction) return;
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setDirection(newDirection);
+  };
+
+  /**
+   * Handle character press from Aurebesh keyboard
+   */
+  const handleCharacterPress = (character: string) => {
+    const token = getGlyphToken(character);
+    if (token) {
+      setComposedTokens(prev => [...prev, token]);
+    }
+  };
+
+  /**
+   * Handle backspace from Aurebesh keyboard
+   */
+  const handleBackspace = () => {
+    setComposedTokens(prev => prev.slice(0, -1));
+  };
+
+  /**
+   * Handle space from Aurebesh keyboard
+   */
+  const handleSpace = () => {
+    setComposedTokens(prev => [...prev, { type: 'space', english: ' ', glyph: ' ' }]);
+  };
+
+  /**
+   * Clear the active pane
+   */
+  const handleClear = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (direction === 'toAurebesh') {
+      setEnglishText('');
+    } else {
+      setComposedTokens([]);
+    }
+  };
+
+  /**
+   * Copy text to the clipboard
+   * @param text - The text to copy
+   * @param label - What was copied, shown in the confirmation
+   */
+  const copyText = async (text: string, label: string) => {
+    try {
+      await Clipboard.setStringAsync(text);
+      await hapticSuccess(settings.hapticFeedbackEnabled);
+      Alert.alert('Copied', `${label} text copied to the clipboard.`);
+    } catch (error) {
+      console.error('Error copying text:', error);
+      Alert.alert('Error', 'Failed to copy text. Please try again.');
+    }
+  };
+
+  /**
+   * Copy the Aurebesh as Unicode so it keeps its glyphs outside the app
+   */
+  const handleCopyAurebesh = () => {
+    if (!hasText) return;
+    copyText(tokensToUnicode(tokens), 'Aurebesh');
+  };
+
+  /**
+   * Copy the English text
+   */
+  const handleCopyEnglish = () => {
+    if (!hasText) return;
+    copyText(tokensToEnglish(tokens), 'English');
+  };
+
+  /**
+   * Share the English text alongside its Unicode Aurebesh
+   */
+  const handleShare = async () => {
+    if (!hasText) return;
+    await hapticLight(settings.hapticFeedbackEnabled);
+
+    try {
+      await Share.share({
+        message: `${tokensToEnglish(tokens)}\n${tokensToUnicode(tokens)}`,
+      });
+    } catch (error) {
+      console.error('Error sharing translation:', error);
+      Alert.alert('Error', 'Failed to share translation. Please try again.');
+    }
+  };
+
+  /**
+   * Renders one action button, greyed out while there is nothing to act on
+   */
+  const renderActionButton = (
+    icon: keyof typeof MaterialIcons.glyphMap,
+    label: string,
+    onPress: () => void,
+    disabled: boolean
+  ) => (
+    <TouchableOpacity style={styles.actionButton} onPress={onPress} disabled={disabled}>
+      <MaterialIcons name={icon} size={20} color={disabled ? '#ccc' : '#666'} />
+      <Text style={[styles.actionButtonText, {
+        fontFamily: getFontFamily(),
+        color: disabled ? '#ccc' : '#666'
+      }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled"
+      automaticallyAdjustKeyboardInsets={true}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <MaterialIcons name="translate" size={48} color="#4f81cb" />
+        <Text style={[styles.title, { fontFamily: getFontFamily() }]}>
+          Translate
+        </Text>
+        <Text style={[styles.subtitle, { fontFamily: getFontFamily() }]}>
+          Convert any text between English and Aurebesh as you type
+        </Text>
+      </View>
+
+      {/* Direction Selector */}
+      <View style={styles.directionContainer}>
+        {([
+          { value: 'toAurebesh', label: 'English → Aurebesh' },
+          { value: 'toEnglish', label: 'Aurebesh → English' },
+        ] as const).map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.directionOption, direction === option.value && styles.selectedDirection]}
+            onPress={() => handleDirectionChange(option.value)}
+          >
+            <Text style={[styles.directionText, {
+              fontFamily: getFontFamily(),
+              color: direction === option.value ? '#fff' : '#4f81cb'
+            }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Translation Card */}
+      <View style={styles.translationCard}>
+        {direction === 'toAurebesh' ? (
+          <>
+            <Text style={[styles.paneLabel, { fontFamily: getFontFamily() }]}>
+              English
+            </Text>
+            <TextInput
+              style={[styles.input, { fontFamily: getFontFamily() }]}
+              placeholder="Type English text..."
+              value={englishText}
+              onChangeText={setEnglishText}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+
+            <Text style={[styles.paneLabel, { fontFamily: getFontFamily() }]}>
+              Aurebesh
+            </Text>
+            <View style={styles.outputDisplay}>
+              {hasText ? (
+                <Text style={[styles.aurebeshOutputText, { fontFamily: getAurebeshFontFamily() }]}>
+                  {tokensToGlyphs(tokens)}
+                </Text>
+              ) : (
+                <Text style={[styles.placeholderText, { fontFamily: getFontFamily() }]}>
+                  The Aurebesh appears here...
+                </Text>
+              )}
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={[styles.paneLabel, { fontFamily: getFontFamily() }]}>
+              Aurebesh
+            </Text>
+            <View style={[styles.outputDisplay, styles.composeDisplay]}>
+              {composedTokens.length > 0 ? (
+                <Text style={[styles.aurebeshOutputText, { fontFamily: getAurebeshFontFamily() }]}>
+                  {tokensToGlyphs(composedTokens)}
+                </Text>
+              ) : (
+                <Text style={[styles.placeholderText, { fontFamily: getFontFamily() }]}>
+                  Type using the keyboard below...
+                </Text>
+              )}
+            </View>
+
+            <Text style={[styles.paneLabel, { fontFamily: getFontFamily() }]}>
+              English
+            </Text>
+            <View style={styles.outputDisplay}>
+              {hasText ? (
+                <Text style={[styles.englishOutputText, { fontFamily: getFontFamily() }]}>
+                  {tokensToEnglish(composedTokens)}
+                </Text>
+              ) : (
+                <Text style={[styles.placeholderText, { fontFamily: getFontFamily() }]}>
+                  The English appears here...
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </View>
+
+      {/* Action Buttons */}
+      <View style={styles.actionsContainer}>
+        {renderActionButton('content-copy', 'Copy Aurebesh', handleCopyAurebesh, !hasText)}
+        {renderActionButton('content-copy', 'Copy English', handleCopyEnglish, !hasText)}
+        {renderActionButton('share', 'Share', handleShare, !hasText)}
+        {renderActionButton('backspace', 'Clear', handleClear, tokens.length === 0 && !englishText)}
+      </View>
+
+      {/* Custom Aurebesh Keyboard */}
+      {direction === 'toEnglish' && (
+        <View style={styles.keyboardContainer}>
+          <AurebeshKeyboard
+            onCharacterPress={handleCharacterPress}
+            onBackspace={handleBackspace}
+            onSpace={handleSpace}
+            onClear={handleClear}
+          />
+        </View>
+      )}
+
+      {/* Glyph Breakdown */}
+      {hasText && (
+        <View style={styles.breakdownCard}>
+          <Text style={[styles.breakdownTitle, { fontFamily: getFontFamily() }]}>
+            Glyph Breakdown
+          </Text>
+          {glyphTokens.map((token, index) => (
+            <View key={`${token.english}-${index}`} style={styles.breakdownRow}>
+              <Text style={[styles.breakdownGlyph, { fontFamily: getAurebeshFontFamily() }]}>
+                {token.glyph}
+              </Text>
+              <Text style={[styles.breakdownEnglish, { fontFamily: getFontFamily() }]}>
+                {token.english.toUpperCase()}
+              </Text>
+              <Text style={[styles.breakdownName, { fontFamily: getFontFamily() }]}>
+                {getCharacterInfo(token.english)?.name ?? ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  contentContainer: {
+    paddingBottom: 100, // Space for tab bar
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 75,
+    paddingBottom: 30,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    marginTop: 8,
+  },
+  directionContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  directionOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  selectedDirection: {
+    backgroundColor: '#4f81cb',
+  },
+  directionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  translationCard: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  paneLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    fontSize: 16,
+    color: '#333',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  outputDisplay: {
+    backgroundColor: '#f8f9fa',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 16,
+    minHeight: 60,
+    justifyContent: 'center',
+  },
+  composeDisplay: {
+    borderColor: '#4f81cb',
+    marginBottom: 20,
+  },
+  aurebeshOutputText: {
+    fontSize: 22,
+    color: '#4f81cb',
+    lineHeight: 32,
+  },
+  englishOutputText: {
+    fontSize: 18,
+    color: '#333',
+    lineHeight: 26,
+  },
+  placeholderText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  actionsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    paddingVertical: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    minWidth: 70,
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  keyboardContainer: {
+    marginTop: 20,
+  },
+  breakdownCard: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  breakdownTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  breakdownGlyph: {
+    fontSize: 24,
+    color: '#4f81cb',
+    width: 48,
+    textAlign: 'center',
+  },
+  breakdownEnglish: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    width: 48,
+    textAlign: 'center',
+  },
+  breakdownName: {
+    fontSize: 16,
+    color: '#666',
+    flex: 1,
+  },
+});
+
+export default TranslateScreen;
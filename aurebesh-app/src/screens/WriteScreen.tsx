@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
   View, 
   Text, 
@@ -7,24 +7,67 @@ import {
   ScrollView, 
   Alert,
   Modal,
-  Animated
+  Animated,
+  AppState
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
 import { getFontFamily, getAurebeshFontFamily } from '../utils/fonts';
-import { getRandomWord, WordPair } from '../utils/dictionary';
+import { WordPair } from '../utils/dictionary';
+import { WordReview, loadWordReviews, recordWordAttempt, selectNextWord, WordAttemptOutcome } from '../utils/wordReviews';
 import { AurebeshKeyboard } from '../components/AurebeshKeyboard';
+import { PhraseFeedback } from '../components/PhraseFeedback';
+import { LetterFeedback } from '../components/LetterFeedback';
+import { PromptType, PromptTypeSelector } from '../components/PromptTypeSelector';
+import { DeckPicker } from '../components/DeckPicker';
+import { HandwritingChallenge } from '../components/HandwritingChallenge';
+import { HintList } from '../components/HintList';
+import {
+  AurebeshToken,
+  getGlyphToken,
+  tokenizeAurebesh,
+  tokensMatch,
+  tokensToEnglish,
+  tokensToGlyphs,
+  translateToAurebesh,
+} from '../utils/aurebeshTranslator';
 import { hapticLight, hapticMedium, hapticSuccess } from '../utils/haptics';
+import { createSessionId, recordLocalAttempt, recordLocalSession, recordLocalStatistics } from '../utils/learningStore';
+import { SessionSummary } from '../utils/learningDatabase';
+import { recordGlyphConfusions } from '../utils/confusionMatrix';
+import { getRandomPhrase, gradePhraseAnswer, PhraseGrade, phraseToWordPair } from '../utils/phrases';
+import { gradeLetters, isNearMiss, LetterGrade } from '../utils/letterGrade';
+import { buildHintLadder, getAnswerPoints, getHintCost } from '../utils/hints';
+import { Deck } from '../utils/decks';
 import { useSettings } from '../context/SettingsContext';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Ways to practise on the Write screen: typing words on the Aurebesh keyboard, or
+ * drawing single glyphs by hand
+ */
+type WriteMode = 'keyboard' | 'draw';
+
+/**
+ * Display name and icon for each Write mode
+ */
+const WRITE_MODES: { mode: WriteMode; label: string; icon: keyof typeof MaterialIcons.glyphMap }[] = [
+  { mode: 'keyboard', label: 'Keyboard', icon: 'keyboard' },
+  { mode: 'draw', label: 'Draw', icon: 'gesture' },
+];
 
 /**
  * WriteScreen component
- * Shows English words and users must type the Aurebesh translation
- * Features difficulty selection, scoring, and custom Aurebesh keyboard
+ * Shows English words or phrases and users must type the Aurebesh translation
+ * Features difficulty selection, scoring, progressive hints that cost points, word-by-word
+ * phrase grading, glyph-by-glyph feedback on wrong words, custom Aurebesh keyboard, and a
+ * handwriting mode for drawing glyphs. Each visit to the screen is saved as a writing session.
  */
 const WriteScreen: React.FC = () => {
   const { settings } = useSettings();
+  const { user } = useAuth();
   const [currentWord, setCurrentWord] = useState<WordPair | null>(null);
-  const [userAnswer, setUserAnswer] = useState('');
+  const [answerTokens, setAnswerTokens] = useState<AurebeshToken[]>([]);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('easy');
   const [showDifficultyModal, setShowDifficultyModal] = useState(false);
@@ -32,18 +75,112 @@ const WriteScreen: React.FC = () => {
   const [score, setScore] = useState(0);
   const [streak, setStreak] = useState(0);
   const [questionsAnswered, setQuestionsAnswered] = useState(0);
+  const [maxStreak, setMaxStreak] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
+  // Hints taken for the current word, counted along its hint ladder
+  const [hintsShown, setHintsShown] = useState(0);
+  const [writeMode, setWriteMode] = useState<WriteMode>('keyboard');
+  const [promptType, setPromptType] = useState<PromptType>('words');
+  // Deck words are drawn from, or null for the whole dictionary
+  const [selectedDeck, setSelectedDeck] = useState<Deck | null>(null);
+  // Word-by-word grade of the last phrase answer
+  const [phraseGrade, setPhraseGrade] = useState<PhraseGrade | null>(null);
+  // Glyph-by-glyph grade of the last wrong single-word answer
+  const [letterGrade, setLetterGrade] = useState<LetterGrade | null>(null);
+  // Whether that answer was a near miss given credit
+  const [nearMissCredited, setNearMissCredited] = useState(false);
+
+  // Review history used to pick the next word; a ref so delayed word loads see the latest
+  const wordReviewsRef = useRef<Record<string, WordReview>>({});
+  // When the current word appeared, for response times in the attempt log
+  const wordShownAtRef = useRef(Date.now());
+
+  // Session tracking for the learning store
+  const [sessionId, setSessionId] = useState(createSessionId);
+  const [sessionStartTime, setSessionStartTime] = useState<Date>(new Date());
+  // Points earned this session, after hint costs, and the hints taken
+  const [sessionPoints, setSessionPoints] = useState(0);
+  const [sessionHintsUsed, setSessionHintsUsed] = useState(0);
+
+  // Latest session totals, for saving when the user leaves the screen
+  const sessionData: SessionSummary = {
+    id: sessionId,
+    difficulty,
+    questionsAttempted: questionsAnswered,
+    questionsCorrect: score,
+    maxStreak,
+    score: sessionPoints,
+    startTime: sessionStartTime,
+    mode: 'write',
+    hintsUsed: sessionHintsUsed,
+  };
+  const sessionDataRef = useRef(sessionData);
+  sessionDataRef.current = sessionData;
 
   // Animation for modal content
   const modalSlideAnim = useRef(new Animated.Value(300)).current;
   const backdropOpacityAnim = useRef(new Animated.Value(0)).current;
 
   /**
-   * Load new word when difficulty changes
+   * Load new word when difficulty, the prompt type or the deck changes
    */
   useEffect(() => {
     loadNewWord();
-  }, [difficulty]);
+  }, [difficulty, promptType, selectedDeck]);
+
+  /**
+   * Load the user's word review history, then pick a word from it
+   */
+  useEffect(() => {
+    loadWordReviews('write', user?.id).then(reviews => {
+      wordReviewsRef.current = reviews;
+      loadNewWord();
+    });
+  }, [user?.id]);
+
+  /**
+   * Save the session so far, if anything was answered
+   */
+  const saveSession = () => {
+    const finished = sessionDataRef.current;
+    if (finished.questionsAttempted > 0) {
+      recordLocalSession(user?.id, finished);
+    }
+  };
+
+  /**
+   * Start a new session with fresh totals
+   */
+  const startNewSession = () => {
+    setSessionId(createSessionId());
+    setSessionStartTime(new Date());
+    setScore(0);
+    setStreak(0);
+    setMaxStreak(0);
+    setQuestionsAnswered(0);
+    setSessionPoints(0);
+    setSessionHintsUsed(0);
+  };
+
+  /**
+   * Start a session when the tab is opened and save it when the user leaves. Going to the
+   * background, where the app may be closed, also saves the session and starts a new one.
+   */
+  useFocusEffect(
+    useCallback(() => {
+      startNewSession();
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'background' && sessionDataRef.current.questionsAttempted > 0) {
+          saveSession();
+          startNewSession();
+        }
+      });
+      return () => {
+        subscription.remove();
+        saveSession();
+      };
+    }, [user?.id])
+  );
 
   /**
    * Animate modal content when modal visibility changes
@@ -85,22 +222,38 @@ const WriteScreen: React.FC = () => {
   }, [showDifficultyModal, modalSlideAnim, backdropOpacityAnim]);
 
   /**
-   * Load a new random word based on current difficulty
+   * Load the next word for the current difficulty: due and weak words first,
+   * or a random word when the user prefers random order. Phrases are always random.
    */
   const loadNewWord = () => {
-    const word = getRandomWord(difficulty);
+    const word = promptType === 'phrases'
+      ? phraseToWordPair(getRandomPhrase(difficulty, currentWord?.english))
+      : selectNextWord(difficulty, wordReviewsRef.current, {
+          random: settings.randomWordOrder,
+          excludeEnglish: currentWord?.english,
+          words: selectedDeck?.words,
+        });
     setCurrentWord(word);
-    setUserAnswer('');
+    setPhraseGrade(null);
+    setLetterGrade(null);
+    setNearMissCredited(false);
+    wordShownAtRef.current = Date.now();
+    setAnswerTokens([]);
     setIsCorrect(null);
     setShowAnswer(false);
+    setHintsShown(0);
   };
 
   /**
-   * Handle character press from Aurebesh keyboard
+   * Handle character press from Aurebesh keyboard.
+   * Each key press adds one glyph token, so a digraph key and its two letters stay distinct.
    */
   const handleCharacterPress = (character: string) => {
     if (showAnswer) return; // Don't allow input after showing answer
-    setUserAnswer(prev => prev + character.toLowerCase());
+    const token = getGlyphToken(character);
+    if (token) {
+      setAnswerTokens(prev => [...prev, token]);
+    }
   };
 
   /**
@@ -108,7 +261,7 @@ const WriteScreen: React.FC = () => {
    */
   const handleBackspace = () => {
     if (showAnswer) return;
-    setUserAnswer(prev => prev.slice(0, -1));
+    setAnswerTokens(prev => prev.slice(0, -1));
   };
 
   /**
@@ -116,7 +269,7 @@ const WriteScreen: React.FC = () => {
    */
   const handleSpace = () => {
     if (showAnswer) return;
-    setUserAnswer(prev => prev + ' ');
+    setAnswerTokens(prev => [...prev, { type: 'space', english: ' ', glyph: ' ' }]);
   };
 
   /**
@@ -124,32 +277,98 @@ const WriteScreen: React.FC = () => {
    */
   const handleClear = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
-    setUserAnswer('');
+    setAnswerTokens([]);
   };
 
+  /**
+   * Add answered questions to the learning statistics
+   */
+  const recordStatistics = (attempted: number, correct: number, currentStreak: number) => {
+    recordLocalStatistics(user?.id, {
+      questions_attempted: attempted,
+      questions_correct: correct,
+      current_streak: currentStreak,
+      difficulty,
+    });
+  };
+
+  /**
+   * Record how the attempt on the current word ended: reschedules the word and
+   * adds the answer to the attempt log
+   */
+  const recordAttempt = (outcome: WordAttemptOutcome, givenAnswer: string) => {
+    if (!currentWord) return;
+    // Review scheduling covers dictionary words only
+    if (promptType === 'words') {
+      recordWordAttempt('write', currentWord, outcome, user?.id).then(reviews => {
+        wordReviewsRef.current = reviews;
+      });
+    }
+    recordLocalAttempt(user?.id, {
+      session_id: sessionId,
+      mode: 'write',
+      prompt: currentWord.english,
+      expected_answer: currentWord.english,
+      given_answer: givenAnswer,
+      is_correct: outcome === 'correct' || outcome === 'correctWithHint',
+      hint_used: hintsShown > 0,
+      answer_revealed: outcome === 'revealed',
+      response_time_ms: Date.now() - wordShownAtRef.current,
+    }, sessionDataRef.current);
+  };
+
+  // Hints for the current word, from its length up to the full answer
+  const hints = currentWord
+    ? buildHintLadder(currentWord, 'aurebesh', { useDigraphs: settings.digraphsEnabled })
+    : [];
+  const canTakeHint = hintsShown < hints.length && !showAnswer && isCorrect === null;
+
   /**
    * Check if the user's answer is correct
    */
   const checkAnswer = async () => {
-    if (!currentWord || !userAnswer.trim()) {
+    if (!currentWord || !answerTokens.some(token => token.type !== 'space')) {
       await hapticLight(settings.hapticFeedbackEnabled);
       Alert.alert('Enter an Answer', 'Please type the Aurebesh translation before submitting.');
       return;
     }
 
-    const isAnswerCorrect = userAnswer.trim().toLowerCase() === currentWord.english.toLowerCase();
+    // With digraphs enabled, spelling "th" as Trill + Herf is wrong: signage would use Thesh
+    const expectedTokens = tokenizeAurebesh(currentWord.english, {
+      useDigraphs: settings.digraphsEnabled,
+    });
+    // Phrases are graded word by word; each word counts as a question, for partial credit
+    const grade = promptType === 'phrases' ? gradePhraseAnswer(expectedTokens, answerTokens) : null;
+    const isAnswerCorrect = grade ? grade.isCorrect : tokensMatch(expectedTokens, answerTokens);
+    // Wrong single words are diffed glyph by glyph, so a typo shows exactly where it slipped
+    const wordGrade = grade || isAnswerCorrect ? null : gradeLetters(expectedTokens, answerTokens);
+    const isNearMissCredited = wordGrade !== null && settings.nearMissCredit && isNearMiss(wordGrade);
+    setPhraseGrade(grade);
+    setLetterGrade(wordGrade);
+    setNearMissCredited(isNearMissCredited);
     setIsCorrect(isAnswerCorrect);
+    recordAttempt(
+      isAnswerCorrect ? (hintsShown > 0 ? 'correctWithHint' : 'correct') : 'incorrect',
+      tokensToEnglish(answerTokens)
+    );
+    if (!isAnswerCorrect) {
+      recordGlyphConfusions(user?.id, expectedTokens, answerTokens);
+    }
 
-    const newQuestionsAnswered = questionsAnswered + 1;
+    const newQuestionsAnswered = questionsAnswered + (grade ? grade.totalWords : 1);
+    const hintCost = getHintCost(hints, hintsShown);
 
     if (isAnswerCorrect) {
       await hapticSuccess(settings.hapticFeedbackEnabled);
-      const newScore = score + 1;
+      const newScore = score + (grade ? grade.correctWords : 1);
       const newStreak = streak + 1;
       
       setScore(newScore);
+      setSessionPoints(sessionPoints + getAnswerPoints(grade ? grade.correctWords : 1, hintCost));
       setStreak(newStreak);
+      setMaxStreak(Math.max(maxStreak, newStreak));
       setQuestionsAnswered(newQuestionsAnswered);
+      recordStatistics(grade ? grade.totalWords : 1, grade ? grade.correctWords : 1, newStreak);
       
       // Auto-advance after correct answer
       setTimeout(() => {
@@ -159,38 +378,93 @@ const WriteScreen: React.FC = () => {
       await hapticMedium(settings.hapticFeedbackEnabled);
       setStreak(0);
       setQuestionsAnswered(newQuestionsAnswered);
+      if (grade && grade.correctWords > 0) {
+        setScore(score + grade.correctWords); // Partial credit for the words that were right
+        setSessionPoints(sessionPoints + getAnswerPoints(grade.correctWords, hintCost));
+      } else if (isNearMissCredited) {
+        setScore(score + 1); // Credit for a word one glyph off, if near misses count
+        setSessionPoints(sessionPoints + getAnswerPoints(1, hintCost));
+      }
+      recordStatistics(grade ? grade.totalWords : 1, grade ? grade.correctWords : isNearMissCredited ? 1 : 0, 0);
     }
   };
 
+  /**
+   * Show the next hint for the current word
+   */
+  const handleShowHint = async () => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    if (hintsShown >= hints.length) return;
+    setHintsShown(hintsShown + 1);
+    setSessionHintsUsed(sessionHintsUsed + 1);
+  };
+
   /**
    * Show the correct answer
    */
   const handleShowAnswer = async () => {
     await hapticMedium(settings.hapticFeedbackEnabled);
+    if (isCorrect === null) {
+      recordAttempt('revealed', tokensToEnglish(answerTokens));
+      // A revealed word counts as attempted, like a skipped one
+      const revealedQuestions = currentWord ? getPromptWordCount(currentWord.english) : 1;
+      setQuestionsAnswered(questionsAnswered + revealedQuestions);
+      recordStatistics(revealedQuestions, 0, 0);
+    }
     setShowAnswer(true);
     setStreak(0);
   };
 
   /**
-   * Skip to next word
+   * Skip to next word. A word already answered or revealed was counted then.
    */
   const handleSkip = async () => {
     await hapticLight(settings.hapticFeedbackEnabled);
     setStreak(0);
-    const newQuestionsAnswered = questionsAnswered + 1;
-    setQuestionsAnswered(newQuestionsAnswered);
+    if (isCorrect === null && !showAnswer) {
+      const skippedQuestions = currentWord ? getPromptWordCount(currentWord.english) : 1;
+      setQuestionsAnswered(questionsAnswered + skippedQuestions);
+      recordStatistics(skippedQuestions, 0, 0);
+    }
     loadNewWord();
   };
 
+  /**
+   * Number of questions a prompt counts as: one per word for phrases
+   */
+  const getPromptWordCount = (english: string): number =>
+    promptType === 'phrases' ? english.split(' ').filter(Boolean).length : 1;
+
   /**
    * Change difficulty level
    */
   const handleDifficultyChange = async (newDifficulty: 'easy' | 'medium' | 'hard') => {
     await hapticLight(settings.hapticFeedbackEnabled);
+    if (newDifficulty !== difficulty) {
+      // Sessions are saved per difficulty
+      saveSession();
+      startNewSession();
+    }
     setDifficulty(newDifficulty);
     setShowDifficultyModal(false);
   };
 
+  /**
+   * Switch between typing on the keyboard and drawing glyphs
+   */
+  const handleModeChange = async (newMode: WriteMode) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setWriteMode(newMode);
+  };
+
+  /**
+   * Switch between single words and phrases
+   */
+  const handlePromptTypeChange = async (newPromptType: PromptType) => {
+    await hapticLight(settings.hapticFeedbackEnabled);
+    setPromptType(newPromptType);
+  };
+
   /**
    * Get the color for answer feedback
    */
@@ -235,23 +509,59 @@ const WriteScreen: React.FC = () => {
       </View>
       */}
 
+      {/* Mode Selector */}
+      <View style={styles.modeSelector}>
+        {WRITE_MODES.map(({ mode, label, icon }) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.modeOption, writeMode === mode && styles.selectedMode]}
+            onPress={() => handleModeChange(mode)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: writeMode === mode }}
+          >
+            <MaterialIcons name={icon} size={18} color={writeMode === mode ? '#fff' : '#4f81cb'} />
+            <Text style={[styles.modeOptionText, {
+              fontFamily: getFontFamily(),
+              color: writeMode === mode ? '#fff' : '#4f81cb'
+            }]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Handwriting */}
+      {writeMode === 'draw' && <HandwritingChallenge />}
+
       {/* Difficulty Selector */}
-      <TouchableOpacity 
-        style={styles.difficultyButton} 
-        onPress={() => setShowDifficultyModal(true)}
-      >
-        <MaterialIcons name="tune" size={20} color="#4f81cb" />
-        <Text style={[styles.difficultyText, { fontFamily: getFontFamily() }]}>
-          Difficulty: {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
-        </Text>
-        <MaterialIcons name="expand-more" size={20} color="#4f81cb" />
-      </TouchableOpacity>
+      {writeMode === 'keyboard' && (
+        <TouchableOpacity 
+          style={styles.difficultyButton} 
+          onPress={() => setShowDifficultyModal(true)}
+        >
+          <MaterialIcons name="tune" size={20} color="#4f81cb" />
+          <Text style={[styles.difficultyText, { fontFamily: getFontFamily() }]}>
+            Difficulty: {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+          </Text>
+          <MaterialIcons name="expand-more" size={20} color="#4f81cb" />
+        </TouchableOpacity>
+      )}
+
+      {/* Deck Selector (phrases use their own corpus) */}
+      {writeMode === 'keyboard' && promptType === 'words' && (
+        <DeckPicker selectedDeck={selectedDeck} onSelect={setSelectedDeck} />
+      )}
+
+      {/* Words or Phrases */}
+      {writeMode === 'keyboard' && (
+        <PromptTypeSelector value={promptType} onChange={handlePromptTypeChange} />
+      )}
 
       {/* Question Card */}
-      {currentWord && (
+      {writeMode === 'keyboard' && currentWord && (
         <View style={styles.questionCard}>
           <Text style={[styles.instructionText, { fontFamily: getFontFamily() }]}>
-            Write this word in Aurebesh:
+            {promptType === 'phrases' ? 'Write this phrase in Aurebesh:' : 'Write this word in Aurebesh:'}
           </Text>
           
           {/* English Word Display */}
@@ -261,6 +571,9 @@ const WriteScreen: React.FC = () => {
             </Text>
           </View>
 
+          {/* Hint Display */}
+          <HintList hints={hints.slice(0, hintsShown)} />
+
           {/* Answer Reveal */}
           {showAnswer && (
             <View style={styles.answerContainer}>
@@ -269,7 +582,7 @@ const WriteScreen: React.FC = () => {
                 Aurebesh:
               </Text>
               <Text style={[styles.answerText, { fontFamily: getAurebeshFontFamily() }]}>
-                {currentWord.english}
+                {translateToAurebesh(currentWord.english, { useDigraphs: settings.digraphsEnabled })}
               </Text>
             </View>
           )}
@@ -280,9 +593,9 @@ const WriteScreen: React.FC = () => {
               Your Aurebesh:
             </Text>
             <View style={[styles.inputDisplay, { borderColor: getAnswerColor() }]}>
-              {userAnswer ? (
+              {answerTokens.length > 0 ? (
                 <Text style={[styles.userAnswerText, { fontFamily: getAurebeshFontFamily() }]}>
-                  {userAnswer}
+                  {tokensToGlyphs(answerTokens)}
                 </Text>
               ) : (
                 <Text style={[styles.placeholderText, { fontFamily: getFontFamily() }]}>
@@ -293,7 +606,9 @@ const WriteScreen: React.FC = () => {
           </View>
 
           {/* Feedback */}
-          {isCorrect !== null && (
+          {phraseGrade && <PhraseFeedback grade={phraseGrade} />}
+          {letterGrade && <LetterFeedback grade={letterGrade} nearMiss={nearMissCredited} />}
+          {isCorrect !== null && !phraseGrade && !letterGrade && (
             <View style={[styles.feedbackContainer, { 
               backgroundColor: isCorrect ? '#E8F5E8' : '#FFEBEE' 
             }]}>
@@ -306,7 +621,19 @@ const WriteScreen: React.FC = () => {
                 fontFamily: getFontFamily(),
                 color: isCorrect ? '#4CAF50' : '#f44336'
               }]}>
-                {isCorrect ? 'Correct! Well done!' : `Incorrect. Try again or see the answer above.`}
+                {isCorrect
+                  ? `Correct! Well done! +${getAnswerPoints(1, getHintCost(hints, hintsShown))} points`
+                  : `Incorrect. Try again or see the answer above.`}
+              </Text>
+            </View>
+          )}
+
+          {/* Deck notes for the word, once it's been answered */}
+          {(isCorrect === true || showAnswer) && selectedDeck?.notes?.[currentWord.english] && (
+            <View style={styles.noteContainer}>
+              <MaterialIcons name="sticky-note-2" size={16} color="#4f81cb" />
+              <Text style={[styles.noteText, { fontFamily: getFontFamily() }]}>
+                {selectedDeck.notes[currentWord.english]}
               </Text>
             </View>
           )}
@@ -350,50 +677,72 @@ const WriteScreen: React.FC = () => {
       )}
 
       {/* Action Buttons */}
-      <View style={styles.actionsContainer}>
-        <TouchableOpacity 
-          style={styles.actionButton} 
-          onPress={handleClear}
-        >
-          <MaterialIcons name="backspace" size={20} color="#666" />
-          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>
-            Clear
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={styles.actionButton} 
-          onPress={handleShowAnswer}
-          disabled={showAnswer}
-        >
-          <MaterialIcons 
-            name="visibility" 
-            size={20} 
-            color={showAnswer ? "#ccc" : "#666"} 
-          />
-          <Text style={[styles.actionButtonText, { 
-            fontFamily: getFontFamily(),
-            color: showAnswer ? "#ccc" : "#666"
-          }]}>
-            Show Answer
-          </Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity style={styles.actionButton} onPress={handleSkip}>
-          <MaterialIcons name="skip-next" size={20} color="#666" />
-          <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
-        </TouchableOpacity>
-      </View>
+      {writeMode === 'keyboard' && (
+        <>
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity 
+              style={styles.actionButton} 
+              onPress={handleClear}
+            >
+              <MaterialIcons name="backspace" size={20} color="#666" />
+              <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>
+                Clear
+              </Text>
+            </TouchableOpacity>
 
-      {/* Custom Aurebesh Keyboard */}
-      <View style={styles.keyboardContainer}>
-        <AurebeshKeyboard
-          onCharacterPress={handleCharacterPress}
-          onBackspace={handleBackspace}
-          onSpace={handleSpace}
-          onClear={handleClear}
-        />
-      </View>
+            <TouchableOpacity 
+              style={styles.actionButton} 
+              onPress={handleShowHint}
+              disabled={!canTakeHint}
+            >
+              <MaterialIcons 
+                name="lightbulb-outline" 
+                size={20} 
+                color={canTakeHint ? "#666" : "#ccc"} 
+              />
+              <Text style={[styles.actionButtonText, { 
+                fontFamily: getFontFamily(),
+                color: canTakeHint ? "#666" : "#ccc"
+              }]}>
+                {canTakeHint ? `Hint (-${hints[hintsShown].cost})` : 'Hint'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.actionButton} 
+              onPress={handleShowAnswer}
+              disabled={showAnswer}
+            >
+              <MaterialIcons 
+                name="visibility" 
+                size={20} 
+                color={showAnswer ? "#ccc" : "#666"} 
+              />
+              <Text style={[styles.actionButtonText, { 
+                fontFamily: getFontFamily(),
+                color: showAnswer ? "#ccc" : "#666"
+              }]}>
+                Show Answer
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.actionButton} onPress={handleSkip}>
+              <MaterialIcons name="skip-next" size={20} color="#666" />
+              <Text style={[styles.actionButtonText, { fontFamily: getFontFamily() }]}>Skip</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Custom Aurebesh Keyboard */}
+          <View style={styles.keyboardContainer}>
+            <AurebeshKeyboard
+              onCharacterPress={handleCharacterPress}
+              onBackspace={handleBackspace}
+              onSpace={handleSpace}
+              onClear={handleClear}
+            />
+          </View>
+        </>
+      )}
 
       {/* Difficulty Selection Modal */}
       <Modal
@@ -500,6 +849,32 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  modeSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 4,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  selectedMode: {
+    backgroundColor: '#4f81cb',
+  },
+  modeOptionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   difficultyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -608,6 +983,22 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     textAlign: 'left',
   },
+  noteContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#90CAF9',
+  },
+  noteText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#1565C0',
+    flex: 1,
+  },
   feedbackContainer: {
     flexDirection: 'row',
     alignItems: 'center',
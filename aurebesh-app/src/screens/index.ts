@@ -8,4 +8,8 @@ export { default as HomeScreen } from './HomeScreen';
 export { default as LearnScreen } from './LearnScreen';
 export { default as WriteScreen } from './WriteScreen';
 export { default as ReadScreen } from './ReadScreen';
+export { default as ListenScreen } from './ListenScreen';
+export { default as TranslateScreen } from './TranslateScreen';
+export { default as ProgressScreen } from './ProgressScreen';
+export { default as ConfusionScreen } from './ConfusionScreen';
 export { default as SettingsScreen } from './SettingsScreen';
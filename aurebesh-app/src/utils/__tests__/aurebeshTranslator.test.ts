@@ -0,0 +1,179 @@
+import {
+  AurebeshToken,
+  isValidAurebeshCharacter,
+  tokenizeAurebesh,
+  tokensMatch,
+  tokensToEnglish,
+  tokensToUnicode,
+  translateToAurebesh,
+  translateToEnglish,
+} from '../aurebeshTranslator';
+import { AUREBESH_PUA_BLOCK_START, aurebeshGlyphs, findGlyph, getPuaCharacter } from '../aurebeshScript';
+
+const types = (tokens: AurebeshToken[]) => tokens.map(token => token.type);
+const english = (tokens: AurebeshToken[]) => tokens.map(token => token.english);
+
+describe('tokenizeAurebesh', () => {
+  it('returns no tokens for empty text', () => {
+    expect(tokenizeAurebesh('')).toEqual([]);
+  });
+
+  it('keeps every letter separate when digraphs are off', () => {
+    const tokens = tokenizeAurebesh('shoot');
+    expect(english(tokens)).toEqual(['s', 'h', 'o', 'o', 't']);
+    expect(types(tokens)).toEqual(['letter', 'letter', 'letter', 'letter', 'letter']);
+  });
+
+  it('merges digraphs greedily from the left when they are on', () => {
+    const tokens = tokenizeAurebesh('shoot', { useDigraphs: true });
+    expect(english(tokens)).toEqual(['sh', 'oo', 't']);
+    expect(types(tokens)).toEqual(['digraph', 'digraph', 'letter']);
+    expect(tokens[0].glyph).toBe('ß');
+    expect(tokens[1].glyph).toBe('Ö');
+  });
+
+  it('only merges pairs that form a digraph', () => {
+    // "ht" is not a digraph, so "th" is found one letter later
+    expect(english(tokenizeAurebesh('hth', { useDigraphs: true }))).toEqual(['h', 'th']);
+  });
+
+  it('does not merge digraphs across a space', () => {
+    expect(english(tokenizeAurebesh('s h', { useDigraphs: true }))).toEqual(['s', ' ', 'h']);
+  });
+
+  it('keeps the case of letters and matches digraphs in any case', () => {
+    const tokens = tokenizeAurebesh('ThE', { useDigraphs: true });
+    expect(english(tokens)).toEqual(['Th', 'E']);
+    expect(tokens[1].glyph).toBe('E');
+    expect(english(tokenizeAurebesh('AbC'))).toEqual(['A', 'b', 'C']);
+  });
+
+  it('tokenizes numerals and punctuation', () => {
+    const tokens = tokenizeAurebesh('R2-D2!');
+    expect(types(tokens)).toEqual(['letter', 'numeral', 'punctuation', 'letter', 'numeral', 'punctuation']);
+    expect(tokens.map(token => token.glyph).join('')).toBe('R2-D2!');
+  });
+
+  it('keeps whitespace as space tokens', () => {
+    expect(types(tokenizeAurebesh('a b\tc'))).toEqual(['letter', 'space', 'letter', 'space', 'letter']);
+  });
+
+  it('drops characters the script has no glyph for', () => {
+    expect(english(tokenizeAurebesh('a@b#c&é'))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('encodes glyphs as Private Use Area characters for unicode output', () => {
+    const tokens = tokenizeAurebesh('ath', { useDigraphs: true, output: 'unicode' });
+    expect(tokens[0].glyph).toBe(String.fromCharCode(AUREBESH_PUA_BLOCK_START));
+    tokens.forEach(token => {
+      expect(token.glyph.charCodeAt(0)).toBeGreaterThanOrEqual(AUREBESH_PUA_BLOCK_START);
+    });
+  });
+});
+
+describe('translateToAurebesh', () => {
+  it('returns an empty string for empty text', () => {
+    expect(translateToAurebesh('')).toBe('');
+  });
+
+  it('keeps letters as they are, for the font to draw', () => {
+    expect(translateToAurebesh('Hello World')).toBe('Hello World');
+  });
+
+  it('writes digraphs with their own glyph only when asked', () => {
+    expect(translateToAurebesh('the ship')).toBe('the ship');
+    expect(translateToAurebesh('the ship', { useDigraphs: true })).toBe('Þe ßip');
+  });
+
+  it('removes unsupported characters', () => {
+    expect(translateToAurebesh('a+b=c')).toBe('abc');
+  });
+});
+
+describe('isValidAurebeshCharacter', () => {
+  it.each(['a', 'Z', '0', '9', '.', '?', '-', ' '])('accepts %p', char => {
+    expect(isValidAurebeshCharacter(char)).toBe(true);
+  });
+
+  it.each(['@', '#', '+', 'é', ''])('rejects %p', char => {
+    expect(isValidAurebeshCharacter(char)).toBe(false);
+  });
+
+  it('rejects digraphs, which are not single characters', () => {
+    expect(isValidAurebeshCharacter('th')).toBe(false);
+  });
+});
+
+describe('tokensMatch', () => {
+  const tokens = (text: string, useDigraphs = true) => tokenizeAurebesh(text, { useDigraphs });
+
+  it('matches the same spelling regardless of case', () => {
+    expect(tokensMatch(tokens('Droid'), tokens('dROID'))).toBe(true);
+  });
+
+  it('ignores leading and trailing spaces', () => {
+    expect(tokensMatch(tokens('star ship'), tokens('  star ship '))).toBe(true);
+  });
+
+  it('does not ignore spaces inside the answer', () => {
+    expect(tokensMatch(tokens('star ship'), tokens('starship'))).toBe(false);
+  });
+
+  it('does not match separate letters against a digraph', () => {
+    expect(tokensMatch(tokens('the'), tokens('the', false))).toBe(false);
+  });
+
+  it('does not match different or missing glyphs', () => {
+    expect(tokensMatch(tokens('droid'), tokens('druid'))).toBe(false);
+    expect(tokensMatch(tokens('droid'), tokens('droi'))).toBe(false);
+  });
+
+  it('matches two empty answers', () => {
+    expect(tokensMatch([], tokens('   '))).toBe(true);
+  });
+});
+
+describe('Private Use Area encoding', () => {
+  it('decodes unicode output back to lowercase English', () => {
+    const text = 'May the Force be with you, 3 times!';
+    const encoded = translateToAurebesh(text, { useDigraphs: true, output: 'unicode' });
+    expect(encoded).not.toBe(text);
+    expect(translateToEnglish(encoded)).toBe(text.toLowerCase());
+  });
+
+  it('keeps the glyph choice of separately typed letters', () => {
+    const typed = tokenizeAurebesh('t').concat(tokenizeAurebesh('h'));
+    const encoded = tokensToUnicode(typed);
+    expect(Array.from(encoded)).toHaveLength(2);
+    expect(translateToEnglish(encoded)).toBe('th');
+  });
+
+  it('round trips every supported glyph', () => {
+    const text = 'abcdefghijklmnopqrstuvwxyz chaeeokhngooshth 0123456789 .,!?;:\'"()-';
+    const tokens = tokenizeAurebesh(text, { useDigraphs: true });
+    expect(translateToEnglish(tokensToUnicode(tokens))).toBe(tokensToEnglish(tokens));
+  });
+
+  it('uses the registry code points for letters and digraphs', () => {
+    const codePoint = (english: string) => getPuaCharacter(findGlyph(english)!).charCodeAt(0);
+    expect(codePoint('A')).toBe(0xe890);
+    expect(codePoint('B')).toBe(0xe891);
+    expect(codePoint('Z')).toBe(0xe8a9);
+    expect(codePoint('CH')).toBe(0xe8aa);
+    expect(codePoint('TH')).toBe(0xe8b1);
+  });
+
+  it('encodes every glyph inside the registry block', () => {
+    const codePoints = aurebeshGlyphs.map(glyph => getPuaCharacter(glyph).charCodeAt(0));
+    expect(new Set(codePoints).size).toBe(aurebeshGlyphs.length);
+    codePoints.forEach(codePoint => {
+      expect(codePoint).toBeGreaterThanOrEqual(0xe890);
+      expect(codePoint).toBeLessThanOrEqual(0xe8df);
+    });
+  });
+
+  it('passes through text that is not Aurebesh', () => {
+    expect(translateToEnglish('plain text')).toBe('plain text');
+    expect(translateToEnglish('')).toBe('');
+  });
+});
@@ -0,0 +1,114 @@
+import { Deck } from '../decks';
+import { DeckFileFormat, detectDeckFormat, parseDeckFile, serializeDeck } from '../deckTransfer';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const deck: Deck = {
+  id: 'custom-rogue-one',
+  name: 'Rogue One',
+  isCustom: true,
+  words: [
+    { english: 'jyn', aurebesh: 'jyn', difficulty: 'easy', category: 'characters' },
+    { english: 'death star', aurebesh: 'death star', difficulty: 'hard', category: 'ships, stations' },
+    { english: 'scarif', aurebesh: 'scarif', difficulty: 'medium', category: 'planets' },
+  ],
+  notes: {
+    jyn: 'Jyn Erso',
+    'death star': 'Said "that\'s no moon", then\nfired',
+  },
+};
+
+describe('parseDeckFile', () => {
+  it('reads quoted CSV cells holding commas, quotes and line breaks', () => {
+    const csv = 'english,difficulty,category,notes\n"death star",hard,"ships, stations","Said ""no moon""\nthen fired"\nscarif,,planets,\n';
+    const result = parseDeckFile(csv, 'csv', 'deck.csv');
+
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toEqual([
+      { english: 'death star', difficulty: 'hard', category: 'ships, stations', notes: 'Said "no moon"\nthen fired' },
+      { english: 'scarif', difficulty: undefined, category: 'planets', notes: undefined },
+    ]);
+  });
+
+  it('reads CSV columns in any order after a header, and in export order without one', () => {
+    const withHeader = parseDeckFile('notes,word\nJyn Erso,JYN\n', 'csv', 'deck.csv');
+    expect(withHeader.entries).toEqual([
+      { english: 'jyn', difficulty: undefined, category: undefined, notes: 'Jyn Erso' },
+    ]);
+
+    const withoutHeader = parseDeckFile('jyn,easy,characters\n', 'csv', 'deck.csv');
+    expect(withoutHeader.entries[0]).toMatchObject({ english: 'jyn', difficulty: 'easy', category: 'characters' });
+  });
+
+  it('reports bad rows by line and imports the rest', () => {
+    const csv = 'english,difficulty\njyn,easy\njyn,easy\ncassian,legendary\nk2-so@,\n';
+    const result = parseDeckFile(csv, 'csv', 'deck.csv');
+
+    expect(result.entries.map(entry => entry.english)).toEqual(['jyn']);
+    expect(result.errors.map(error => error.row)).toEqual([3, 4, 5]);
+  });
+
+  it('reads JSON decks, naming them after the file when they have no name', () => {
+    const json = JSON.stringify({
+      format: 'aurebesh-deck',
+      version: 1,
+      name: 'Rebels',
+      words: [{ english: 'Jyn', difficulty: 'easy', notes: 'Jyn Erso' }, 'scarif'],
+    });
+    const result = parseDeckFile(json, 'json', 'deck.json');
+
+    expect(result.name).toBe('Rebels');
+    expect(result.entries).toEqual([
+      { english: 'jyn', difficulty: 'easy', category: undefined, notes: 'Jyn Erso' },
+      { english: 'scarif', difficulty: undefined, category: undefined, notes: undefined },
+    ]);
+    expect(parseDeckFile('["jyn"]', 'json', 'Rogue One.json').name).toBe('Rogue One');
+  });
+
+  it('reads Anki exports, skipping headers and taking the first tag as the category', () => {
+    const anki = '#separator:tab\n#html:true\njyn\tJyn <b>Erso</b>\tcharacters rebels\nscarif\t\t\n';
+    const result = parseDeckFile(anki, 'anki', 'deck.txt');
+
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toEqual([
+      { english: 'jyn', difficulty: undefined, category: 'characters', notes: 'Jyn Erso' },
+      { english: 'scarif', difficulty: undefined, category: undefined, notes: undefined },
+    ]);
+  });
+
+  it('returns an import error for a malformed file', () => {
+    expect(parseDeckFile('{"words": [', 'json', 'deck.json')).toEqual({
+      name: 'deck',
+      entries: [],
+      errors: [{ message: "The file isn't valid JSON" }],
+    });
+    expect(parseDeckFile('{"format": "other", "words": []}', 'json', 'deck.json').errors).toEqual([
+      { message: 'Unknown deck format "other"' },
+    ]);
+    expect(parseDeckFile('\n\n', 'csv', 'empty.csv').errors).toEqual([{ message: 'The file has no words' }]);
+  });
+});
+
+describe('serializeDeck', () => {
+  it('quotes CSV cells that need it', () => {
+    const csv = serializeDeck(deck, 'csv');
+    expect(csv.split('\r\n')[0]).toBe('english,difficulty,category,notes');
+    expect(csv).toContain('death star,hard,"ships, stations","Said ""that\'s no moon"", then\nfired"');
+  });
+
+  it.each<DeckFileFormat>(['csv', 'json', 'anki'])('round trips through %s', format => {
+    const text = serializeDeck(deck, format);
+    expect(detectDeckFormat(`deck.${format === 'anki' ? 'txt' : format}`, text)).toBe(format);
+
+    const result = parseDeckFile(text, format, 'Rogue One.txt');
+    expect(result.errors).toEqual([]);
+    expect(result.entries.map(entry => entry.english)).toEqual(['jyn', 'death star', 'scarif']);
+    expect(result.entries.map(entry => entry.notes)).toEqual([deck.notes?.jyn, deck.notes?.['death star'], undefined]);
+    if (format !== 'anki') {
+      expect(result.entries.map(entry => entry.difficulty)).toEqual(['easy', 'hard', 'medium']);
+      expect(result.entries.map(entry => entry.category)).toEqual(['characters', 'ships, stations', 'planets']);
+    }
+  });
+});
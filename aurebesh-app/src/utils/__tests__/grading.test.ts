@@ -0,0 +1,129 @@
+import { tokenizeAurebesh } from '../aurebeshTranslator';
+import { gradeLetters, isNearMiss } from '../letterGrade';
+import { gradePhraseAnswer } from '../phrases';
+import { AlignedPair, alignSequences } from '../sequences';
+
+const align = (expected: string, given: string) =>
+  alignSequences(expected.split(''), given.split(''), (a, b) => a === b);
+
+/**
+ * Writes an alignment compactly: "a" for a match, "a>b" for a substitution,
+ * "-a" for a missing item and "+a" for an extra one
+ */
+const describeAlignment = (pairs: AlignedPair<string>[]) =>
+  pairs.map(pair =>
+    pair.expected === null ? `+${pair.given}` :
+    pair.given === null ? `-${pair.expected}` :
+    pair.isMatch ? pair.expected : `${pair.expected}>${pair.given}`
+  );
+
+const letters = (text: string) => tokenizeAurebesh(text, { useDigraphs: false });
+const statuses = (expected: string, given: string) =>
+  gradeLetters(letters(expected), letters(given)).letters.map(result => result.status);
+
+describe('alignSequences', () => {
+  it('marks only the item that was left out, added or swapped', () => {
+    expect(describeAlignment(align('luke', 'lke'))).toEqual(['l', '-u', 'k', 'e']);
+    expect(describeAlignment(align('luke', 'lurke'))).toEqual(['l', 'u', '+r', 'k', 'e']);
+    expect(describeAlignment(align('luke', 'lake'))).toEqual(['l', 'u>a', 'k', 'e']);
+  });
+
+  it('prefers substitutions over a gap and an extra item when they tie', () => {
+    expect(describeAlignment(align('ab', 'ba'))).toEqual(['a>b', 'b>a']);
+    expect(describeAlignment(align('a', 'bc'))).toEqual(['+b', 'a>c']);
+  });
+
+  it('matches the later of two repeated items, marking the earlier one extra', () => {
+    expect(describeAlignment(align('luke', 'lukke'))).toEqual(['l', 'u', '+k', 'k', 'e']);
+  });
+
+  it('aligns against an empty sequence with gaps only', () => {
+    expect(align('', '')).toEqual([]);
+    expect(describeAlignment(align('ab', ''))).toEqual(['-a', '-b']);
+    expect(describeAlignment(align('', 'ab'))).toEqual(['+a', '+b']);
+  });
+});
+
+describe('gradeLetters', () => {
+  it('grades a correct answer, ignoring case and surrounding spaces', () => {
+    const grade = gradeLetters(letters('luke'), letters(' LUKE '));
+    expect(grade.isCorrect).toBe(true);
+    expect(grade.correctLetters).toBe(4);
+    expect(grade.totalLetters).toBe(4);
+  });
+
+  it('marks a missing, extra or substituted glyph', () => {
+    expect(statuses('luke', 'lke')).toEqual(['correct', 'missing', 'correct', 'correct']);
+    expect(statuses('luke', 'lurke')).toEqual(['correct', 'correct', 'extra', 'correct', 'correct']);
+    expect(statuses('luke', 'lake')).toEqual(['correct', 'substituted', 'correct', 'correct']);
+  });
+
+  it('counts letters of the expected spelling only', () => {
+    const grade = gradeLetters(letters('han solo'), letters('han sol'));
+    expect(grade.totalLetters).toBe(7);
+    expect(grade.correctLetters).toBe(6);
+  });
+
+  it('handles empty answers', () => {
+    expect(gradeLetters([], [])).toEqual({ letters: [], correctLetters: 0, totalLetters: 0, isCorrect: true });
+    expect(statuses('ben', '')).toEqual(['missing', 'missing', 'missing']);
+  });
+});
+
+describe('isNearMiss', () => {
+  it('accepts one glyph wrong, left out or added', () => {
+    expect(isNearMiss(gradeLetters(letters('luke'), letters('lke')))).toBe(true);
+    expect(isNearMiss(gradeLetters(letters('luke'), letters('lurke')))).toBe(true);
+    expect(isNearMiss(gradeLetters(letters('luke'), letters('lake')))).toBe(true);
+  });
+
+  it('rejects correct answers, two slips and short words', () => {
+    expect(isNearMiss(gradeLetters(letters('luke'), letters('luke')))).toBe(false);
+    expect(isNearMiss(gradeLetters(letters('luke'), letters('lk')))).toBe(false);
+    expect(isNearMiss(gradeLetters(letters('at'), letters('a')))).toBe(false);
+    expect(isNearMiss(gradeLetters([], []))).toBe(false);
+  });
+});
+
+describe('gradePhraseAnswer', () => {
+  const grade = (expected: string, given: string) => gradePhraseAnswer(letters(expected), letters(given));
+
+  it('grades a correct phrase', () => {
+    const result = grade('may the force', 'may  the force ');
+    expect(result.isCorrect).toBe(true);
+    expect(result.credit).toBe(1);
+  });
+
+  it('marks a missing word without failing the words after it', () => {
+    const result = grade('may the force', 'may force');
+    expect(result.words).toEqual([
+      { expected: 'may', given: 'may', isCorrect: true },
+      { expected: 'the', given: null, isCorrect: false },
+      { expected: 'force', given: 'force', isCorrect: true },
+    ]);
+    expect(result.correctWords).toBe(2);
+    expect(result.totalWords).toBe(3);
+  });
+
+  it('lists extra words and fails the answer for them', () => {
+    const result = grade('may the force', 'may the force be');
+    expect(result.correctWords).toBe(3);
+    expect(result.extraWords).toEqual(['be']);
+    expect(result.isCorrect).toBe(false);
+  });
+
+  it('pairs a misspelt word with the word it replaces', () => {
+    const result = grade('may the force', 'may the forse');
+    expect(result.words[2]).toEqual({ expected: 'force', given: 'forse', isCorrect: false });
+    expect(result.extraWords).toEqual([]);
+    expect(result.credit).toBeCloseTo(2 / 3);
+  });
+
+  it('handles empty answers and phrases', () => {
+    const empty = grade('may the force', '');
+    expect(empty.words.map(word => word.given)).toEqual([null, null, null]);
+    expect(empty.credit).toBe(0);
+
+    expect(grade('', '')).toMatchObject({ totalWords: 0, credit: 0, isCorrect: true });
+  });
+});
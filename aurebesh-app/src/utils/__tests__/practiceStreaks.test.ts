@@ -0,0 +1,109 @@
+import { LearningSession } from '../learningDatabase';
+import {
+  PracticeDay,
+  addDays,
+  calculatePracticeStreak,
+  getPracticeDaysFromSessions,
+} from '../practiceStreaks';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+/**
+ * Practice days for a run of consecutive dates
+ */
+const practiceRun = (firstDate: string, count: number): PracticeDay[] =>
+  Array.from({ length: count }, (_, index) => ({
+    date: addDays(firstDate, index),
+    minutes: 5,
+    sessions: 1,
+  }));
+
+const sessionAt = (start: Date): LearningSession => ({
+  session_start: start.toISOString(),
+  difficulty: 'easy',
+  questions_attempted: 5,
+  questions_correct: 4,
+  max_streak: 3,
+  final_score: 40,
+  session_duration_seconds: 120,
+});
+
+// Local dates, so the tests hold in any time zone
+const localDay = (day: number, hour: number = 9, minute: number = 0) => new Date(2024, 2, day, hour, minute);
+
+describe('calculatePracticeStreak', () => {
+  it('returns an empty streak without practice', () => {
+    expect(calculatePracticeStreak([], localDay(20))).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      freezesAvailable: 0,
+      frozenDates: [],
+      practicedToday: false,
+    });
+  });
+
+  it('keeps the streak until today is over', () => {
+    const streak = calculatePracticeStreak(practiceRun('2024-03-17', 3), localDay(20));
+    expect(streak.currentStreak).toBe(3);
+    expect(streak.practicedToday).toBe(false);
+  });
+
+  it('breaks the streak on a missed day with no freeze banked', () => {
+    const days = [...practiceRun('2024-03-15', 2), ...practiceRun('2024-03-18', 3)];
+    const streak = calculatePracticeStreak(days, localDay(20));
+    expect(streak.currentStreak).toBe(3);
+    expect(streak.longestStreak).toBe(3);
+    expect(streak.frozenDates).toEqual([]);
+  });
+
+  it('earns a freeze every seven days in a row and spends it on a missed day', () => {
+    const earned = calculatePracticeStreak(practiceRun('2024-03-01', 7), localDay(7));
+    expect(earned.freezesAvailable).toBe(1);
+
+    const days = [...practiceRun('2024-03-01', 7), ...practiceRun('2024-03-09', 2)];
+    const streak = calculatePracticeStreak(days, localDay(10));
+    expect(streak.currentStreak).toBe(9);
+    expect(streak.frozenDates).toEqual(['2024-03-08']);
+    expect(streak.freezesAvailable).toBe(0);
+    expect(streak.practicedToday).toBe(true);
+  });
+
+  it('ends the streak when missed days outnumber the freezes', () => {
+    const days = [...practiceRun('2024-03-01', 7), ...practiceRun('2024-03-10', 1)];
+    const streak = calculatePracticeStreak(days, localDay(10));
+    expect(streak.currentStreak).toBe(1);
+    expect(streak.longestStreak).toBe(7);
+    expect(streak.frozenDates).toEqual(['2024-03-08']);
+  });
+
+  it('banks at most two freezes', () => {
+    const streak = calculatePracticeStreak(practiceRun('2024-03-01', 21), localDay(21));
+    expect(streak.currentStreak).toBe(21);
+    expect(streak.freezesAvailable).toBe(2);
+  });
+
+  it('ignores days without sessions', () => {
+    const days = [...practiceRun('2024-03-18', 2), { date: '2024-03-20', minutes: 0, sessions: 0 }];
+    const streak = calculatePracticeStreak(days, localDay(20));
+    expect(streak.currentStreak).toBe(2);
+    expect(streak.practicedToday).toBe(false);
+  });
+});
+
+describe('getPracticeDaysFromSessions', () => {
+  it('splits sessions either side of local midnight into separate days', () => {
+    const days = getPracticeDaysFromSessions([
+      sessionAt(localDay(19, 0, 1)),
+      sessionAt(localDay(18, 23, 59)),
+      sessionAt(localDay(18, 8)),
+    ]);
+
+    expect(days).toEqual([
+      { date: '2024-03-18', minutes: 4, sessions: 2 },
+      { date: '2024-03-19', minutes: 2, sessions: 1 },
+    ]);
+    expect(calculatePracticeStreak(days, localDay(19, 0, 5)).currentStreak).toBe(2);
+  });
+});
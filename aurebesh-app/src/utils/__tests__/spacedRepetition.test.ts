@@ -0,0 +1,90 @@
+import {
+  ReviewState,
+  buildReviewQueue,
+  createReviewState,
+  scheduleReview,
+} from '../spacedRepetition';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+
+const reviewed = (overrides: Partial<ReviewState>): ReviewState => ({
+  ...createReviewState('A', now),
+  ...overrides,
+});
+
+describe('scheduleReview', () => {
+  it('grows the interval through one day, six days, then interval times ease', () => {
+    const first = scheduleReview(createReviewState('A', now), 'good', now);
+    expect(first.intervalDays).toBe(1);
+    expect(first.repetitions).toBe(1);
+
+    const second = scheduleReview(first, 'good', now);
+    expect(second.intervalDays).toBe(6);
+
+    const third = scheduleReview(second, 'good', now);
+    expect(third.intervalDays).toBe(15);
+    expect(third.repetitions).toBe(3);
+    expect(new Date(third.dueAt).getTime()).toBe(now.getTime() + 15 * DAY_MS);
+  });
+
+  it('shortens hard answers and lengthens easy ones', () => {
+    const state = reviewed({ intervalDays: 10, repetitions: 3 });
+
+    const hard = scheduleReview(state, 'hard', now);
+    expect(hard.intervalDays).toBe(12);
+    expect(hard.ease).toBe(2.35);
+
+    const easy = scheduleReview(state, 'easy', now);
+    expect(easy.intervalDays).toBe(32.5);
+    expect(easy.ease).toBe(2.65);
+
+    expect(scheduleReview(createReviewState('A', now), 'easy', now).intervalDays).toBe(4);
+  });
+
+  it('never lowers the ease below its floor', () => {
+    let state = createReviewState('A', now);
+    for (let i = 0; i < 20; i++) {
+      state = scheduleReview(state, i % 2 === 0 ? 'again' : 'hard', now);
+    }
+    expect(state.ease).toBe(1.3);
+  });
+
+  it('resets a forgotten item and brings it back within the session', () => {
+    const state = reviewed({ ease: 2.5, intervalDays: 15, repetitions: 3, lapses: 1 });
+    const lapsed = scheduleReview(state, 'again', now);
+
+    expect(lapsed.intervalDays).toBe(0);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.lapses).toBe(2);
+    expect(lapsed.ease).toBe(2.3);
+    expect(lapsed.dueAt).toBe(minutesFromNow(1));
+    expect(lapsed.lastReviewedAt).toBe(now.toISOString());
+  });
+
+  it('does not count a lapse for an item that was never learned', () => {
+    const lapsed = scheduleReview(createReviewState('A', now), 'again', now);
+    expect(lapsed.lapses).toBe(0);
+  });
+});
+
+describe('buildReviewQueue', () => {
+  it('puts due items first, most overdue first, then unseen items in deck order', () => {
+    const states: Record<string, ReviewState> = {
+      A: reviewed({ id: 'A', dueAt: minutesFromNow(-5) }),
+      B: reviewed({ id: 'B', dueAt: minutesFromNow(-60) }),
+      C: reviewed({ id: 'C', dueAt: minutesFromNow(10) }),
+      D: reviewed({ id: 'D', dueAt: minutesFromNow(60 * 24) }),
+    };
+
+    expect(buildReviewQueue(['E', 'A', 'B', 'C', 'D', 'F'], states, now)).toEqual(['B', 'A', 'C', 'E', 'F']);
+  });
+
+  it('returns an empty queue when nothing is due or unseen', () => {
+    const states = { A: reviewed({ dueAt: minutesFromNow(60) }) };
+    expect(buildReviewQueue(['A'], states, now)).toEqual([]);
+    expect(buildReviewQueue([], {}, now)).toEqual([]);
+  });
+});
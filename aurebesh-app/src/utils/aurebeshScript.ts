@@ -0,0 +1,162 @@
+/**
+ * Aurebesh Script Model
+ *
+ * The single source of truth for the Aurebesh writing system used throughout the app:
+ * letters, digraphs, numerals and punctuation, each with its name and the character
+ * the bundled Aurebesh.otf font renders as that glyph.
+ */
+
+/**
+ * Groups of glyphs in the Aurebesh script
+ */
+export type AurebeshGlyphKind = 'letter' | 'digraph' | 'numeral' | 'punctuation';
+
+/**
+ * A single Aurebesh glyph with its English equivalent and canonical name
+ */
+export interface AurebeshCharacter {
+  /** The English text the glyph stands for (uppercase for letters and digraphs) */
+  english: string;
+  /** The character to render with the Aurebesh font */
+  aurebesh: string;
+  /** The glyph's name, e.g. "Aurek" */
+  name: string;
+  kind: AurebeshGlyphKind;
+}
+
+/**
+ * Aurebesh alphabet with canonical names.
+ * The font maps each Latin letter to its Aurebesh glyph.
+ */
+export const aurebeshAlphabet: AurebeshCharacter[] = [
+  { english: 'A', aurebesh: 'a', name: 'Aurek', kind: 'letter' },
+  { english: 'B', aurebesh: 'b', name: 'Besh', kind: 'letter' },
+  { english: 'C', aurebesh: 'c', name: 'Cresh', kind: 'letter' },
+  { english: 'D', aurebesh: 'd', name: 'Dorn', kind: 'letter' },
+  { english: 'E', aurebesh: 'e', name: 'Esk', kind: 'letter' },
+  { english: 'F', aurebesh: 'f', name: 'Forn', kind: 'letter' },
+  { english: 'G', aurebesh: 'g', name: 'Grek', kind: 'letter' },
+  { english: 'H', aurebesh: 'h', name: 'Herf', kind: 'letter' },
+  { english: 'I', aurebesh: 'i', name: 'Isk', kind: 'letter' },
+  { english: 'J', aurebesh: 'j', name: 'Jenth', kind: 'letter' },
+  { english: 'K', aurebesh: 'k', name: 'Krill', kind: 'letter' },
+  { english: 'L', aurebesh: 'l', name: 'Leth', kind: 'letter' },
+  { english: 'M', aurebesh: 'm', name: 'Mern', kind: 'letter' },
+  { english: 'N', aurebesh: 'n', name: 'Nern', kind: 'letter' },
+  { english: 'O', aurebesh: 'o', name: 'Osk', kind: 'letter' },
+  { english: 'P', aurebesh: 'p', name: 'Peth', kind: 'letter' },
+  { english: 'Q', aurebesh: 'q', name: 'Qek', kind: 'letter' },
+  { english: 'R', aurebesh: 'r', name: 'Resh', kind: 'letter' },
+  { english: 'S', aurebesh: 's', name: 'Senth', kind: 'letter' },
+  { english: 'T', aurebesh: 't', name: 'Trill', kind: 'letter' },
+  { english: 'U', aurebesh: 'u', name: 'Usk', kind: 'letter' },
+  { english: 'V', aurebesh: 'v', name: 'Vev', kind: 'letter' },
+  { english: 'W', aurebesh: 'w', name: 'Wesk', kind: 'letter' },
+  { english: 'X', aurebesh: 'x', name: 'Xesh', kind: 'letter' },
+  { english: 'Y', aurebesh: 'y', name: 'Yirt', kind: 'letter' },
+  { english: 'Z', aurebesh: 'z', name: 'Zerek', kind: 'letter' },
+];
+
+/**
+ * Canonical Aurebesh digraphs. Each pair of English letters has a dedicated glyph,
+ * which the bundled Aurebesh font stores on a Latin-1 code point.
+ */
+export const aurebeshDigraphs: AurebeshCharacter[] = [
+  { english: 'CH', aurebesh: '\u00C7', name: 'Cherek', kind: 'digraph' }, // Ç
+  { english: 'AE', aurebesh: '\u00C6', name: 'Enth', kind: 'digraph' },   // Æ
+  { english: 'EO', aurebesh: '\u00CB', name: 'Onith', kind: 'digraph' },  // Ë
+  { english: 'KH', aurebesh: '\u00D0', name: 'Krenth', kind: 'digraph' }, // Ð
+  { english: 'NG', aurebesh: '\u00D1', name: 'Nen', kind: 'digraph' },    // Ñ
+  { english: 'OO', aurebesh: '\u00D6', name: 'Orenth', kind: 'digraph' }, // Ö
+  { english: 'SH', aurebesh: '\u00DF', name: 'Shen', kind: 'digraph' },   // ß
+  { english: 'TH', aurebesh: '\u00DE', name: 'Thesh', kind: 'digraph' },  // Þ
+];
+
+/**
+ * Aurebesh numerals 0-9. The font draws Aurebesh numeral glyphs on the ASCII digits.
+ */
+export const aurebeshNumerals: AurebeshCharacter[] = [
+  { english: '0', aurebesh: '0', name: 'Zero', kind: 'numeral' },
+  { english: '1', aurebesh: '1', name: 'One', kind: 'numeral' },
+  { english: '2', aurebesh: '2', name: 'Two', kind: 'numeral' },
+  { english: '3', aurebesh: '3', name: 'Three', kind: 'numeral' },
+  { english: '4', aurebesh: '4', name: 'Four', kind: 'numeral' },
+  { english: '5', aurebesh: '5', name: 'Five', kind: 'numeral' },
+  { english: '6', aurebesh: '6', name: 'Six', kind: 'numeral' },
+  { english: '7', aurebesh: '7', name: 'Seven', kind: 'numeral' },
+  { english: '8', aurebesh: '8', name: 'Eight', kind: 'numeral' },
+  { english: '9', aurebesh: '9', name: 'Nine', kind: 'numeral' },
+];
+
+/**
+ * Aurebesh punctuation marks supported by the font
+ */
+export const aurebeshPunctuation: AurebeshCharacter[] = [
+  { english: '.', aurebesh: '.', name: 'Period', kind: 'punctuation' },
+  { english: ',', aurebesh: ',', name: 'Comma', kind: 'punctuation' },
+  { english: '!', aurebesh: '!', name: 'Exclamation Mark', kind: 'punctuation' },
+  { english: '?', aurebesh: '?', name: 'Question Mark', kind: 'punctuation' },
+  { english: ';', aurebesh: ';', name: 'Semicolon', kind: 'punctuation' },
+  { english: ':', aurebesh: ':', name: 'Colon', kind: 'punctuation' },
+  { english: "'", aurebesh: "'", name: 'Apostrophe', kind: 'punctuation' },
+  { english: '"', aurebesh: '"', name: 'Quotation Mark', kind: 'punctuation' },
+  { english: '(', aurebesh: '(', name: 'Open Parenthesis', kind: 'punctuation' },
+  { english: ')', aurebesh: ')', name: 'Close Parenthesis', kind: 'punctuation' },
+  { english: '-', aurebesh: '-', name: 'Hyphen', kind: 'punctuation' },
+];
+
+/**
+ * Every glyph in the script, in teaching order
+ */
+export const aurebeshGlyphs: AurebeshCharacter[] = [
+  ...aurebeshAlphabet,
+  ...aurebeshDigraphs,
+  ...aurebeshNumerals,
+  ...aurebeshPunctuation,
+];
+
+/**
+ * Finds the glyph for an English letter, digraph, digit or punctuation mark
+ * @param english - The English text to look up (case-insensitive, e.g. "a" or "th")
+ * @returns The matching glyph, or undefined if the script has none
+ */
+export const findGlyph = (english: string): AurebeshCharacter | undefined => {
+  const key = english.toUpperCase();
+  return aurebeshGlyphs.find(glyph => glyph.english === key);
+};
+
+/**
+ * First code point of the Aurebesh block in the Under-ConScript Unicode Registry (UCSUR),
+ * U+E890-U+E8DF: https://www.kreativekorp.com/ucsur/charts/AUREBESH.html
+ * The block lives in the Private Use Area, so text encoded with it shows Aurebesh in any
+ * font that follows the registry and survives being copied out of the app.
+ */
+export const AUREBESH_PUA_BLOCK_START = 0xe890;
+
+/**
+ * Returns the Private Use Area character that encodes a glyph.
+ * The registry lays the block out with no gaps in the order of the tables above: the
+ * letters A-Z from U+E890, then the digraphs from U+E8AA, the numerals and the punctuation.
+ * @param glyph - The glyph to encode
+ * @returns A single PUA character
+ */
+export const getPuaCharacter = (glyph: AurebeshCharacter): string => {
+  const index = aurebeshGlyphs.findIndex(candidate => candidate.english === glyph.english);
+  return String.fromCharCode(AUREBESH_PUA_BLOCK_START + index);
+};
+
+/**
+ * Reverse lookup from PUA characters back to glyphs, built once from the tables above
+ */
+const puaToGlyph = new Map<string, AurebeshCharacter>(
+  aurebeshGlyphs.map(glyph => [getPuaCharacter(glyph), glyph])
+);
+
+/**
+ * Finds the glyph encoded by a Private Use Area character
+ * @param char - A single character, possibly from the Aurebesh PUA block
+ * @returns The matching glyph, or undefined if the character is not Aurebesh PUA text
+ */
+export const findGlyphByPuaCharacter = (char: string): AurebeshCharacter | undefined => {
+  return puaToGlyph.get(char);
+};
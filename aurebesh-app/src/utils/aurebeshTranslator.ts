@@ -1,96 +1,219 @@
 /**
  * Aurebesh Translation Utility
  * 
- * This utility provides functions for translating between English and Aurebesh text.
- * The Aurebesh font automatically maps English letters to Aurebesh characters,
- * so translation is primarily about text processing and validation.
+ * This utility provides the app's one transliteration API between English and Aurebesh text.
+ * Glyph data (letters, digraphs, numerals, punctuation) lives in aurebeshScript.ts; the
+ * Aurebesh font maps those characters to glyphs, so translation is tokenizing and validation.
  */
 
+import {
+  AurebeshCharacter,
+  AurebeshGlyphKind,
+  findGlyph,
+  findGlyphByPuaCharacter,
+  getPuaCharacter,
+} from './aurebeshScript';
+
+/**
+ * Kinds of units produced by the transliteration tokenizer
+ */
+export type AurebeshTokenType = AurebeshGlyphKind | 'space';
+
+/**
+ * A single unit of Aurebesh text: one glyph and the English text it stands for
+ */
+export interface AurebeshToken {
+  type: AurebeshTokenType;
+  /** The English source text covered by this token (one or two characters) */
+  english: string;
+  /** The character to render with the Aurebesh font */
+  glyph: string;
+}
+
+/**
+ * Options controlling how English text is transliterated
+ */
+export interface TransliterationOptions {
+  /** Merge digraphs such as "th" or "sh" into their dedicated glyphs */
+  useDigraphs?: boolean;
+  /**
+   * How glyphs are encoded: 'font' emits the Latin characters the bundled Aurebesh font
+   * remaps (default), 'unicode' emits ConScript Private Use Area code points for sharing
+   */
+  output?: 'font' | 'unicode';
+}
+
+/**
+ * Creates a token for a single English character, or null if it cannot be written in Aurebesh
+ * @param char - The character to tokenize
+ * @returns The matching token or null for unsupported characters
+ */
+const createCharacterToken = (
+  char: string,
+  options: TransliterationOptions = {}
+): AurebeshToken | null => {
+  if (/\s/.test(char)) {
+    return { type: 'space', english: char, glyph: char };
+  }
+
+  const glyph = findGlyph(char);
+  if (!glyph || glyph.kind === 'digraph') return null;
+
+  if (options.output === 'unicode') {
+    return { type: glyph.kind, english: char, glyph: getPuaCharacter(glyph) };
+  }
+
+  // Letters keep their original case; the font draws both cases as Aurebesh
+  return { type: glyph.kind, english: char, glyph: glyph.kind === 'letter' ? char : glyph.aurebesh };
+};
+
+/**
+ * Splits English text into Aurebesh tokens.
+ * Scans left to right and, when digraphs are enabled, greedily merges the next two
+ * letters into a digraph token whenever they form one (e.g. "shoot" -> SH, OO, T).
+ * Unsupported characters are dropped.
+ * @param englishText - The English text to tokenize
+ * @param options - Transliteration options
+ * @returns The tokens in reading order
+ */
+export const tokenizeAurebesh = (
+  englishText: string,
+  options: TransliterationOptions = {}
+): AurebeshToken[] => {
+  const tokens: AurebeshToken[] = [];
+  if (!englishText) return tokens;
+
+  let index = 0;
+  while (index < englishText.length) {
+    if (options.useDigraphs) {
+      const pair = englishText.slice(index, index + 2);
+      const digraph = pair.length === 2 ? findGlyph(pair) : undefined;
+      if (digraph && digraph.kind === 'digraph') {
+        const glyph = options.output === 'unicode' ? getPuaCharacter(digraph) : digraph.aurebesh;
+        tokens.push({ type: 'digraph', english: pair, glyph });
+        index += 2;
+        continue;
+      }
+    }
+
+    const token = createCharacterToken(englishText[index], options);
+    if (token) {
+      tokens.push(token);
+    }
+    index += 1;
+  }
+
+  return tokens;
+};
+
+/**
+ * Builds the token for a single keyboard key (a letter such as "A" or a digraph such as "TH")
+ * @param key - The English letter or digraph on the key
+ * @returns The matching token, or null if the key is not a known glyph
+ */
+export const getGlyphToken = (key: string): AurebeshToken | null => {
+  const digraph = findGlyph(key);
+  if (digraph && digraph.kind === 'digraph') {
+    return { type: 'digraph', english: key.toLowerCase(), glyph: digraph.aurebesh };
+  }
+  return key.length === 1 ? createCharacterToken(key.toLowerCase()) : null;
+};
+
 /**
- * Character mappings for Aurebesh alphabet
- * Used for validation and keyboard display
+ * Joins tokens back into their English source text
+ * @param tokens - The tokens to join
+ * @returns The English text represented by the tokens
  */
-export const aurebeshCharacterMap = {
-  'A': 'a', 'B': 'b', 'C': 'c', 'D': 'd', 'E': 'e', 'F': 'f', 'G': 'g', 'H': 'h',
-  'I': 'i', 'J': 'j', 'K': 'k', 'L': 'l', 'M': 'm', 'N': 'n', 'O': 'o', 'P': 'p',
-  'Q': 'q', 'R': 'r', 'S': 's', 'T': 't', 'U': 'u', 'V': 'v', 'W': 'w', 'X': 'x',
-  'Y': 'y', 'Z': 'z'
+export const tokensToEnglish = (tokens: AurebeshToken[]): string => {
+  return tokens.map(token => token.english).join('');
 };
 
 /**
- * Aurebesh alphabet with canonical names for keyboard display
- */
-export const aurebeshAlphabet = [
-  { english: 'A', aurebesh: 'a', name: 'Aurek' },
-  { english: 'B', aurebesh: 'b', name: 'Besh' },
-  { english: 'C', aurebesh: 'c', name: 'Cresh' },
-  { english: 'D', aurebesh: 'd', name: 'Dorn' },
-  { english: 'E', aurebesh: 'e', name: 'Esk' },
-  { english: 'F', aurebesh: 'f', name: 'Forn' },
-  { english: 'G', aurebesh: 'g', name: 'Grek' },
-  { english: 'H', aurebesh: 'h', name: 'Herf' },
-  { english: 'I', aurebesh: 'i', name: 'Isk' },
-  { english: 'J', aurebesh: 'j', name: 'Jenth' },
-  { english: 'K', aurebesh: 'k', name: 'Krill' },
-  { english: 'L', aurebesh: 'l', name: 'Leth' },
-  { english: 'M', aurebesh: 'm', name: 'Mern' },
-  { english: 'N', aurebesh: 'n', name: 'Nern' },
-  { english: 'O', aurebesh: 'o', name: 'Osk' },
-  { english: 'P', aurebesh: 'p', name: 'Peth' },
-  { english: 'Q', aurebesh: 'q', name: 'Qek' },
-  { english: 'R', aurebesh: 'r', name: 'Resh' },
-  { english: 'S', aurebesh: 's', name: 'Senth' },
-  { english: 'T', aurebesh: 't', name: 'Trill' },
-  { english: 'U', aurebesh: 'u', name: 'Usk' },
-  { english: 'V', aurebesh: 'v', name: 'Vev' },
-  { english: 'W', aurebesh: 'w', name: 'Wesk' },
-  { english: 'X', aurebesh: 'x', name: 'Xesh' },
-  { english: 'Y', aurebesh: 'y', name: 'Yirt' },
-  { english: 'Z', aurebesh: 'z', name: 'Zerek' }
-];
+ * Joins tokens into the string rendered with the Aurebesh font
+ * @param tokens - The tokens to join
+ * @returns The glyph string for display
+ */
+export const tokensToGlyphs = (tokens: AurebeshToken[]): string => {
+  return tokens.map(token => token.glyph).join('');
+};
+
+/**
+ * Encodes tokens as ConScript Private Use Area text, keeping each token's glyph choice
+ * (so separately typed "t" + "h" is not re-merged into Thesh). Spaces pass through.
+ * @param tokens - The tokens to encode
+ * @returns Unicode Aurebesh text suitable for copying or sharing
+ */
+export const tokensToUnicode = (tokens: AurebeshToken[]): string => {
+  return tokens
+    .map(token => {
+      const glyph = token.type === 'space' ? undefined : findGlyph(token.english);
+      return glyph ? getPuaCharacter(glyph) : token.english;
+    })
+    .join('');
+};
+
+/**
+ * Checks whether two token sequences spell the same Aurebesh text.
+ * Case is ignored, but glyph choice is not: "t" + "h" does not match the Thesh digraph.
+ * Leading and trailing spaces are ignored.
+ * @param expected - The tokens of the correct answer
+ * @param given - The tokens entered by the learner
+ * @returns True if both sequences contain the same glyphs in the same order
+ */
+export const tokensMatch = (expected: AurebeshToken[], given: AurebeshToken[]): boolean => {
+  const trim = (tokens: AurebeshToken[]) => {
+    let start = 0;
+    let end = tokens.length;
+    while (start < end && tokens[start].type === 'space') start++;
+    while (end > start && tokens[end - 1].type === 'space') end--;
+    return tokens.slice(start, end);
+  };
+
+  const a = trim(expected);
+  const b = trim(given);
+  if (a.length !== b.length) return false;
+
+  return a.every((token, index) =>
+    token.type === b[index].type &&
+    token.english.toLowerCase() === b[index].english.toLowerCase()
+  );
+};
 
 /**
  * Translates English text to Aurebesh-compatible text
  * Preserves case and handles special characters
  * @param englishText - The English text to translate
- * @returns The translated text that can be displayed with the Aurebesh font
+ * @param options - Transliteration options (digraph merging, font or Unicode PUA output)
+ * @returns The translated text that can be displayed with the Aurebesh font,
+ *          or ConScript PUA text when `output` is 'unicode'
  */
-export const translateToAurebesh = (englishText: string): string => {
+export const translateToAurebesh = (
+  englishText: string,
+  options: TransliterationOptions = {}
+): string => {
   if (!englishText) return '';
-  
-  // The Aurebesh font automatically maps English letters to Aurebesh characters
-  // We just need to clean the text and preserve formatting
-  return englishText
-    .split('')
-    .map(char => {
-      // Convert to uppercase for consistency with the font mapping
-      const upperChar = char.toUpperCase();
-      
-      // If it's a letter, keep it as is (font will handle the conversion)
-      if (/[A-Z]/.test(upperChar)) {
-        return char; // Preserve original case
-      }
-      
-      // Keep spaces, punctuation, and numbers as is
-      if (/[\s\d.,!?;:'"()\-]/.test(char)) {
-        return char;
-      }
-      
-      // Remove unsupported characters
-      return '';
-    })
-    .join('');
+
+  // Each token already carries the character for the requested encoding,
+  // so translating is just joining the token glyphs
+  return tokensToGlyphs(tokenizeAurebesh(englishText, options));
 };
 
 /**
- * Translates Aurebesh text back to English
- * Since the Aurebesh font maps English letters, this is essentially the same text
+ * Translates Aurebesh text back to English.
+ * ConScript Private Use Area characters (e.g. text pasted from other Aurebesh sources) are
+ * decoded to lowercase English; anything else is font-based text, which is already English.
  * @param aurebeshText - The Aurebesh text to translate back
  * @returns The English equivalent
  */
 export const translateToEnglish = (aurebeshText: string): string => {
-  // Since we're using a font-based approach, the underlying text is already English
-  return aurebeshText;
+  if (!aurebeshText) return '';
+
+  return Array.from(aurebeshText)
+    .map(char => {
+      const glyph = findGlyphByPuaCharacter(char);
+      return glyph ? glyph.english.toLowerCase() : char;
+    })
+    .join('');
 };
 
 /**
@@ -99,8 +222,7 @@ export const translateToEnglish = (aurebeshText: string): string => {
  * @returns True if the character can be displayed in Aurebesh
  */
 export const isValidAurebeshCharacter = (char: string): boolean => {
-  const upperChar = char.toUpperCase();
-  return /[A-Z]/.test(upperChar) || /[\s\d.,!?;:'"()\-]/.test(char);
+  return createCharacterToken(char) !== null;
 };
 
 /**
@@ -116,11 +238,10 @@ export const cleanTextForAurebesh = (text: string): string => {
 };
 
 /**
- * Gets character information for a given letter
- * @param letter - The English letter to get info for
+ * Gets character information for a given letter, digraph, numeral or punctuation mark
+ * @param letter - The English character or digraph (e.g. "th") to get info for
  * @returns Character information including name and Aurebesh equivalent
  */
-export const getCharacterInfo = (letter: string) => {
-  const upperLetter = letter.toUpperCase();
-  return aurebeshAlphabet.find(char => char.english === upperLetter);
+export const getCharacterInfo = (letter: string): AurebeshCharacter | undefined => {
+  return findGlyph(letter);
 };
@@ -0,0 +1,73 @@
+/**
+ * Blitz Rounds
+ * Scoring for the timed Read challenge: read as many words as possible before the clock
+ * runs out. Each correct answer is worth BLITZ_BASE_POINTS times a multiplier that grows
+ * with the current streak, so accuracy pays off more than guessing quickly.
+ */
+
+import { LearningSession } from './learningDatabase';
+import { getLocalSessions } from './learningStore';
+
+/**
+ * Round lengths to choose from, in seconds
+ */
+export const BLITZ_DURATIONS = [60, 120, 300] as const;
+
+export type BlitzDuration = typeof BLITZ_DURATIONS[number];
+
+/**
+ * Points for a correct answer before the multiplier
+ */
+export const BLITZ_BASE_POINTS = 10;
+
+/**
+ * Correct answers in a row needed to raise the multiplier by one
+ */
+const STREAK_PER_MULTIPLIER = 3;
+const MAX_MULTIPLIER = 5;
+
+/**
+ * Gets the score multiplier for a streak of correct answers
+ * @param streak - Correct answers in a row so far this round
+ * @returns The multiplier, from 1 up to MAX_MULTIPLIER
+ */
+export const getBlitzMultiplier = (streak: number): number =>
+  Math.min(MAX_MULTIPLIER, 1 + Math.floor(streak / STREAK_PER_MULTIPLIER));
+
+/**
+ * Gets the points for a correct answer
+ * @param streakBefore - Correct answers in a row before this one
+ * @returns Points earned
+ */
+export const getBlitzPoints = (streakBefore: number): number =>
+  BLITZ_BASE_POINTS * getBlitzMultiplier(streakBefore);
+
+/**
+ * Formats seconds left on the clock as M:SS
+ */
+export const formatBlitzClock = (seconds: number): string => {
+  const clamped = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(clamped / 60)}:${`${clamped % 60}`.padStart(2, '0')}`;
+};
+
+/**
+ * Whether a session is a blitz round of the given length
+ */
+const isBlitzRound = (session: LearningSession, duration: BlitzDuration): boolean =>
+  session.mode === 'blitz' && session.session_duration_seconds === duration;
+
+/**
+ * Gets the best score of the user's blitz rounds of one length on this device
+ * @param userId - The signed-in user's id
+ * @param duration - The round length in seconds
+ * @returns Promise<number> - The best score, or 0 if no round has been played
+ */
+export const getBlitzBestScore = async (
+  userId: string | undefined,
+  duration: BlitzDuration
+): Promise<number> => {
+  const sessions = await getLocalSessions(userId, Number.MAX_SAFE_INTEGER);
+  return sessions
+    .filter(session => isBlitzRound(session, duration))
+    .reduce((best, session) => Math.max(best, session.final_score), 0);
+};
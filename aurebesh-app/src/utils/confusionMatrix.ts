@@ -0,0 +1,245 @@
+/**
+ * Glyph Confusion Analysis
+ * Aligns wrong Read and Write answers with the expected word glyph by glyph and counts
+ * which glyph was given in place of which, building a confusion matrix per user. The
+ * worst pairs feed a drill that quizzes the learner on exactly the glyphs they mix up.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AurebeshToken } from './aurebeshTranslator';
+import { AurebeshCharacter, aurebeshAlphabet, findGlyph } from './aurebeshScript';
+import { createSerialQueue } from './storage';
+import { alignSequences, shuffle } from './sequences';
+
+/**
+ * Confusion counts keyed by the expected glyph, then the glyph given instead.
+ * Glyphs are identified by their English text as in the alphabet data ("A", "TH", "7").
+ */
+export type ConfusionMatrix = Record<string, Record<string, number>>;
+
+/**
+ * A single substitution found when aligning an answer
+ */
+export interface GlyphConfusion {
+  expected: string;
+  given: string;
+}
+
+/**
+ * Two glyphs the learner mixes up, counting mistakes in both directions
+ */
+export interface ConfusionPair {
+  glyphs: [string, string];
+  count: number;
+}
+
+/**
+ * One question in a confusion drill
+ */
+export interface ConfusionDrillQuestion {
+  /** The glyph shown to the learner */
+  glyph: AurebeshCharacter;
+  /** Answer choices, including the glyph it is confused with, in random order */
+  options: AurebeshCharacter[];
+}
+
+/**
+ * Answer choices per drill question
+ */
+const DRILL_OPTION_COUNT = 4;
+
+const runMatrixTask = createSerialQueue();
+
+/**
+ * Storage key for a user's confusion matrix (includes "progress" so storage usage
+ * counts it as learning progress)
+ */
+const getStorageKey = (userId?: string): string =>
+  `@aurebesh_confusion_progress_${userId ?? 'local'}`;
+
+/**
+ * Identifies a token's glyph the way the alphabet data does
+ */
+const getGlyphId = (token: AurebeshToken): string => token.english.toUpperCase();
+
+/**
+ * Aligns an answer with the expected tokens and lists the substituted glyphs.
+ * Uses an edit-distance alignment, so a missing or extra glyph does not shift every
+ * later glyph out of place; only substitutions count as confusions. Spaces are ignored.
+ * @param expected - Tokens of the correct answer
+ * @param given - Tokens of the learner's answer
+ * @returns The substitutions, in reading order
+ */
+export const findGlyphConfusions = (
+  expected: AurebeshToken[],
+  given: AurebeshToken[]
+): GlyphConfusion[] => {
+  const a = expected.filter(token => token.type !== 'space').map(getGlyphId);
+  const b = given.filter(token => token.type !== 'space').map(getGlyphId);
+
+  const confusions: GlyphConfusion[] = [];
+  alignSequences(a, b, (x, y) => x === y).forEach(pair => {
+    if (pair.expected !== null && pair.given !== null && !pair.isMatch) {
+      confusions.push({ expected: pair.expected, given: pair.given });
+    }
+  });
+
+  return confusions;
+};
+
+/**
+ * Loads a user's confusion matrix
+ * @param userId - The signed-in user's id
+ * @returns Promise<ConfusionMatrix> - The matrix, empty if nothing was recorded yet
+ */
+export const loadConfusionMatrix = async (userId?: string): Promise<ConfusionMatrix> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading confusion matrix:', error);
+    return {};
+  }
+};
+
+/**
+ * Adds confusions to a matrix in place
+ */
+const addConfusions = (matrix: ConfusionMatrix, confusions: GlyphConfusion[], weight: number = 1) => {
+  confusions.forEach(({ expected, given }) => {
+    matrix[expected] = matrix[expected] ?? {};
+    matrix[expected][given] = (matrix[expected][given] ?? 0) + weight;
+  });
+};
+
+/**
+ * Records the glyph confusions in a wrong answer
+ * @param userId - The signed-in user's id
+ * @param expected - Tokens of the correct answer
+ * @param given - Tokens of the learner's answer
+ * @returns Promise<GlyphConfusion[]> - The confusions that were recorded
+ */
+export const recordGlyphConfusions = async (
+  userId: string | undefined,
+  expected: AurebeshToken[],
+  given: AurebeshToken[]
+): Promise<GlyphConfusion[]> => {
+  const confusions = findGlyphConfusions(expected, given);
+  if (confusions.length === 0) return confusions;
+
+  await runMatrixTask(async () => {
+    const matrix = await loadConfusionMatrix(userId);
+    addConfusions(matrix, confusions);
+    try {
+      await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(matrix));
+    } catch (error) {
+      console.error('Error saving confusion matrix:', error);
+    }
+  });
+
+  return confusions;
+};
+
+/**
+ * Moves confusions recorded as a guest into a signed-in account
+ * @param userId - The id of the account that now owns the confusions
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestConfusions = async (userId: string): Promise<boolean> => {
+  try {
+    await runMatrixTask(async () => {
+      const guest = await loadConfusionMatrix();
+      if (Object.keys(guest).length === 0) return;
+
+      const matrix = await loadConfusionMatrix(userId);
+      Object.entries(guest).forEach(([expected, row]) => {
+        Object.entries(row).forEach(([given, count]) => {
+          addConfusions(matrix, [{ expected, given }], count);
+        });
+      });
+
+      await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(matrix));
+      await AsyncStorage.removeItem(getStorageKey());
+    });
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest confusions:', error);
+    return false;
+  }
+};
+
+/**
+ * Lists the glyphs involved in any confusion, most confused first
+ * @param matrix - The confusion matrix
+ * @param limit - Maximum number of glyphs to return
+ * @returns Glyph ids, ordered by how many mistakes involve them
+ */
+export const getConfusedGlyphs = (matrix: ConfusionMatrix, limit?: number): string[] => {
+  const totals: Record<string, number> = {};
+  Object.entries(matrix).forEach(([expected, row]) => {
+    Object.entries(row).forEach(([given, count]) => {
+      totals[expected] = (totals[expected] ?? 0) + count;
+      totals[given] = (totals[given] ?? 0) + count;
+    });
+  });
+
+  return Object.keys(totals)
+    .sort((a, b) => totals[b] - totals[a])
+    .slice(0, limit);
+};
+
+/**
+ * Finds the glyph pairs mixed up most often, in either direction
+ * @param matrix - The confusion matrix
+ * @param limit - Maximum number of pairs to return (default: 10)
+ * @returns Pairs, worst first
+ */
+export const getWorstConfusionPairs = (matrix: ConfusionMatrix, limit: number = 10): ConfusionPair[] => {
+  const pairs: Record<string, ConfusionPair> = {};
+
+  Object.entries(matrix).forEach(([expected, row]) => {
+    Object.entries(row).forEach(([given, count]) => {
+      const glyphs = [expected, given].sort() as [string, string];
+      const key = glyphs.join('|');
+      pairs[key] = { glyphs, count: (pairs[key]?.count ?? 0) + count };
+    });
+  });
+
+  return Object.values(pairs)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+/**
+ * Builds a quiz from the worst confusion pairs.
+ * Each question shows one glyph of a pair and offers both glyphs of the pair plus
+ * random letters from the alphabet. Worse pairs get proportionally more questions.
+ * @param pairs - The pairs to drill, worst first
+ * @param length - Number of questions (default: 10)
+ * @returns The drill questions, in random order
+ */
+export const buildConfusionDrill = (
+  pairs: ConfusionPair[],
+  length: number = 10
+): ConfusionDrillQuestion[] => {
+  const drillable = pairs.filter(pair => findGlyph(pair.glyphs[0]) && findGlyph(pair.glyphs[1]));
+  if (drillable.length === 0) return [];
+
+  const totalCount = drillable.reduce((sum, pair) => sum + pair.count, 0);
+  const questions: ConfusionDrillQuestion[] = [];
+
+  while (questions.length < length) {
+    // Pick a pair with probability proportional to how often it was confused
+    let roll = Math.random() * totalCount;
+    const pair = drillable.find(candidate => (roll -= candidate.count) < 0) ?? drillable[0];
+
+    const [shown, confusedWith] = shuffle(pair.glyphs).map(id => findGlyph(id)!);
+    const fillers = shuffle(
+      aurebeshAlphabet.filter(glyph => glyph.english !== shown.english && glyph.english !== confusedWith.english)
+    ).slice(0, DRILL_OPTION_COUNT - 2);
+
+    questions.push({ glyph: shown, options: shuffle([shown, confusedWith, ...fillers]) });
+  }
+
+  return questions;
+};
@@ -0,0 +1,433 @@
+/**
+ * Deck Import and Export
+ * Moves word decks in and out of the app so vocabulary lists can be prepared in a
+ * spreadsheet or in Anki. Three formats are supported:
+ *
+ * - CSV: one word per row with the columns `english,difficulty,category,notes`. A header
+ *   row naming the columns is optional; `word` and `note` are accepted as column names,
+ *   and columns can be in any order when there is a header. Only `english` is required.
+ * - JSON: an object in the Aurebesh deck format, version 1:
+ *
+ *       {
+ *         "format": "aurebesh-deck",
+ *         "version": 1,
+ *         "name": "Rogue One",
+ *         "words": [
+ *           { "english": "jyn", "difficulty": "easy", "category": "characters", "notes": "Jyn Erso" },
+ *           "scarif"
+ *         ]
+ *       }
+ *
+ *   `name` is optional and defaults to the file name. Each word is either a string or an
+ *   object where only `english` is required. A bare array of words is also accepted.
+ * - Anki: Anki's "Notes in Plain Text" export, tab separated with the English word at the
+ *   front, notes at the back and tags third. Lines starting with `#` are Anki's file
+ *   headers and are skipped, and the first tag is read as the category.
+ *
+ * Imported words are lowercased, must only use characters Aurebesh has, and are checked
+ * for duplicates. Rows that fail are reported by row number and left out; the rest of
+ * the file still imports.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { isValidAurebeshCharacter } from './aurebeshTranslator';
+import { CustomWordDetails } from './learningDatabase';
+import { Deck, MAX_CUSTOM_DECK_WORDS } from './decks';
+
+/**
+ * File formats decks can be imported from and exported to
+ */
+export type DeckFileFormat = 'csv' | 'json' | 'anki';
+
+/**
+ * Display name, extension and MIME type of each format
+ */
+export const DECK_FILE_FORMATS: Record<DeckFileFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  anki: { label: 'Anki', extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * A word read from a deck file
+ */
+export interface DeckEntry extends CustomWordDetails {
+  english: string;
+}
+
+/**
+ * A problem with one row of a deck file, or with the whole file when there is no row
+ */
+export interface DeckImportError {
+  /** Line in CSV and Anki files, position in the word list in JSON files */
+  row?: number;
+  message: string;
+}
+
+/**
+ * What was read from a deck file
+ */
+export interface DeckImportResult {
+  name: string;
+  entries: DeckEntry[];
+  errors: DeckImportError[];
+}
+
+const DIFFICULTIES: DeckEntry['difficulty'][] = ['easy', 'medium', 'hard'];
+
+/**
+ * A row of a delimited file with the line it starts on
+ */
+interface DelimitedRow {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Splits delimited text into rows of cells. Cells may be wrapped in double quotes to
+ * hold the delimiter, line breaks or doubled quotes, as spreadsheets and Anki write them.
+ */
+const parseDelimited = (text: string, delimiter: string): DelimitedRow[] => {
+  const rows: DelimitedRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Quotes a cell when it holds the delimiter, quotes or line breaks
+ */
+const formatCell = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Strips the markup Anki keeps in fields exported as HTML
+ */
+const stripHtml = (value: string): string =>
+  value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Checks raw word data and adds it to the import, or records why it was left out
+ */
+const addEntry = (
+  result: DeckImportResult,
+  seen: Map<string, number>,
+  row: number,
+  raw: { english?: unknown; difficulty?: unknown; category?: unknown; notes?: unknown }
+) => {
+  const fail = (message: string) => result.errors.push({ row, message });
+
+  if (typeof raw.english !== 'string' || raw.english.trim() === '') {
+    fail('Missing the English word');
+    return;
+  }
+  const english = raw.english.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  const invalid = [...new Set(english.split('').filter(char => !isValidAurebeshCharacter(char)))];
+  if (invalid.length > 0) {
+    fail(`"${english}" has characters Aurebesh doesn't have: ${invalid.join(' ')}`);
+    return;
+  }
+
+  const duplicateOf = seen.get(english);
+  if (duplicateOf !== undefined) {
+    fail(`"${english}" is already in row ${duplicateOf}`);
+    return;
+  }
+
+  let difficulty: DeckEntry['difficulty'];
+  if (raw.difficulty !== undefined && raw.difficulty !== null && String(raw.difficulty).trim() !== '') {
+    difficulty = DIFFICULTIES.find(level => level === String(raw.difficulty).trim().toLowerCase());
+    if (!difficulty) {
+      fail(`Unknown difficulty "${raw.difficulty}" (use easy, medium or hard)`);
+      return;
+    }
+  }
+
+  if (result.entries.length >= MAX_CUSTOM_DECK_WORDS) {
+    fail(`Decks hold up to ${MAX_CUSTOM_DECK_WORDS} words`);
+    return;
+  }
+
+  const category = typeof raw.category === 'string' && raw.category.trim() ? raw.category.trim() : undefined;
+  const notes = typeof raw.notes === 'string' && raw.notes.trim() ? raw.notes.trim() : undefined;
+
+  seen.set(english, row);
+  result.entries.push({ english, difficulty, category, notes });
+};
+
+/**
+ * Reads CSV deck rows
+ */
+const parseCsv = (text: string, result: DeckImportResult) => {
+  const rows = parseDelimited(text, ',');
+  const seen = new Map<string, number>();
+
+  // A header row names the columns; without one they follow the export order
+  let columns = ['english', 'difficulty', 'category', 'notes'];
+  const header = rows[0]?.cells.map(cell => cell.trim().toLowerCase());
+  if (header && (header.includes('english') || header.includes('word'))) {
+    columns = header.map(name => (name === 'word' ? 'english' : name === 'note' ? 'notes' : name));
+    rows.shift();
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const value = (column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? cells[index] : undefined;
+    };
+    addEntry(result, seen, line, {
+      english: value('english'),
+      difficulty: value('difficulty'),
+      category: value('category'),
+      notes: value('notes'),
+    });
+  });
+};
+
+/**
+ * Reads an Anki plain text export
+ */
+const parseAnki = (text: string, result: DeckImportResult) => {
+  // Blank out Anki's headers rather than removing them, so line numbers stay right
+  const lines = text.split(/\r?\n/);
+  const isHtml = lines.some(line => /^#html:true/i.test(line));
+  const body = lines.map(line => (line.startsWith('#') ? '' : line)).join('\n');
+  const seen = new Map<string, number>();
+
+  parseDelimited(body, '\t').forEach(({ line, cells }) => {
+    const [front, back, tags] = cells.map(cell => (isHtml ? stripHtml(cell) : cell));
+    addEntry(result, seen, line, {
+      english: front,
+      notes: back,
+      category: tags?.trim().split(/\s+/)[0],
+    });
+  });
+};
+
+/**
+ * Reads a deck in the Aurebesh JSON format
+ */
+const parseJson = (text: string, result: DeckImportResult) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    result.errors.push({ message: "The file isn't valid JSON" });
+    return;
+  }
+
+  const deck = (Array.isArray(data) ? { words: data } : data) as Record<string, unknown> | null;
+  if (!deck || typeof deck !== 'object' || !Array.isArray(deck.words)) {
+    result.errors.push({ message: 'Expected an Aurebesh deck with a "words" list' });
+    return;
+  }
+  if (deck.format !== undefined && deck.format !== 'aurebesh-deck') {
+    result.errors.push({ message: `Unknown deck format "${deck.format}"` });
+    return;
+  }
+  if (deck.version !== undefined && deck.version !== 1) {
+    result.errors.push({ message: `Deck format version ${deck.version} isn't supported` });
+    return;
+  }
+  if (typeof deck.name === 'string' && deck.name.trim()) {
+    result.name = deck.name.trim();
+  }
+
+  const seen = new Map<string, number>();
+  deck.words.forEach((word: unknown, index: number) => {
+    addEntry(
+      result,
+      seen,
+      index + 1,
+      typeof word === 'string' ? { english: word } : (word as Record<string, unknown>) ?? {}
+    );
+  });
+};
+
+/**
+ * Works out a deck file's format from its extension, or from its content when the
+ * extension doesn't say
+ * @param fileName - The file's name
+ * @param text - The file's content
+ * @returns The format to read the file as
+ */
+export const detectDeckFormat = (fileName: string, text: string): DeckFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt' || extension === 'tsv') return 'anki';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  return trimmed.startsWith('#') || text.includes('\t') ? 'anki' : 'csv';
+};
+
+/**
+ * Reads the words of a deck file, validating each row
+ * @param text - The file's content
+ * @param format - The file's format
+ * @param fileName - The file's name, used as the deck name when the file has none
+ * @returns The words that can be imported and the rows that can't
+ */
+export const parseDeckFile = (text: string, format: DeckFileFormat, fileName: string): DeckImportResult => {
+  const result: DeckImportResult = {
+    name: fileName.replace(/\.[^.]+$/, '').trim() || 'Imported Deck',
+    entries: [],
+    errors: [],
+  };
+
+  // Spreadsheets often save a byte order mark at the start
+  const content = text.replace(/^\uFEFF/, '');
+  if (format === 'json') {
+    parseJson(content, result);
+  } else if (format === 'anki') {
+    parseAnki(content, result);
+  } else {
+    parseCsv(content, result);
+  }
+
+  if (result.entries.length === 0 && result.errors.length === 0) {
+    result.errors.push({ message: 'The file has no words' });
+  }
+  return result;
+};
+
+/**
+ * Writes a deck in one of the export formats
+ * @param deck - The deck to write
+ * @param format - The format to write it in
+ * @returns The file content
+ */
+export const serializeDeck = (deck: Deck, format: DeckFileFormat): string => {
+  const entries: DeckEntry[] = deck.words.map(word => ({
+    english: word.english,
+    difficulty: word.difficulty,
+    category: word.category,
+    notes: deck.notes?.[word.english],
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify({ format: 'aurebesh-deck', version: 1, name: deck.name, words: entries }, null, 2);
+  }
+
+  if (format === 'anki') {
+    const header = ['#separator:tab', '#html:false', '#columns:Front\tBack\tTags', '#tags column:3'];
+    const rows = entries.map(entry =>
+      [entry.english, entry.notes ?? '', (entry.category ?? '').replace(/\s+/g, '_')]
+        .map(cell => formatCell(cell, '\t'))
+        .join('\t')
+    );
+    return [...header, ...rows].join('\n') + '\n';
+  }
+
+  const rows = entries.map(entry =>
+    [entry.english, entry.difficulty ?? '', entry.category ?? '', entry.notes ?? '']
+      .map(cell => formatCell(cell, ','))
+      .join(',')
+  );
+  return ['english,difficulty,category,notes', ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Lets the user pick a deck file with the system document picker and reads it
+ * @returns Promise<DeckImportResult | null> - What was read, an error result if the picker
+ *          or the file failed, or null if the user cancelled
+ */
+export const importDeckFile = async (): Promise<DeckImportResult | null> => {
+  let fileName = '';
+  try {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/*', 'application/json', 'application/vnd.ms-excel'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return null;
+
+    const file = picked.assets[0];
+    fileName = file.name;
+    const text = await FileSystem.readAsStringAsync(file.uri);
+    return parseDeckFile(text, detectDeckFormat(file.name, text), file.name);
+  } catch (error) {
+    console.error('Error importing deck file:', error);
+    const message = fileName ? "The file couldn't be read" : "The file picker couldn't be opened";
+    return { name: fileName, entries: [], errors: [{ message }] };
+  }
+};
+
+/**
+ * Writes a deck to a file and opens the system share sheet for it
+ * @param deck - The deck to export
+ * @param format - The format to export it in
+ * @returns Promise<boolean> - Success status
+ */
+export const exportDeckFile = async (deck: Deck, format: DeckFileFormat): Promise<boolean> => {
+  try {
+    if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+      console.warn('Sharing is not available on this device');
+      return false;
+    }
+
+    const { extension, mimeType } = DECK_FILE_FORMATS[format];
+    const fileName = `${deck.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'deck'}.${extension}`;
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+
+    await FileSystem.writeAsStringAsync(uri, serializeDeck(deck, format));
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: `Export ${deck.name}` });
+    return true;
+  } catch (error) {
+    console.error('Error exporting deck:', error);
+    return false;
+  }
+};
@@ -0,0 +1,316 @@
+/**
+ * Practice Decks
+ * Lets learners choose what to practise beyond difficulty. Built-in decks are generated
+ * from the dictionary's categories; custom decks are lists of the learner's own words,
+ * kept on the device and synced through the learning database.
+ *
+ * Deleting a custom deck keeps a deleted marker rather than dropping it, so the deletion
+ * syncs to other devices instead of the deck coming back from the server. When the same
+ * deck was changed on two devices, the most recently updated copy wins.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { WordPair, getCategories, getWordsByCategory, wordDictionary } from './dictionary';
+import { cleanTextForAurebesh } from './aurebeshTranslator';
+import { CustomDeckRecord, CustomWordDetails, getCustomDecks, saveCustomDecks } from './learningDatabase';
+import { enqueueSyncOperation } from './learningStore';
+import { createSerialQueue } from './storage';
+
+/**
+ * A set of words to practise
+ */
+export interface Deck {
+  id: string;
+  name: string;
+  isCustom: boolean;
+  words: WordPair[];
+  /** Notes to show with a word once it's answered, keyed by English word */
+  notes?: Record<string, string>;
+}
+
+/**
+ * A user-created deck as stored on the device
+ */
+export interface CustomDeck {
+  id: string;
+  name: string;
+  /** English words in the deck */
+  words: string[];
+  /** Imported difficulty, category and notes, keyed by English word */
+  details?: Record<string, CustomWordDetails>;
+  updatedAt: string;
+  deleted?: boolean;
+}
+
+/**
+ * Longest word list a custom deck can hold
+ */
+export const MAX_CUSTOM_DECK_WORDS = 200;
+
+const runDeckTask = createSerialQueue();
+
+/**
+ * Storage key for a user's custom decks
+ */
+const getStorageKey = (userId?: string): string => `@aurebesh_custom_decks_${userId ?? 'local'}`;
+
+/**
+ * Converts a stored deck to its database row
+ */
+const toRecord = (deck: CustomDeck): CustomDeckRecord => ({
+  deck_id: deck.id,
+  name: deck.name,
+  words: deck.words,
+  details: deck.details ?? {},
+  is_deleted: !!deck.deleted,
+  updated_at: deck.updatedAt,
+});
+
+/**
+ * Converts a database row to a stored deck
+ */
+const fromRecord = (record: CustomDeckRecord): CustomDeck => ({
+  id: record.deck_id,
+  name: record.name,
+  words: record.words ?? [],
+  details: record.details && Object.keys(record.details).length > 0 ? record.details : undefined,
+  updatedAt: record.updated_at,
+  deleted: record.is_deleted || undefined,
+});
+
+/**
+ * Difficulty of a word that isn't in the dictionary, by the dictionary's length bands
+ */
+export const getWordDifficulty = (english: string): WordPair['difficulty'] => {
+  const letters = english.replace(/\s/g, '').length;
+  if (letters <= 4) return 'easy';
+  if (letters <= 6) return 'medium';
+  return 'hard';
+};
+
+/**
+ * Turns a custom word into a word pair, reusing the dictionary entry when there is one.
+ * Imported difficulty and category take precedence over both.
+ */
+const toWordPair = (english: string, details: CustomWordDetails = {}): WordPair => {
+  const entry = wordDictionary.find(word => word.english === english);
+  return {
+    english,
+    aurebesh: entry?.aurebesh ?? english,
+    difficulty: details.difficulty ?? entry?.difficulty ?? getWordDifficulty(english),
+    category: details.category ?? entry?.category ?? 'custom',
+  };
+};
+
+/**
+ * Splits text typed by the learner into deck words: one per line or comma, lowercased,
+ * without characters Aurebesh can't show, and without duplicates
+ * @param text - The words as typed
+ * @returns The cleaned words
+ */
+export const parseDeckWords = (text: string): string[] => {
+  const words = text
+    .split(/[\n,]/)
+    .map(word => cleanTextForAurebesh(word.trim().toLowerCase()).replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  return [...new Set(words)].slice(0, MAX_CUSTOM_DECK_WORDS);
+};
+
+/**
+ * Gets a built-in deck for every dictionary category
+ * @returns Decks in the order categories first appear in the dictionary
+ */
+export const getBuiltInDecks = (): Deck[] =>
+  getCategories().map(category => ({
+    id: `category:${category}`,
+    name: category.charAt(0).toUpperCase() + category.slice(1),
+    isCustom: false,
+    words: getWordsByCategory(category),
+  }));
+
+/**
+ * Turns a stored custom deck into a practice deck
+ */
+export const toPracticeDeck = (deck: CustomDeck): Deck => {
+  const notes: Record<string, string> = {};
+  deck.words.forEach(word => {
+    const note = deck.details?.[word]?.notes;
+    if (note) notes[word] = note;
+  });
+
+  return {
+    id: deck.id,
+    name: deck.name,
+    isCustom: true,
+    words: deck.words.map(word => toWordPair(word, deck.details?.[word])),
+    notes,
+  };
+};
+
+/**
+ * Loads a user's custom decks, including deleted markers
+ */
+const loadStoredDecks = async (userId?: string): Promise<CustomDeck[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading custom decks:', error);
+    return [];
+  }
+};
+
+const storeDecks = async (userId: string | undefined, decks: CustomDeck[]): Promise<void> => {
+  await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(decks));
+};
+
+/**
+ * Loads a user's custom decks
+ * @param userId - The signed-in user's id
+ * @returns Promise<CustomDeck[]> - The decks, sorted by name
+ */
+export const loadCustomDecks = async (userId?: string): Promise<CustomDeck[]> => {
+  const decks = await loadStoredDecks(userId);
+  return decks
+    .filter(deck => !deck.deleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Creates or updates a custom deck and queues it for upload. When editing, words that
+ * stay in the deck keep their details unless new details are given.
+ * @param userId - The signed-in user's id
+ * @param deck - The deck's name, words and word details, and its id when editing an existing deck
+ * @returns Promise<CustomDeck | null> - The saved deck, or null if saving failed
+ */
+export const saveCustomDeck = async (
+  userId: string | undefined,
+  deck: { id?: string; name: string; words: string[]; details?: Record<string, CustomWordDetails> }
+): Promise<CustomDeck | null> => {
+  try {
+    const words = deck.words.slice(0, MAX_CUSTOM_DECK_WORDS);
+    let saved: CustomDeck | undefined;
+
+    await runDeckTask(async () => {
+      const decks = await loadStoredDecks(userId);
+      const previous = decks.find(existing => existing.id === deck.id);
+      const allDetails = deck.details ?? previous?.details ?? {};
+      const details: Record<string, CustomWordDetails> = {};
+      words.forEach(word => {
+        if (allDetails[word]) details[word] = allDetails[word];
+      });
+
+      saved = {
+        id: deck.id ?? `deck-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+        name: deck.name.trim(),
+        words,
+        details: Object.keys(details).length > 0 ? details : undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      await storeDecks(userId, [...decks.filter(existing => existing.id !== saved!.id), saved]);
+    });
+    if (!saved) return null;
+    await enqueueSyncOperation(userId, { type: 'customDecks', records: [toRecord(saved)] });
+
+    return saved;
+  } catch (error) {
+    console.error('Error saving custom deck:', error);
+    return null;
+  }
+};
+
+/**
+ * Deletes a custom deck and queues the deletion for upload
+ * @param userId - The signed-in user's id
+ * @param deckId - The deck to delete
+ * @returns Promise<boolean> - Success status
+ */
+export const deleteCustomDeck = async (userId: string | undefined, deckId: string): Promise<boolean> => {
+  try {
+    let deleted: CustomDeck | undefined;
+
+    await runDeckTask(async () => {
+      const decks = await loadStoredDecks(userId);
+      const existing = decks.find(deck => deck.id === deckId);
+      if (!existing) return;
+
+      deleted = { ...existing, words: [], details: undefined, deleted: true, updatedAt: new Date().toISOString() };
+      await storeDecks(userId, decks.map(deck => (deck.id === deckId ? deleted! : deck)));
+    });
+
+    if (deleted) {
+      await enqueueSyncOperation(userId, { type: 'customDecks', records: [toRecord(deleted)] });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting custom deck:', error);
+    return false;
+  }
+};
+
+/**
+ * Keeps the most recently updated copy of each deck
+ */
+const mergeDecks = (local: CustomDeck[], remote: CustomDeck[]): CustomDeck[] => {
+  const merged: Record<string, CustomDeck> = {};
+
+  [...remote, ...local].forEach(deck => {
+    const existing = merged[deck.id];
+    if (!existing || new Date(deck.updatedAt) > new Date(existing.updatedAt)) {
+      merged[deck.id] = deck;
+    }
+  });
+
+  return Object.values(merged);
+};
+
+/**
+ * Reconciles the user's custom decks with the server.
+ * The merged result is written both locally and upstream.
+ * @param userId - The signed-in user's id
+ * @returns Promise<CustomDeck[]> - The merged decks, sorted by name
+ */
+export const syncCustomDecks = async (userId: string): Promise<CustomDeck[]> => {
+  const remoteRecords = await getCustomDecks();
+
+  let merged: CustomDeck[] = [];
+  await runDeckTask(async () => {
+    const local = await loadStoredDecks(userId);
+    merged = mergeDecks(local, remoteRecords.map(fromRecord));
+    await storeDecks(userId, merged);
+  });
+  await saveCustomDecks(merged.map(toRecord));
+
+  return merged
+    .filter(deck => !deck.deleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Moves decks created as a guest into a signed-in account and queues them for upload
+ * @param userId - The id of the account that now owns the decks
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestCustomDecks = async (userId: string): Promise<boolean> => {
+  try {
+    let guestDecks: CustomDeck[] = [];
+
+    await runDeckTask(async () => {
+      guestDecks = (await loadStoredDecks()).filter(deck => !deck.deleted);
+      if (guestDecks.length === 0) return;
+
+      const decks = await loadStoredDecks(userId);
+      await storeDecks(userId, mergeDecks(decks, guestDecks));
+      await AsyncStorage.removeItem(getStorageKey());
+    });
+
+    if (guestDecks.length > 0) {
+      await enqueueSyncOperation(userId, { type: 'customDecks', records: guestDecks.map(toRecord) });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest custom decks:', error);
+    return false;
+  }
+};
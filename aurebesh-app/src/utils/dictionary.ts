@@ -4,7 +4,7 @@
  * 
  * This dictionary maps English words to their Aurebesh equivalents.
  * The Aurebesh characters are stored as Unicode text that can be displayed
- * with the Aurebesh.otf font.
+ * with the Aurebesh.otf font. Transliteration lives in aurebeshTranslator.ts.
  */
 
 export interface WordPair {
@@ -14,40 +14,6 @@ export interface WordPair {
   category: string;
 }
 
-/**
- * Basic Aurebesh character mappings
- * These map to regular ASCII letters (a-z) which the Aurebesh font will render as Aurebesh characters
- * Most Aurebesh fonts replace the standard Latin alphabet with Aurebesh glyphs
- */
-export const aurebeshAlphabet: Record<string, string> = {
-  'a': 'a',    // Aurek
-  'b': 'b',    // Besh
-  'c': 'c',    // Cresh
-  'd': 'd',    // Dorn
-  'e': 'e',    // Esk
-  'f': 'f',    // Forn
-  'g': 'g',    // Grek
-  'h': 'h',    // Herf
-  'i': 'i',    // Isk
-  'j': 'j',    // Jenth
-  'k': 'k',    // Krill
-  'l': 'l',    // Leth
-  'm': 'm',    // Mern
-  'n': 'n',    // Nern
-  'o': 'o',    // Osk
-  'p': 'p',    // Peth
-  'q': 'q',    // Qek
-  'r': 'r',    // Resh
-  's': 's',    // Senth
-  't': 't',    // Trill
-  'u': 'u',    // Usk
-  'v': 'v',    // Vev
-  'w': 'w',    // Wesk
-  'x': 'x',    // Xesh
-  'y': 'y',    // Yirt
-  'z': 'z',    // Zerek
-};
-
 /**
  * Comprehensive word collection across multiple categories and difficulty levels.
  * This collection will be expanded over time with more words and categories.
@@ -431,6 +397,41 @@ export const wordDictionary: WordPair[] = [
   { english: 'chemistry', aurebesh: 'chemistry', difficulty: 'hard', category: 'abstract' },
   { english: 'biology', aurebesh: 'biology', difficulty: 'hard', category: 'abstract' },
   { english: 'evolution', aurebesh: 'evolution', difficulty: 'hard', category: 'abstract' },
+
+  // ========== NUMBERS AND PUNCTUATION ==========
+
+  // Hull codes and designations
+  { english: 'bb-8', aurebesh: 'bb-8', difficulty: 'easy', category: 'codes' },
+  { english: 'r2-d2', aurebesh: 'r2-d2', difficulty: 'medium', category: 'codes' },
+  { english: 'c-3po', aurebesh: 'c-3po', difficulty: 'medium', category: 'codes' },
+  { english: 'k-2so', aurebesh: 'k-2so', difficulty: 'medium', category: 'codes' },
+  { english: 'ig-88', aurebesh: 'ig-88', difficulty: 'medium', category: 'codes' },
+  { english: 'tk-421', aurebesh: 'tk-421', difficulty: 'medium', category: 'codes' },
+  { english: 'ct-7567', aurebesh: 'ct-7567', difficulty: 'hard', category: 'codes' },
+  { english: 'bay 327', aurebesh: 'bay 327', difficulty: 'hard', category: 'codes' },
+  { english: 'block aa-23', aurebesh: 'block aa-23', difficulty: 'hard', category: 'codes' },
+
+  // Dates
+  { english: '5-4', aurebesh: '5-4', difficulty: 'easy', category: 'dates' },
+  { english: '12-25', aurebesh: '12-25', difficulty: 'medium', category: 'dates' },
+  { english: '05-25-77', aurebesh: '05-25-77', difficulty: 'hard', category: 'dates' },
+  { english: '19 bby', aurebesh: '19 bby', difficulty: 'medium', category: 'dates' },
+  { english: '4 aby', aurebesh: '4 aby', difficulty: 'easy', category: 'dates' },
+
+  // Prices
+  { english: '500', aurebesh: '500', difficulty: 'easy', category: 'prices' },
+  { english: '9.99', aurebesh: '9.99', difficulty: 'easy', category: 'prices' },
+  { english: '12.50', aurebesh: '12.50', difficulty: 'medium', category: 'prices' },
+  { english: '1,250.00', aurebesh: '1,250.00', difficulty: 'hard', category: 'prices' },
+  { english: '17,000 credits', aurebesh: '17,000 credits', difficulty: 'hard', category: 'prices' },
+
+  // Punctuated words
+  { english: 'yes!', aurebesh: 'yes!', difficulty: 'easy', category: 'punctuation' },
+  { english: 'why?', aurebesh: 'why?', difficulty: 'easy', category: 'punctuation' },
+  { english: 'hello!', aurebesh: 'hello!', difficulty: 'medium', category: 'punctuation' },
+  { english: "it's", aurebesh: "it's", difficulty: 'medium', category: 'punctuation' },
+  { english: 'halt: 2km', aurebesh: 'halt: 2km', difficulty: 'hard', category: 'punctuation' },
+  { english: '"danger"', aurebesh: '"danger"', difficulty: 'hard', category: 'punctuation' },
 ];
 
 /**
@@ -466,20 +467,3 @@ export const getCategories = (): string[] => {
   const categories = wordDictionary.map(word => word.category);
   return [...new Set(categories)];
 };
-
-/**
- * Convert English text to Aurebesh using the character mappings
- * This transliterates English characters to their Aurebesh equivalents
- * @param englishText - The English text to convert
- * @returns The Aurebesh equivalent using proper Unicode characters
- */
-export const translateToAurebesh = (englishText: string): string => {
-  return englishText
-    .toLowerCase()
-    .split('')
-    .map(char => {
-      if (char === ' ') return ' ';
-      return aurebeshAlphabet[char] || char;
-    })
-    .join('');
-};
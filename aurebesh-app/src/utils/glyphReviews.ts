@@ -0,0 +1,157 @@
+/**
+ * Glyph Review Store
+ * Persists flashcard scheduling state on the device and syncs it through the
+ * learning database so progress follows the user between devices.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewState, mergeReviewStates } from './spacedRepetition';
+import { GlyphReviewRecord, getGlyphReviews, saveGlyphReviews } from './learningDatabase';
+import { enqueueSyncOperation } from './learningStore';
+import { createSerialQueue } from './storage';
+
+/**
+ * Storage key for a user's glyph review states (includes "progress" so storage usage
+ * counts it as learning progress)
+ */
+const getStorageKey = (userId?: string): string => `@aurebesh_glyph_review_progress_${userId ?? 'local'}`;
+
+const runReviewTask = createSerialQueue();
+
+/**
+ * Converts a scheduler state to its database row
+ */
+const toRecord = (state: ReviewState): GlyphReviewRecord => ({
+  glyph: state.id,
+  ease: state.ease,
+  interval_days: state.intervalDays,
+  repetitions: state.repetitions,
+  lapses: state.lapses,
+  due_at: state.dueAt,
+  last_reviewed_at: state.lastReviewedAt,
+});
+
+/**
+ * Converts a database row to a scheduler state
+ */
+const fromRecord = (record: GlyphReviewRecord): ReviewState => ({
+  id: record.glyph,
+  ease: Number(record.ease),
+  intervalDays: Number(record.interval_days),
+  repetitions: record.repetitions,
+  lapses: record.lapses,
+  dueAt: record.due_at,
+  lastReviewedAt: record.last_reviewed_at,
+});
+
+/**
+ * Loads a user's glyph review states stored on this device
+ * @param userId - The signed-in user's id
+ * @returns Promise<Record<string, ReviewState>> - States keyed by glyph
+ */
+export const loadGlyphReviewStates = async (userId?: string): Promise<Record<string, ReviewState>> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading glyph review states:', error);
+    return {};
+  }
+};
+
+/**
+ * Saves a user's glyph review states on this device
+ * @param userId - The signed-in user's id
+ * @param states - All states keyed by glyph
+ * @returns Promise<boolean> - Success status
+ */
+const storeGlyphReviewStates = async (
+  userId: string | undefined,
+  states: Record<string, ReviewState>
+): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(states));
+    return true;
+  } catch (error) {
+    console.error('Error saving glyph review states:', error);
+    return false;
+  }
+};
+
+/**
+ * Records a glyph's new state locally and queues it for upload
+ * @param state - The glyph's state after grading
+ * @param userId - The signed-in user's id
+ * @returns Promise<Record<string, ReviewState>> - All states including the update
+ */
+export const saveGlyphReviewState = async (
+  state: ReviewState,
+  userId?: string
+): Promise<Record<string, ReviewState>> => {
+  const states = await runReviewTask(async () => {
+    const updated = { ...(await loadGlyphReviewStates(userId)), [state.id]: state };
+    await storeGlyphReviewStates(userId, updated);
+    return updated;
+  });
+  await enqueueSyncOperation(userId, { type: 'glyphReviews', records: [toRecord(state)] });
+
+  return states;
+};
+
+/**
+ * Reconciles local glyph review states with the server.
+ * The most recently reviewed copy of each glyph wins, and the merged result is
+ * written both locally and upstream. The merge waits for grades already being saved,
+ * so cards graded while the server responds are not overwritten.
+ * @param userId - The signed-in user's id
+ * @returns Promise<Record<string, ReviewState>> - The merged states keyed by glyph
+ */
+export const syncGlyphReviewStates = async (userId: string): Promise<Record<string, ReviewState>> => {
+  const remoteRecords = await getGlyphReviews();
+
+  const remote: Record<string, ReviewState> = {};
+  remoteRecords.forEach(record => {
+    remote[record.glyph] = fromRecord(record);
+  });
+
+  const merged = await runReviewTask(async () => {
+    const states = mergeReviewStates(await loadGlyphReviewStates(userId), remote);
+    await storeGlyphReviewStates(userId, states);
+    return states;
+  });
+  await saveGlyphReviews(Object.values(merged).map(toRecord));
+
+  return merged;
+};
+
+/**
+ * Moves flashcard progress made as a guest into a signed-in account and queues it for
+ * upload. Where both have reviewed the same glyph, the more recent schedule is kept, and
+ * only the guest schedules that were kept are uploaded.
+ * @param userId - The id of the account that now owns the progress
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestGlyphReviews = async (userId: string): Promise<boolean> => {
+  try {
+    let kept: ReviewState[] = [];
+
+    await runReviewTask(async () => {
+      const guestStates = await loadGlyphReviewStates();
+      if (Object.keys(guestStates).length === 0) return;
+
+      const merged = mergeReviewStates(await loadGlyphReviewStates(userId), guestStates);
+      await storeGlyphReviewStates(userId, merged);
+      await AsyncStorage.removeItem(getStorageKey());
+      kept = Object.values(guestStates).filter(state => merged[state.id] === state);
+    });
+
+    const records = kept.map(toRecord);
+    if (records.length > 0) {
+      await enqueueSyncOperation(userId, { type: 'glyphReviews', records });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest glyph reviews:', error);
+    return false;
+  }
+};
@@ -0,0 +1,184 @@
+/**
+ * Glyph Stroke Data
+ * How each Aurebesh letter and digraph is drawn: the centre line of every stroke, in
+ * the order and direction a learner would write it. The lines are traced from the
+ * glyph outlines in the bundled Aurebesh.otf, so they match the glyphs shown elsewhere
+ * in the app.
+ *
+ * Points are in a box one unit high with the origin at the top left and y pointing
+ * down. Widths vary by glyph, from about 0.4 for Isk to 1.34 for Cherek.
+ */
+
+import { AurebeshCharacter, findGlyph } from './aurebeshScript';
+
+/**
+ * A point on a stroke as [x, y]
+ */
+export type StrokePoint = [number, number];
+
+/**
+ * One pen-down line, from its first point to its last
+ */
+export type Stroke = StrokePoint[];
+
+/**
+ * The strokes that make up a glyph
+ */
+export interface GlyphStrokes {
+  glyph: AurebeshCharacter;
+  strokes: Stroke[];
+  /** Width of the glyph's box, where its height is 1 */
+  width: number;
+}
+
+/**
+ * Stroke centre lines keyed by the glyph's English letters
+ */
+const STROKE_DATA: Record<string, Stroke[]> = {
+  // ========== LETTERS ==========
+  A: [
+    [[0.07, 0], [0.07, 0.36], [0.79, 0.36], [1.12, 0]],
+    [[0.07, 1], [0.07, 0.64], [0.79, 0.64], [1.12, 1]],
+  ],
+  B: [
+    [[0.09, 0.29], [0.3, 0.07], [0.91, 0.07], [1.12, 0.29]],
+    [[0.21, 0.5], [1, 0.5]],
+    [[0.09, 0.71], [0.3, 0.93], [0.91, 0.93], [1.12, 0.71]],
+  ],
+  C: [
+    [[0.07, 0], [0.07, 0.66]],
+    [[0.35, 0.34], [0.35, 0.66]],
+    [[0.62, 0.34], [0.62, 1]],
+  ],
+  D: [
+    [[0, 0.07], [0.88, 0.07], [0.3, 1]],
+    [[0.14, 0.5], [0.59, 0.5]],
+  ],
+  E: [
+    [[0.08, 0], [0.42, 0.97], [0.74, 0.07], [1.1, 0.07]],
+    [[0.9, 0.07], [0.9, 1]],
+  ],
+  F: [
+    [[0.55, 0], [0.55, 0.93]],
+    [[0.07, 0.5], [0.07, 0.93], [1.1, 0.93]],
+    [[0.07, 0.5], [0.45, 0.49], [0.62, 0.46], [0.83, 0.38], [1, 0.25], [1.1, 0.15]],
+  ],
+  G: [
+    [[0.07, 0], [0.07, 0.93], [0.74, 0.93], [1.13, 0.07], [0.35, 0.07], [0.35, 0.28]],
+  ],
+  H: [
+    [[0, 0.07], [0.97, 0.07]],
+    [[0.14, 0.5], [0.83, 0.5]],
+    [[0, 0.93], [0.97, 0.93]],
+  ],
+  I: [
+    [[0.04, 0.26], [0.31, 0.04], [0.31, 1]],
+  ],
+  J: [
+    [[0, 0.5], [0.25, 0.5], [0.45, 0.47], [0.62, 0.4], [0.76, 0.3], [0.88, 0.17], [1.01, 0.03], [0.6, 0.93], [0, 0.93]],
+  ],
+  K: [
+    [[0.07, 0.31], [0.07, 0.2], [0.17, 0.07], [1.07, 0.07], [1.17, 0.2], [1.17, 0.8], [1.07, 0.93], [0.17, 0.93], [0.07, 0.8], [0.07, 0.69]],
+  ],
+  L: [
+    [[0.05, 0.42], [0.9, 0.97], [0.9, 0]],
+  ],
+  M: [
+    [[0.93, 0.07], [0.5, 0.07], [0.12, 0.93], [0.93, 0.93]],
+  ],
+  N: [
+    [[0.24, 0.07], [0.12, 0.12], [0.07, 0.3], [0.07, 0.7], [0.12, 0.88], [0.24, 0.93], [0.37, 0.93], [0.69, 0.05], [1.03, 1]],
+  ],
+  O: [
+    [[0.43, 0.07], [0.92, 0.07], [1.28, 0.93], [0.1, 0.93], [0.43, 0.07]],
+  ],
+  P: [
+    [[0.31, 0.31], [0.31, 0.07], [0.17, 0.07], [0.07, 0.2], [0.07, 0.8], [0.17, 0.93], [0.9, 0.93], [0.9, 0]],
+  ],
+  Q: [
+    [[1.03, 0.31], [1.03, 0.2], [0.93, 0.07], [0.17, 0.07], [0.07, 0.2], [0.07, 0.8], [0.17, 0.93], [0.55, 0.93]],
+  ],
+  R: [
+    [[0, 0.07], [0.88, 0.07], [0.3, 1]],
+  ],
+  S: [
+    [[0.15, 0], [1.03, 0.97], [1.03, 0]],
+    [[0.03, 0.64], [0.62, 0.95]],
+  ],
+  T: [
+    [[0.55, 0], [0.55, 0.92]],
+    [[0.08, 0.48], [0.55, 0.95], [1.02, 0.48]],
+  ],
+  U: [
+    [[0.07, 0], [0.07, 0.8], [0.25, 0.93], [0.9, 0.93], [1.07, 0.8], [1.07, 0.07], [0.67, 0.07], [0.5, 0.29]],
+  ],
+  V: [
+    [[0.08, 0], [0.55, 0.48], [1.02, 0]],
+    [[0.55, 0.48], [0.55, 1]],
+  ],
+  W: [
+    [[0.17, 0.07], [1.1, 0.07], [1.21, 0.2], [1.21, 0.8], [1.1, 0.93], [0.17, 0.93], [0.07, 0.8], [0.07, 0.2], [0.17, 0.07]],
+  ],
+  X: [
+    [[0.52, 0.05], [0.95, 0.93], [0.09, 0.93], [0.52, 0.05]],
+  ],
+  Y: [
+    [[0.58, 0.34], [0.45, 0.07], [0.12, 0.07], [0.55, 0.95], [1.01, 0]],
+  ],
+  Z: [
+    [[1.17, 0], [1.17, 0.93], [0.07, 0.93], [0.07, 0.72]],
+    [[1.1, 0.21], [0.45, 0.21], [0.19, 0.48]],
+  ],
+
+  // ========== DIGRAPHS ==========
+  CH: [
+    [[1.34, 0.07], [0.5, 0.07], [0.12, 0.93], [1.34, 0.93]],
+  ],
+  AE: [
+    [[1.17, 0.43], [1.17, 0.2], [1.07, 0.07], [0.17, 0.07], [0.07, 0.2], [0.07, 0.8], [0.17, 0.93], [1.07, 0.93], [1.17, 0.8], [1.17, 0.57]],
+    [[0.07, 0.5], [0.83, 0.5]],
+  ],
+  EO: [
+    [[0, 0.59], [0.2, 0.55], [0.33, 0.45], [0.4, 0.3], [0.41, 0.07], [0.83, 0.07], [0.84, 0.3], [0.91, 0.45], [1.04, 0.55], [1.24, 0.59]],
+    [[0.07, 0.91], [1.17, 0.91]],
+  ],
+  KH: [
+    [[0.17, 0.07], [1.1, 0.07], [1.21, 0.2], [1.21, 0.8], [1.1, 0.93], [0.17, 0.93], [0.07, 0.8], [0.07, 0.2], [0.17, 0.07]],
+    [[1.21, 0.5], [0.55, 0.5]],
+  ],
+  NG: [
+    [[0.07, 1], [0.07, 0.07], [0.83, 0.07]],
+    [[0.47, 0.07], [0.89, 1]],
+  ],
+  OO: [
+    [[0.12, 0], [0.9, 0], [1.02, 0.1], [1.02, 0.88], [0.9, 0.99], [0.12, 0.99], [0.01, 0.88], [0.01, 0.1], [0.12, 0]],
+  ],
+  SH: [
+    [[0.35, 0.28], [0.35, 0.07], [1.3, 0.07], [0.92, 0.93], [0.35, 0.93], [0.35, 0.72]],
+    [[0.07, 0], [0.07, 0.28]],
+    [[0.07, 0.72], [0.07, 1]],
+  ],
+  TH: [
+    [[0.07, 0], [0.07, 1]],
+    [[0.07, 0.5], [0.52, 0.5], [0.99, 1]],
+  ],
+};
+
+/**
+ * Every glyph with stroke data: the letters and the digraphs
+ */
+export const glyphStrokes: GlyphStrokes[] = Object.entries(STROKE_DATA).map(([english, strokes]) => ({
+  glyph: findGlyph(english)!,
+  strokes,
+  width: Math.max(...strokes.flat().map(([x]) => x)) + 0.07,
+}));
+
+/**
+ * Gets the strokes of a glyph
+ * @param english - The glyph's English letters, e.g. "a" or "th"
+ * @returns The glyph's strokes, or undefined for numerals and punctuation
+ */
+export const getGlyphStrokes = (english: string): GlyphStrokes | undefined => {
+  const key = english.toUpperCase();
+  return glyphStrokes.find(entry => entry.glyph.english === key);
+};
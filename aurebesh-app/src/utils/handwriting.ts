@@ -0,0 +1,216 @@
+/**
+ * Handwriting Recognition
+ * Scores a drawn glyph against the reference strokes of every letter and digraph with
+ * a $P point-cloud recognizer (Vatavu, Anthony and Wobbrock, 2012). Everything runs on
+ * the device and no training is needed.
+ *
+ * $P compares drawings as clouds of points, so stroke order, stroke direction and how
+ * a line is split into strokes don't affect the match. That suits learners, who write
+ * glyphs in whatever order feels natural. Size and position don't matter either, but
+ * proportions do, so a squashed drawing matches less well.
+ */
+
+import { AurebeshCharacter } from './aurebeshScript';
+import { GlyphStrokes, Stroke, glyphStrokes } from './glyphStrokes';
+
+/**
+ * How closely a drawing matches one glyph
+ */
+export interface GlyphMatch {
+  glyph: AurebeshCharacter;
+  /** Similarity from 0 (nothing alike) to 1 (the same shape) */
+  score: number;
+}
+
+/**
+ * Result of recognizing a drawing
+ */
+export interface HandwritingResult {
+  /** Every candidate glyph, best match first */
+  matches: GlyphMatch[];
+  /** How closely the drawing matches the glyph the learner was asked for */
+  targetScore: number;
+  /** True if the glyph asked for is the best match */
+  isCorrect: boolean;
+}
+
+interface CloudPoint {
+  x: number;
+  y: number;
+  strokeId: number;
+}
+
+/**
+ * Points each drawing and template is resampled to
+ */
+const CLOUD_SIZE = 32;
+
+/**
+ * Average distance between matched points, as a share of the glyph's size, at which
+ * the score reaches zero. Freehand drawings of the right glyph typically come in well
+ * under half of this.
+ */
+const MAX_POINT_DISTANCE = 0.125;
+
+/**
+ * Resamples strokes to a fixed number of points spaced evenly along their length
+ */
+const resample = (strokes: Stroke[], size: number): CloudPoint[] => {
+  const points: CloudPoint[] = strokes.flatMap((stroke, strokeId) =>
+    stroke.map(([x, y]) => ({ x, y, strokeId }))
+  );
+
+  let pathLength = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].strokeId === points[i - 1].strokeId) {
+      pathLength += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+  }
+  // A tap or a single point has no length to spread points along
+  if (pathLength === 0) {
+    return Array.from({ length: size }, () => ({ ...points[0] }));
+  }
+
+  const interval = pathLength / (size - 1);
+  const resampled: CloudPoint[] = [points[0]];
+  let travelled = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].strokeId !== points[i - 1].strokeId) continue;
+
+    const segment = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    if (travelled + segment >= interval && segment > 0) {
+      const t = (interval - travelled) / segment;
+      const point = {
+        x: points[i - 1].x + t * (points[i].x - points[i - 1].x),
+        y: points[i - 1].y + t * (points[i].y - points[i - 1].y),
+        strokeId: points[i].strokeId,
+      };
+      resampled.push(point);
+      // The new point starts the rest of this segment
+      points.splice(i, 0, point);
+      travelled = 0;
+    } else {
+      travelled += segment;
+    }
+  }
+  // Rounding can leave the last point out
+  while (resampled.length < size) {
+    resampled.push({ ...points[points.length - 1] });
+  }
+  return resampled.slice(0, size);
+};
+
+/**
+ * Scales a cloud to fit a unit box, keeping its proportions, and centres it on its centroid
+ */
+const normalize = (points: CloudPoint[]): CloudPoint[] => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const scale = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+
+  const scaled = points.map(point => ({
+    ...point,
+    x: (point.x - Math.min(...xs)) / scale,
+    y: (point.y - Math.min(...ys)) / scale,
+  }));
+  const centreX = scaled.reduce((sum, point) => sum + point.x, 0) / scaled.length;
+  const centreY = scaled.reduce((sum, point) => sum + point.y, 0) / scaled.length;
+  return scaled.map(point => ({ ...point, x: point.x - centreX, y: point.y - centreY }));
+};
+
+/**
+ * Turns strokes into a normalized point cloud
+ */
+const toCloud = (strokes: Stroke[]): CloudPoint[] => normalize(resample(strokes, CLOUD_SIZE));
+
+/**
+ * Greedily pairs each point of one cloud with the nearest unpaired point of the other,
+ * starting from a given point. Early pairs are weighted more, as they had more choice.
+ */
+const cloudDistance = (a: CloudPoint[], b: CloudPoint[], start: number): number => {
+  const matched = new Array(b.length).fill(false);
+  let sum = 0;
+  let i = start;
+
+  do {
+    let nearest = -1;
+    let minDistance = Infinity;
+    b.forEach((point, index) => {
+      if (matched[index]) return;
+      const distance = Math.hypot(a[i].x - point.x, a[i].y - point.y);
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = index;
+      }
+    });
+    matched[nearest] = true;
+
+    const weight = 1 - ((i - start + a.length) % a.length) / a.length;
+    sum += weight * minDistance;
+    i = (i + 1) % a.length;
+  } while (i !== start);
+
+  return sum;
+};
+
+/**
+ * $P's greedy cloud match: the best pairing from a spread of starting points, in both
+ * directions
+ */
+const greedyCloudMatch = (points: CloudPoint[], template: CloudPoint[]): number => {
+  const step = Math.floor(Math.sqrt(points.length));
+  let min = Infinity;
+  for (let i = 0; i < points.length; i += step) {
+    min = Math.min(min, cloudDistance(points, template, i), cloudDistance(template, points, i));
+  }
+  return min;
+};
+
+let templates: { glyph: AurebeshCharacter; cloud: CloudPoint[] }[] | null = null;
+
+/**
+ * Reference clouds for every glyph, built on first use
+ */
+const getTemplates = () => {
+  if (!templates) {
+    templates = glyphStrokes.map((entry: GlyphStrokes) => ({
+      glyph: entry.glyph,
+      cloud: toCloud(entry.strokes),
+    }));
+  }
+  return templates;
+};
+
+/**
+ * Recognizes a drawn glyph
+ * @param strokes - The drawing's strokes, in any coordinate space with y pointing down
+ * @param targetEnglish - The glyph the learner was asked to draw, e.g. "a" or "th"
+ * @param candidates - Glyphs to compare against, e.g. without digraphs; defaults to all
+ * @returns The matches, best first, and how the drawing compares with the target
+ */
+export const recognizeGlyph = (
+  strokes: Stroke[],
+  targetEnglish: string,
+  candidates?: AurebeshCharacter[]
+): HandwritingResult => {
+  const drawn = strokes.filter(stroke => stroke.length > 0);
+  const target = targetEnglish.toUpperCase();
+  if (drawn.length === 0) {
+    return { matches: [], targetScore: 0, isCorrect: false };
+  }
+
+  const cloud = toCloud(drawn);
+  const matches = getTemplates()
+    .filter(template => !candidates || candidates.some(glyph => glyph.english === template.glyph.english))
+    .map(template => ({
+      glyph: template.glyph,
+      score: Math.max(0, 1 - greedyCloudMatch(cloud, template.cloud) / CLOUD_SIZE / MAX_POINT_DISTANCE),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    matches,
+    targetScore: matches.find(match => match.glyph.english === target)?.score ?? 0,
+    isCorrect: matches[0]?.glyph.english === target,
+  };
+};
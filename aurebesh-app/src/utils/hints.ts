@@ -0,0 +1,196 @@
+/**
+ * Progressive Hints
+ * A ladder of hints for a practice word, each giving away more than the last: the word's
+ * length, one glyph's name, its category, more and more of its letters, and finally the
+ * whole answer. Every hint taken costs points from what the answer is worth.
+ */
+
+import { WordPair } from './dictionary';
+import {
+  AurebeshToken,
+  getCharacterInfo,
+  tokenizeAurebesh,
+  tokensToGlyphs,
+} from './aurebeshTranslator';
+
+/**
+ * The kinds of hint, in the order they are given
+ */
+export type HintTier = 'length' | 'glyph' | 'category' | 'letters' | 'answer';
+
+/**
+ * One step of the hint ladder
+ */
+export interface Hint {
+  tier: HintTier;
+  /** Points taken off the answer for using this hint */
+  cost: number;
+  text: string;
+  /** Glyphs shown after the text in the Aurebesh font, for hints about a written answer */
+  glyphs?: string;
+}
+
+/**
+ * Script the answer is given in: English on the Read screen, Aurebesh on the Write screen
+ */
+export type AnswerScript = 'english' | 'aurebesh';
+
+/**
+ * Points a correct answer is worth with no hints, per word for phrases
+ */
+export const ANSWER_POINTS = 10;
+
+/**
+ * Points each hint costs. Revealing the answer costs everything it was worth, so its
+ * cost is per word, like the points.
+ */
+export const HINT_COSTS: Record<HintTier, number> = {
+  length: 1,
+  glyph: 2,
+  category: 1,
+  letters: 1,
+  answer: ANSWER_POINTS,
+};
+
+/**
+ * Most letter hints per word, so long phrases don't take dozens of taps to work through
+ */
+const MAX_LETTER_HINTS = 3;
+
+const isGlyph = (token: AurebeshToken) => token.type !== 'space';
+
+/**
+ * Shows the first letters of an answer, with underscores for the rest and spaces kept
+ */
+const maskLetters = (english: string, revealed: number): string => {
+  let shown = 0;
+  return english
+    .split('')
+    .map(char => {
+      if (char === ' ') return ' ';
+      shown++;
+      return shown <= revealed ? char.toUpperCase() : '_';
+    })
+    .join('');
+};
+
+/**
+ * Counts the glyphs in each word of a tokenized answer
+ */
+const countGlyphsPerWord = (tokens: AurebeshToken[]): number[] => {
+  const counts: number[] = [];
+  let current = 0;
+  tokens.forEach(token => {
+    if (isGlyph(token)) {
+      current++;
+    } else if (current > 0) {
+      counts.push(current);
+      current = 0;
+    }
+  });
+  if (current > 0) counts.push(current);
+  return counts;
+};
+
+/**
+ * Hint revealing the number of letters (or glyphs) in each word
+ */
+const getLengthHint = (english: string, tokens: AurebeshToken[], script: AnswerScript): Hint => {
+  const unit = script === 'english' ? 'letters' : 'glyphs';
+  const words = english.split(' ').filter(Boolean);
+  const counts = script === 'english' ? words.map(word => word.length) : countGlyphsPerWord(tokens);
+  const text = counts.length > 1
+    ? `${counts.length} words of ${counts.join(', ')} ${unit}`
+    : `${counts[0] ?? 0} ${unit}`;
+  return { tier: 'length', cost: HINT_COSTS.length, text };
+};
+
+/**
+ * Hint naming the glyph in the middle of the word, where it gives the least away
+ */
+const getGlyphHint = (tokens: AurebeshToken[]): Hint | null => {
+  const glyphs = tokens.filter(isGlyph);
+  const letters = glyphs.filter(token => token.type === 'letter' || token.type === 'digraph');
+  const candidates = letters.length > 0 ? letters : glyphs;
+  if (candidates.length === 0) return null;
+
+  const token = candidates[Math.floor(candidates.length / 2)];
+  const character = getCharacterInfo(token.english);
+  if (!character) return null;
+  const position = glyphs.indexOf(token) + 1;
+  return { tier: 'glyph', cost: HINT_COSTS.glyph, text: `Glyph ${position} is ${character.name}` };
+};
+
+/**
+ * Hints revealing more and more of the answer from the start
+ */
+const getLetterHints = (english: string, tokens: AurebeshToken[], script: AnswerScript): Hint[] => {
+  const total = script === 'english' ? english.replace(/ /g, '').length : tokens.filter(isGlyph).length;
+  const steps = Math.min(total - 1, MAX_LETTER_HINTS);
+  const hints: Hint[] = [];
+  for (let step = 1; step <= steps; step++) {
+    const revealed = Math.max(step, Math.floor((total * step) / (steps + 1)));
+    if (script === 'english') {
+      hints.push({ tier: 'letters', cost: HINT_COSTS.letters, text: maskLetters(english, revealed) });
+    } else {
+      // Count glyphs only, so the spaces between words come along for free
+      let end = 0;
+      for (let seen = 0; seen < revealed; end++) {
+        if (isGlyph(tokens[end])) seen++;
+      }
+      hints.push({
+        tier: 'letters',
+        cost: HINT_COSTS.letters,
+        text: `First ${revealed} of ${total} glyphs:`,
+        glyphs: tokensToGlyphs(tokens.slice(0, end)),
+      });
+    }
+  }
+  return hints;
+};
+
+/**
+ * Builds the hints for a word, in the order they are given
+ * @param word - The word or phrase being practised
+ * @param script - Script the answer is given in
+ * @param options - Whether digraphs are written with their own glyphs
+ * @returns The hint ladder, ending with the answer itself
+ */
+export const buildHintLadder = (
+  word: WordPair,
+  script: AnswerScript,
+  options: { useDigraphs: boolean }
+): Hint[] => {
+  const english = word.english.trim();
+  const tokens = tokenizeAurebesh(english, options);
+  const glyphHint = getGlyphHint(tokens);
+  const category = word.category.charAt(0).toUpperCase() + word.category.slice(1);
+  const answerCost = HINT_COSTS.answer * Math.max(1, english.split(' ').filter(Boolean).length);
+
+  return [
+    getLengthHint(english, tokens, script),
+    ...(glyphHint ? [glyphHint] : []),
+    { tier: 'category', cost: HINT_COSTS.category, text: `Category: ${category}` },
+    ...getLetterHints(english, tokens, script),
+    script === 'english'
+      ? { tier: 'answer', cost: answerCost, text: `Answer: ${english}` }
+      : { tier: 'answer', cost: answerCost, text: 'Answer:', glyphs: tokensToGlyphs(tokens) },
+  ];
+};
+
+/**
+ * Total cost of the hints taken so far
+ * @param hints - The word's hint ladder
+ * @param hintsShown - How many hints have been taken
+ */
+export const getHintCost = (hints: Hint[], hintsShown: number): number =>
+  hints.slice(0, hintsShown).reduce((total, hint) => total + hint.cost, 0);
+
+/**
+ * Gets the points earned for an answer after hint costs
+ * @param wordsCorrect - Words answered correctly (1 for a single word)
+ * @param hintCost - Total cost of the hints taken
+ * @returns Points earned, never below zero
+ */
+export const getAnswerPoints = (wordsCorrect: number, hintCost: number): number =>
+  Math.max(0, wordsCorrect * ANSWER_POINTS - hintCost);
@@ -20,6 +20,26 @@ const isSupabaseAvailable = (): boolean => {
   return supabase !== null;
 };
 
+/**
+ * Whether learning data can be saved to Supabase at all, so callers can avoid
+ * queueing uploads that could never succeed
+ */
+export const isLearningDatabaseConfigured = (): boolean => isSupabaseAvailable();
+
+/**
+ * Outcome of an upload: saved, failed for now (offline, signed out, an expired token) and
+ * worth retrying, or rejected by the database and never going to succeed as sent
+ */
+export type UploadResult = 'saved' | 'retry' | 'rejected';
+
+/**
+ * Whether a Supabase error means the database refused the data itself: SQL data,
+ * constraint and schema errors (a CHECK that fails, a table that was never created), or
+ * PostgREST request and schema cache errors. Network and auth errors can be retried.
+ */
+const isRejectedByDatabase = (error: { code?: string } | null): boolean =>
+  !!error?.code && /^(22|23|42|PGRST1|PGRST2)/.test(error.code);
+
 /**
  * Interface for a learning session record
  */
@@ -34,10 +54,21 @@ export interface LearningSession {
   max_streak: number;
   final_score: number;
   session_duration_seconds?: number;
+  /** How the session was played; sessions saved before modes existed are 'practice' */
+  mode?: SessionMode;
+  /** Hints taken during the session */
+  hints_used?: number;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * How a session was played. Blitz rounds are timed and scored separately, and flashcard
+ * reviews are self-graded, so both are kept out of the learning statistics. Listening,
+ * writing and multiple-choice drills count like practice.
+ */
+export type SessionMode = 'practice' | 'blitz' | 'listen' | 'write' | 'flashcard' | 'choice';
+
 /**
  * Interface for learning statistics
  */
@@ -61,12 +92,133 @@ export interface LearningStatistics {
  * Interface for session summary (used during active learning)
  */
 export interface SessionSummary {
+  /** The session's id, shared by the answers given during it */
+  id?: string;
   difficulty: 'easy' | 'medium' | 'hard';
   questionsAttempted: number;
   questionsCorrect: number;
   maxStreak: number;
   score: number;
   startTime: Date;
+  /** When the session ended; defaults to now when the session is saved */
+  endTime?: Date;
+  /** How the session was played (default: 'practice') */
+  mode?: SessionMode;
+  /** Hints taken during the session (default: 0) */
+  hintsUsed?: number;
+}
+
+/**
+ * Interface for the raw learning_statistics row, used to reconcile offline progress
+ */
+export interface LearningStatisticsRecord {
+  total_sessions: number;
+  total_questions_attempted: number;
+  total_questions_correct: number;
+  best_streak: number;
+  current_streak: number;
+  best_score: number;
+  total_time_spent_seconds: number;
+  easy_questions_correct: number;
+  medium_questions_correct: number;
+  hard_questions_correct: number;
+  easy_questions_attempted: number;
+  medium_questions_attempted: number;
+  hard_questions_attempted: number;
+  first_session_date: string | null;
+  last_session_date: string | null;
+}
+
+/**
+ * Practice modes that record individual answers. Blitz answers are kept apart from Read
+ * so timed, hint-free answers don't skew Read analytics.
+ */
+export type LearningMode = 'read' | 'write' | 'flashcard' | 'choice' | 'listen' | 'blitz';
+
+/**
+ * Interface for a single answer given during practice
+ */
+export interface LearningAttempt {
+  id?: string;
+  user_id?: string;
+  session_id?: string | null;
+  mode: LearningMode;
+  prompt: string;
+  expected_answer: string;
+  given_answer: string;
+  is_correct: boolean;
+  hint_used: boolean;
+  answer_revealed: boolean;
+  response_time_ms: number;
+  created_at?: string;
+}
+
+/**
+ * Interface for one day of the practice calendar (from get_user_practice_calendar)
+ */
+export interface PracticeCalendarDay {
+  /** The day in the user's time zone, as YYYY-MM-DD */
+  practice_date: string;
+  minutes_practiced: number;
+  session_count: number;
+}
+
+/**
+ * Filters for querying learning attempts
+ */
+export interface LearningAttemptQuery {
+  mode?: LearningMode;
+  sessionId?: string;
+  /** Only attempts made at or after this ISO timestamp */
+  since?: string;
+  /** Only attempts made at or before this ISO timestamp */
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Interface for a glyph's spaced-repetition state (flashcard scheduling)
+ */
+export interface GlyphReviewRecord {
+  id?: string;
+  user_id?: string;
+  glyph: string;
+  ease: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Optional details of a word in a custom deck
+ */
+export interface CustomWordDetails {
+  difficulty?: 'easy' | 'medium' | 'hard';
+  category?: string;
+  notes?: string;
+}
+
+/**
+ * Interface for a user-created deck of practice words
+ */
+export interface CustomDeckRecord {
+  id?: string;
+  user_id?: string;
+  /** Id the deck was given on the device that created it */
+  deck_id: string;
+  name: string;
+  /** English words in the deck */
+  words: string[];
+  /** Imported difficulty, category and notes, keyed by English word */
+  details?: Record<string, CustomWordDetails>;
+  /** Deleted decks are kept so the deletion reaches other devices */
+  is_deleted: boolean;
+  updated_at: string;
+  created_at?: string;
 }
 
 /**
@@ -188,11 +340,8 @@ export const getUserLearningStatistics = async (): Promise<LearningStatistics |
       return null;
     }
 
-    console.log('Raw database response:', data);
     // Return the first (and only) row, or null if no data
-    const result = data && data.length > 0 ? data[0] : null;
-    console.log('Processed learning statistics:', result);
-    return result;
+    return data && data.length > 0 ? data[0] : null;
   } catch (error) {
     console.error('Error fetching learning statistics:', error);
     return null;
@@ -235,64 +384,191 @@ export const getRecentLearningSessions = async (limit: number = 10): Promise<Lea
   }
 };
 
+/**
+ * Gets minutes practised per day, grouped by day in the given time zone
+ * @param timeZone - IANA time zone of the device, e.g. "Europe/London"
+ * @param startDate - First day to include, as YYYY-MM-DD
+ * @returns Promise<PracticeCalendarDay[]> - Days with practice, oldest first
+ */
+export const getPracticeCalendar = async (
+  timeZone: string,
+  startDate: string
+): Promise<PracticeCalendarDay[]> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - returning empty practice calendar');
+      return [];
+    }
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase.rpc('get_user_practice_calendar', {
+      target_user_id: user.user.id,
+      user_time_zone: timeZone,
+      start_date: startDate,
+    });
+
+    if (error) {
+      console.error('Error fetching practice calendar:', error);
+      return [];
+    }
+
+    return (data || []).map((day: PracticeCalendarDay) => ({
+      ...day,
+      minutes_practiced: Number(day.minutes_practiced),
+    }));
+  } catch (error) {
+    console.error('Error fetching practice calendar:', error);
+    return [];
+  }
+};
+
 /**
  * Saves a complete learning session directly (simplified version)
  * This saves the session in one operation with all final data
  * @param sessionSummary - The complete session data
- * @returns Promise<boolean> - Success status
+ * @returns Promise<UploadResult> - Whether it was saved, can be retried or was rejected
  */
-export const saveCompleteLearningSession = async (sessionSummary: SessionSummary): Promise<boolean> => {
+export const saveCompleteLearningSession = async (sessionSummary: SessionSummary): Promise<UploadResult> => {
   try {
     if (!isSupabaseAvailable()) {
       console.warn('Supabase not configured - session not saved');
-      return false;
+      return 'retry';
     }
 
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) {
       console.error('No authenticated user found');
-      return false;
+      return 'retry';
     }
 
+    const endTime = sessionSummary.endTime ?? new Date();
     const sessionStart = sessionSummary.startTime.toISOString();
-    const sessionEnd = new Date().toISOString();
-    const sessionDuration = Math.floor((new Date().getTime() - sessionSummary.startTime.getTime()) / 1000);
+    const sessionEnd = endTime.toISOString();
+    const sessionDuration = Math.floor((endTime.getTime() - sessionSummary.startTime.getTime()) / 1000);
 
-    console.log('Saving session with data:', {
+    // Save complete session in one operation. A session with an id may already have a row,
+    // uploaded with its first answers, so that row is brought up to date instead.
+    const row = {
+      ...(sessionSummary.id ? { id: sessionSummary.id } : {}),
+      user_id: user.user.id,
+      session_start: sessionStart,
+      session_end: sessionEnd,
       difficulty: sessionSummary.difficulty,
       questions_attempted: sessionSummary.questionsAttempted,
       questions_correct: sessionSummary.questionsCorrect,
       max_streak: sessionSummary.maxStreak,
       final_score: sessionSummary.score,
-      session_duration_seconds: sessionDuration
-    });
+      session_duration_seconds: sessionDuration,
+      mode: sessionSummary.mode ?? 'practice',
+      hints_used: sessionSummary.hintsUsed ?? 0,
+    };
+    const { error } = sessionSummary.id
+      ? await supabase.from('learning_sessions').upsert(row, { onConflict: 'id' })
+      : await supabase.from('learning_sessions').insert(row);
+
+    if (error) {
+      console.error('Error saving complete learning session:', error);
+      return isRejectedByDatabase(error) ? 'rejected' : 'retry';
+    }
+
+    return 'saved';
+  } catch (error) {
+    console.error('Error saving complete learning session:', error);
+    return 'retry';
+  }
+};
+
+/**
+ * Gets the user's raw statistics row
+ * @returns Promise<LearningStatisticsRecord | null> - The row (all zeros if the user has none yet), or null if failed
+ */
+export const getUserStatisticsRecord = async (): Promise<LearningStatisticsRecord | null> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - returning null statistics record');
+      return null;
+    }
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return null;
+    }
 
-    // Save complete session in one operation
     const { data, error } = await supabase
-      .from('learning_sessions')
-      .insert({
-        user_id: user.user.id,
-        session_start: sessionStart,
-        session_end: sessionEnd,
-        difficulty: sessionSummary.difficulty,
-        questions_attempted: sessionSummary.questionsAttempted,
-        questions_correct: sessionSummary.questionsCorrect,
-        max_streak: sessionSummary.maxStreak,
-        final_score: sessionSummary.score,
-        session_duration_seconds: sessionDuration,
-      })
-      .select('id')
-      .single();
+      .from('learning_statistics')
+      .select('*')
+      .eq('user_id', user.user.id)
+      .maybeSingle();
 
     if (error) {
-      console.error('Error saving complete learning session:', error);
+      console.error('Error fetching statistics record:', error);
+      return null;
+    }
+
+    return {
+      total_sessions: data?.total_sessions ?? 0,
+      total_questions_attempted: data?.total_questions_attempted ?? 0,
+      total_questions_correct: data?.total_questions_correct ?? 0,
+      best_streak: data?.best_streak ?? 0,
+      current_streak: data?.current_streak ?? 0,
+      best_score: data?.best_score ?? 0,
+      total_time_spent_seconds: data?.total_time_spent_seconds ?? 0,
+      easy_questions_correct: data?.easy_questions_correct ?? 0,
+      medium_questions_correct: data?.medium_questions_correct ?? 0,
+      hard_questions_correct: data?.hard_questions_correct ?? 0,
+      easy_questions_attempted: data?.easy_questions_attempted ?? 0,
+      medium_questions_attempted: data?.medium_questions_attempted ?? 0,
+      hard_questions_attempted: data?.hard_questions_attempted ?? 0,
+      first_session_date: data?.first_session_date ?? null,
+      last_session_date: data?.last_session_date ?? null,
+    };
+  } catch (error) {
+    console.error('Error fetching statistics record:', error);
+    return null;
+  }
+};
+
+/**
+ * Writes the user's complete statistics row, creating it if needed
+ * @param record - The statistics to store
+ * @returns Promise<boolean> - Success status
+ */
+export const saveUserStatisticsRecord = async (record: LearningStatisticsRecord): Promise<boolean> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - statistics record not saved');
+      return false;
+    }
+
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('learning_statistics')
+      .upsert(
+        {
+          ...record,
+          user_id: user.user.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error saving statistics record:', error);
       return false;
     }
 
-    console.log('Successfully saved session with ID:', data?.id);
     return true;
   } catch (error) {
-    console.error('Error saving complete learning session:', error);
+    console.error('Error saving statistics record:', error);
     return false;
   }
 };
@@ -342,7 +618,6 @@ export const updateUserStatistics = async (updates: {
       }
       if (updates.current_streak !== undefined) {
         // Update both current_streak and best_streak
-        console.log('Updating current_streak in database:', updates.current_streak);
         updateData.current_streak = updates.current_streak;
         updateData.best_streak = Math.max(existing.best_streak || 0, updates.current_streak);
       }
@@ -365,8 +640,6 @@ export const updateUserStatistics = async (updates: {
         console.error('Update data was:', updateData);
         return false;
       }
-
-      console.log('✅ Successfully updated user statistics in database with data:', updateData);
     } else {
       // Create new record
       const insertData: any = {
@@ -397,7 +670,6 @@ export const updateUserStatistics = async (updates: {
       }
     }
 
-    console.log('✅ Successfully updated user statistics in database');
     return true;
   } catch (error) {
     console.error('Error updating user statistics:', error);
@@ -405,6 +677,254 @@ export const updateUserStatistics = async (updates: {
   }
 };
 
+/**
+ * Records a single answer in the attempt log
+ * @param attempt - The attempt to record
+ * @returns Promise<UploadResult> - Whether it was saved, can be retried or was rejected
+ */
+export const recordLearningAttempt = async (attempt: LearningAttempt): Promise<UploadResult> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - attempt not recorded');
+      return 'retry';
+    }
+
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return 'retry';
+    }
+
+    // Attempts made on the device carry their own id, so uploading one twice never
+    // adds a second row
+    const { error } = await supabase
+      .from('learning_attempts')
+      .upsert({
+        ...(attempt.id ? { id: attempt.id } : {}),
+        user_id: user.user.id,
+        session_id: attempt.session_id ?? null,
+        mode: attempt.mode,
+        prompt: attempt.prompt,
+        expected_answer: attempt.expected_answer,
+        given_answer: attempt.given_answer,
+        is_correct: attempt.is_correct,
+        hint_used: attempt.hint_used,
+        answer_revealed: attempt.answer_revealed,
+        response_time_ms: attempt.response_time_ms,
+        // Keep when the answer was given, not when it was uploaded
+        ...(attempt.created_at ? { created_at: attempt.created_at } : {}),
+      }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error recording learning attempt:', error);
+      return isRejectedByDatabase(error) ? 'rejected' : 'retry';
+    }
+
+    return 'saved';
+  } catch (error) {
+    console.error('Error recording learning attempt:', error);
+    return 'retry';
+  }
+};
+
+/**
+ * Gets the user's logged answers, newest first
+ * @param query - Optional filters by mode, session and date, and a row limit (default: 100)
+ * @returns Promise<LearningAttempt[]> - Array of attempts
+ */
+export const getLearningAttempts = async (query: LearningAttemptQuery = {}): Promise<LearningAttempt[]> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - returning empty attempts');
+      return [];
+    }
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    let request = supabase
+      .from('learning_attempts')
+      .select('*')
+      .eq('user_id', user.user.id);
+
+    if (query.mode) {
+      request = request.eq('mode', query.mode);
+    }
+    if (query.sessionId) {
+      request = request.eq('session_id', query.sessionId);
+    }
+    if (query.since) {
+      request = request.gte('created_at', query.since);
+    }
+    if (query.until) {
+      request = request.lte('created_at', query.until);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? 100);
+
+    if (error) {
+      console.error('Error fetching learning attempts:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching learning attempts:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets the user's flashcard scheduling state for every glyph they have reviewed
+ * @returns Promise<GlyphReviewRecord[]> - Array of glyph review records
+ */
+export const getGlyphReviews = async (): Promise<GlyphReviewRecord[]> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - returning empty glyph reviews');
+      return [];
+    }
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('glyph_reviews')
+      .select('*')
+      .eq('user_id', user.user.id);
+
+    if (error) {
+      console.error('Error fetching glyph reviews:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching glyph reviews:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves flashcard scheduling state for one or more glyphs, replacing any existing rows
+ * @param records - The glyph review records to save
+ * @returns Promise<UploadResult> - Whether it was saved, can be retried or was rejected
+ */
+export const saveGlyphReviews = async (records: GlyphReviewRecord[]): Promise<UploadResult> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - glyph reviews not saved');
+      return 'retry';
+    }
+    if (records.length === 0) return 'saved';
+
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return 'retry';
+    }
+
+    const { error } = await supabase
+      .from('glyph_reviews')
+      .upsert(
+        records.map(record => ({
+          ...record,
+          user_id: user.user.id,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'user_id,glyph' }
+      );
+
+    if (error) {
+      console.error('Error saving glyph reviews:', error);
+      return isRejectedByDatabase(error) ? 'rejected' : 'retry';
+    }
+
+    return 'saved';
+  } catch (error) {
+    console.error('Error saving glyph reviews:', error);
+    return 'retry';
+  }
+};
+
+/**
+ * Gets the user's custom decks, including deleted ones
+ * @returns Promise<CustomDeckRecord[]> - Array of custom deck records
+ */
+export const getCustomDecks = async (): Promise<CustomDeckRecord[]> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - returning empty custom decks');
+      return [];
+    }
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('custom_decks')
+      .select('*')
+      .eq('user_id', user.user.id);
+
+    if (error) {
+      console.error('Error fetching custom decks:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching custom decks:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves one or more custom decks, replacing any existing rows.
+ * Each record keeps its own updated_at, which decides which copy wins when devices merge.
+ * @param records - The custom deck records to save
+ * @returns Promise<UploadResult> - Whether it was saved, can be retried or was rejected
+ */
+export const saveCustomDecks = async (records: CustomDeckRecord[]): Promise<UploadResult> => {
+  try {
+    if (!isSupabaseAvailable()) {
+      console.warn('Supabase not configured - custom decks not saved');
+      return 'retry';
+    }
+    if (records.length === 0) return 'saved';
+
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) {
+      console.error('No authenticated user found');
+      return 'retry';
+    }
+
+    const { error } = await supabase
+      .from('custom_decks')
+      .upsert(
+        records.map(record => ({ ...record, user_id: user.user.id })),
+        { onConflict: 'user_id,deck_id' }
+      );
+
+    if (error) {
+      console.error('Error saving custom decks:', error);
+      return isRejectedByDatabase(error) ? 'rejected' : 'retry';
+    }
+
+    return 'saved';
+  } catch (error) {
+    console.error('Error saving custom decks:', error);
+    return 'retry';
+  }
+};
+
 /**
  * Checks if the user has any learning data
  * @returns Promise<boolean> - True if user has learning data, false otherwise
@@ -504,7 +1024,16 @@ export const resetUserStatistics = async (): Promise<boolean> => {
       // Don't return false here as the stats reset was successful
     }
 
-    console.log('✅ Successfully reset user statistics and cleared sessions');
+    // And the per-answer log those sessions were built from
+    const { error: attemptsError } = await supabase
+      .from('learning_attempts')
+      .delete()
+      .eq('user_id', user.user.id);
+
+    if (attemptsError) {
+      console.error('Error deleting learning attempts:', attemptsError);
+    }
+
     return true;
   } catch (error) {
     console.error('Error resetting user statistics:', error);
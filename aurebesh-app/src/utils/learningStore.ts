@@ -0,0 +1,786 @@
+/**
+ * Offline-First Learning Store
+ * Every piece of learning progress is written to the device first, then queued for upload.
+ * The sync queue is pushed to Supabase through learningDatabase.ts whenever the device is
+ * online and the user allows data sync, so progress made offline is never lost.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createSerialQueue } from './storage';
+import {
+  CustomDeckRecord,
+  GlyphReviewRecord,
+  LearningAttempt,
+  LearningStatistics,
+  LearningStatisticsRecord,
+  LearningSession,
+  SessionSummary,
+  UploadResult,
+  getUserStatisticsRecord,
+  isLearningDatabaseConfigured,
+  recordLearningAttempt,
+  saveCompleteLearningSession,
+  saveCustomDecks,
+  saveGlyphReviews,
+  saveUserStatisticsRecord,
+} from './learningDatabase';
+
+/**
+ * Counters that only ever grow; offline progress on them is merged by adding it to the server's totals
+ */
+const COUNTER_FIELDS = [
+  'total_sessions',
+  'total_questions_attempted',
+  'total_questions_correct',
+  'total_time_spent_seconds',
+  'easy_questions_correct',
+  'medium_questions_correct',
+  'hard_questions_correct',
+  'easy_questions_attempted',
+  'medium_questions_attempted',
+  'hard_questions_attempted',
+] as const;
+
+type CounterField = typeof COUNTER_FIELDS[number];
+
+/**
+ * Progress on the counters made on this device since they were last synced
+ */
+type StatisticsDelta = Record<CounterField, number>;
+
+/**
+ * Everything the store keeps on the device for one user
+ */
+interface LocalLearningData {
+  statistics: LearningStatisticsRecord;
+  unsyncedDelta: StatisticsDelta;
+  sessions: LearningSession[];
+  attempts: LearningAttempt[];
+}
+
+/**
+ * An upload waiting in the sync queue
+ */
+export type SyncOperation =
+  | { type: 'session'; session: LearningSession }
+  | { type: 'attempt'; attempt: LearningAttempt }
+  | { type: 'glyphReviews'; records: GlyphReviewRecord[] }
+  | { type: 'customDecks'; records: CustomDeckRecord[] };
+
+interface QueuedSyncOperation {
+  id: string;
+  userId: string;
+  queuedAt: string;
+  operation: SyncOperation;
+}
+
+/**
+ * An upload the database refused, kept on the device so it isn't lost without a trace
+ */
+interface RejectedSyncOperation extends QueuedSyncOperation {
+  rejectedAt: string;
+}
+
+const LEARNING_DATA_KEY_PREFIX = '@aurebesh_learning_progress_';
+const SYNC_QUEUE_KEY = '@aurebesh_sync_queue_progress';
+const REJECTED_SYNC_KEY = '@aurebesh_sync_rejected_progress';
+
+/**
+ * Caps that keep on-device history bounded; the server keeps the full history
+ */
+const MAX_LOCAL_SESSIONS = 200;
+const MAX_LOCAL_ATTEMPTS = 2000;
+const MAX_QUEUE_LENGTH = 2000;
+const MAX_REJECTED_LENGTH = 200;
+
+const runStoreTask = createSerialQueue();
+const runQueueTask = createSerialQueue();
+
+const queueListeners = new Set<() => void>();
+let isProcessingQueue = false;
+
+/**
+ * Sessions whose row has been queued for upload, keyed by user and session id. A session's
+ * row is queued with its first answer, so each answer can be queued as soon as it is given.
+ */
+const queuedSessionKeys = new Set<string>();
+
+const createEmptyDelta = (): StatisticsDelta => ({
+  total_sessions: 0,
+  total_questions_attempted: 0,
+  total_questions_correct: 0,
+  total_time_spent_seconds: 0,
+  easy_questions_correct: 0,
+  medium_questions_correct: 0,
+  hard_questions_correct: 0,
+  easy_questions_attempted: 0,
+  medium_questions_attempted: 0,
+  hard_questions_attempted: 0,
+});
+
+const createEmptyData = (): LocalLearningData => ({
+  statistics: {
+    ...createEmptyDelta(),
+    best_streak: 0,
+    current_streak: 0,
+    best_score: 0,
+    first_session_date: null,
+    last_session_date: null,
+  },
+  unsyncedDelta: createEmptyDelta(),
+  sessions: [],
+  attempts: [],
+});
+
+const getDataKey = (userId?: string): string => `${LEARNING_DATA_KEY_PREFIX}${userId ?? 'local'}`;
+
+/**
+ * Loads a user's learning data from the device
+ */
+const loadData = async (userId?: string): Promise<LocalLearningData> => {
+  try {
+    const stored = await AsyncStorage.getItem(getDataKey(userId));
+    return stored ? { ...createEmptyData(), ...JSON.parse(stored) } : createEmptyData();
+  } catch (error) {
+    console.error('Error loading local learning data:', error);
+    return createEmptyData();
+  }
+};
+
+/**
+ * Saves a user's learning data to the device
+ */
+const storeData = async (userId: string | undefined, data: LocalLearningData): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(getDataKey(userId), JSON.stringify(data));
+  } catch (error) {
+    console.error('Error saving local learning data:', error);
+  }
+};
+
+/**
+ * Loads, changes and saves a user's learning data as one uninterrupted step
+ */
+const updateData = (
+  userId: string | undefined,
+  update: (data: LocalLearningData) => void
+): Promise<LocalLearningData> =>
+  runStoreTask(async () => {
+    const data = await loadData(userId);
+    update(data);
+    await storeData(userId, data);
+    return data;
+  });
+
+/**
+ * Adds progress to the local statistics and remembers it as not yet synced
+ */
+const addToCounters = (data: LocalLearningData, delta: Partial<StatisticsDelta>) => {
+  (Object.keys(delta) as CounterField[]).forEach(field => {
+    const amount = delta[field] ?? 0;
+    data.statistics[field] += amount;
+    data.unsyncedDelta[field] += amount;
+  });
+};
+
+const laterDate = (a: string | null, b: string | null): string | null =>
+  !a ? b : !b ? a : new Date(a) > new Date(b) ? a : b;
+
+const earlierDate = (a: string | null, b: string | null): string | null =>
+  !a ? b : !b ? a : new Date(a) < new Date(b) ? a : b;
+
+/**
+ * Derives the accuracy figures shown in the app from raw statistics
+ */
+const toLearningStatistics = (record: LearningStatisticsRecord): LearningStatistics => {
+  const accuracy = (correct: number, attempted: number) =>
+    attempted > 0 ? Math.round((correct / attempted) * 10000) / 100 : 0;
+
+  return {
+    total_sessions: record.total_sessions,
+    total_questions_attempted: record.total_questions_attempted,
+    total_questions_correct: record.total_questions_correct,
+    accuracy_percentage: accuracy(record.total_questions_correct, record.total_questions_attempted),
+    best_streak: record.best_streak,
+    current_streak: record.current_streak,
+    best_score: record.best_score,
+    total_time_spent_seconds: record.total_time_spent_seconds,
+    easy_accuracy: accuracy(record.easy_questions_correct, record.easy_questions_attempted),
+    medium_accuracy: accuracy(record.medium_questions_correct, record.medium_questions_attempted),
+    hard_accuracy: accuracy(record.hard_questions_correct, record.hard_questions_attempted),
+    first_session_date: record.first_session_date ?? undefined,
+    last_session_date: record.last_session_date ?? undefined,
+  };
+};
+
+/**
+ * Gets the user's statistics from the device, including progress not yet synced
+ * @param userId - The signed-in user's id
+ * @returns Promise<LearningStatistics> - The user's statistics
+ */
+export const getLocalStatistics = async (userId?: string): Promise<LearningStatistics> => {
+  const data = await loadData(userId);
+  return toLearningStatistics(data.statistics);
+};
+
+/**
+ * Records answers given on a practice screen
+ * @param userId - The signed-in user's id
+ * @param updates - Questions attempted and answered correctly since the last call,
+ *                  the current streak, and the difficulty they were answered at
+ * @returns Promise<boolean> - Success status
+ */
+export const recordLocalStatistics = async (
+  userId: string | undefined,
+  updates: {
+    questions_attempted?: number;
+    questions_correct?: number;
+    current_streak?: number;
+    difficulty?: 'easy' | 'medium' | 'hard';
+  }
+): Promise<boolean> => {
+  try {
+    await updateData(userId, data => {
+      const attemptedDelta = Math.max(0, updates.questions_attempted ?? 0);
+      const correctDelta = Math.max(0, updates.questions_correct ?? 0);
+
+      const delta: Partial<StatisticsDelta> = {
+        total_questions_attempted: attemptedDelta,
+        total_questions_correct: correctDelta,
+      };
+      if (updates.difficulty) {
+        delta[`${updates.difficulty}_questions_attempted`] = attemptedDelta;
+        delta[`${updates.difficulty}_questions_correct`] = correctDelta;
+      }
+      addToCounters(data, delta);
+
+      if (updates.current_streak !== undefined) {
+        data.statistics.current_streak = updates.current_streak;
+        data.statistics.best_streak = Math.max(data.statistics.best_streak, updates.current_streak);
+      }
+
+      const now = new Date().toISOString();
+      data.statistics.first_session_date = data.statistics.first_session_date ?? now;
+      data.statistics.last_session_date = now;
+    });
+    return true;
+  } catch (error) {
+    console.error('Error recording local statistics:', error);
+    return false;
+  }
+};
+
+/**
+ * Creates the id for a record made on the device, so uploading it twice never adds a second row
+ * @returns string - A random version 4 UUID
+ */
+const createClientId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+/**
+ * Creates the id for a new practice session, so answers can be tied to it as they are given
+ * @returns string - A random version 4 UUID
+ */
+export const createSessionId = (): string => createClientId();
+
+const getSessionKey = (userId: string | undefined, sessionId: string): string =>
+  `${userId ?? 'local'}:${sessionId}`;
+
+/**
+ * Converts a session summary into the stored session row
+ */
+const toLearningSession = (sessionSummary: SessionSummary): LearningSession => {
+  const endTime = sessionSummary.endTime ?? new Date();
+  return {
+    id: sessionSummary.id,
+    session_start: sessionSummary.startTime.toISOString(),
+    session_end: endTime.toISOString(),
+    difficulty: sessionSummary.difficulty,
+    questions_attempted: sessionSummary.questionsAttempted,
+    questions_correct: sessionSummary.questionsCorrect,
+    max_streak: sessionSummary.maxStreak,
+    final_score: sessionSummary.score,
+    session_duration_seconds: Math.floor(
+      (endTime.getTime() - sessionSummary.startTime.getTime()) / 1000
+    ),
+    mode: sessionSummary.mode ?? 'practice',
+    hints_used: sessionSummary.hintsUsed ?? 0,
+  };
+};
+
+/**
+ * Records a finished practice session on the device and queues it for upload. A session
+ * whose row was already queued with its answers has that row brought up to date; any
+ * other is queued followed by the answers given during it.
+ * @param userId - The signed-in user's id
+ * @param sessionSummary - The complete session data
+ * @returns Promise<boolean> - Success status
+ */
+export const recordLocalSession = async (
+  userId: string | undefined,
+  sessionSummary: SessionSummary
+): Promise<boolean> => {
+  try {
+    const session = toLearningSession(sessionSummary);
+    const sessionKey = session.id ? getSessionKey(userId, session.id) : null;
+    const isRowQueued = !!sessionKey && queuedSessionKeys.has(sessionKey);
+    if (sessionKey) queuedSessionKeys.delete(sessionKey);
+
+    let sessionAttempts: LearningAttempt[] = [];
+    let isAlreadyRecorded = false;
+    await updateData(userId, data => {
+      // A screen may save the same session twice when it is left just after going to the background
+      if (session.id && data.sessions.some(saved => saved.id === session.id)) {
+        isAlreadyRecorded = true;
+        return;
+      }
+      data.sessions = [session, ...data.sessions].slice(0, MAX_LOCAL_SESSIONS);
+      if (session.id && !isRowQueued) {
+        sessionAttempts = data.attempts.filter(attempt => attempt.session_id === session.id).reverse();
+      }
+
+      // Blitz rounds and flashcard reviews are kept in the session history only, not the statistics
+      if (session.mode === 'blitz' || session.mode === 'flashcard') return;
+
+      // Question counts already arrive through recordLocalStatistics
+      addToCounters(data, {
+        total_sessions: 1,
+        total_time_spent_seconds: session.session_duration_seconds ?? 0,
+      });
+      data.statistics.best_score = Math.max(data.statistics.best_score, session.final_score);
+      data.statistics.first_session_date = earlierDate(data.statistics.first_session_date, session.session_start);
+      data.statistics.last_session_date = laterDate(data.statistics.last_session_date, session.session_start);
+    });
+
+    if (isAlreadyRecorded) return true;
+
+    // The session row must exist before the answers that reference it
+    await enqueueSyncOperations(userId, [
+      { type: 'session', session },
+      ...sessionAttempts.map(attempt => ({ type: 'attempt' as const, attempt })),
+    ]);
+    return true;
+  } catch (error) {
+    console.error('Error recording local session:', error);
+    return false;
+  }
+};
+
+/**
+ * Records a single answer on the device and queues it for upload straight away.
+ * The first answer queued for a session is preceded by the session's row as it stands so
+ * far, along with any earlier answers from it, so the row the answers point at exists.
+ * Without the session, answers that belong to one wait until the session is recorded.
+ * @param userId - The signed-in user's id
+ * @param attempt - The attempt to record
+ * @param session - The session the answer was given in, with its totals so far
+ * @returns Promise<boolean> - Success status
+ */
+export const recordLocalAttempt = async (
+  userId: string | undefined,
+  attempt: LearningAttempt,
+  session?: SessionSummary
+): Promise<boolean> => {
+  try {
+    const timestamped: LearningAttempt = {
+      ...attempt,
+      id: attempt.id ?? createClientId(),
+      created_at: attempt.created_at ?? new Date().toISOString(),
+    };
+
+    // Claimed before any await, so answers given in quick succession queue the row once
+    const sessionKey = timestamped.session_id ? getSessionKey(userId, timestamped.session_id) : null;
+    const isRowQueued = !!sessionKey && queuedSessionKeys.has(sessionKey);
+    const queuesRow = !!sessionKey && !isRowQueued && !!session && !!userId;
+    if (queuesRow) queuedSessionKeys.add(sessionKey);
+
+    let earlierAttempts: LearningAttempt[] = [];
+    await updateData(userId, data => {
+      if (queuesRow) {
+        earlierAttempts = data.attempts.filter(earlier => earlier.session_id === timestamped.session_id).reverse();
+      }
+      data.attempts = [timestamped, ...data.attempts].slice(0, MAX_LOCAL_ATTEMPTS);
+    });
+
+    if (queuesRow && session) {
+      await enqueueSyncOperations(userId, [
+        { type: 'session', session: toLearningSession(session) },
+        ...earlierAttempts.map(earlier => ({ type: 'attempt' as const, attempt: earlier })),
+        { type: 'attempt', attempt: timestamped },
+      ]);
+    } else if (!sessionKey || isRowQueued) {
+      await enqueueSyncOperation(userId, { type: 'attempt', attempt: timestamped });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error recording local attempt:', error);
+    return false;
+  }
+};
+
+/**
+ * Gets the user's most recent sessions stored on the device
+ * @param userId - The signed-in user's id
+ * @param limit - Maximum number of sessions to return (default: 10)
+ * @returns Promise<LearningSession[]> - Sessions, newest first
+ */
+export const getLocalSessions = async (userId?: string, limit: number = 10): Promise<LearningSession[]> => {
+  const data = await loadData(userId);
+  return data.sessions.slice(0, limit);
+};
+
+/**
+ * Gets the user's answers stored on the device
+ * @param userId - The signed-in user's id
+ * @returns Promise<LearningAttempt[]> - Attempts, newest first
+ */
+export const getLocalAttempts = async (userId?: string): Promise<LearningAttempt[]> => {
+  const data = await loadData(userId);
+  return data.attempts;
+};
+
+/**
+ * Clears the user's learning data from the device (used after resetting statistics)
+ * @param userId - The signed-in user's id
+ * @returns Promise<boolean> - Success status
+ */
+export const resetLocalLearningData = async (userId?: string): Promise<boolean> => {
+  try {
+    await runStoreTask(() => storeData(userId, createEmptyData()));
+    await runQueueTask(async () => {
+      const queue = await loadQueue();
+      await storeQueue(queue.filter(item => item.userId !== userId));
+      const rejected = await loadRejected();
+      await storeRejected(rejected.filter(item => item.userId !== userId));
+    });
+    const keyPrefix = getSessionKey(userId, '');
+    queuedSessionKeys.forEach(key => {
+      if (key.startsWith(keyPrefix)) queuedSessionKeys.delete(key);
+    });
+    return true;
+  } catch (error) {
+    console.error('Error resetting local learning data:', error);
+    return false;
+  }
+};
+
+/**
+ * Moves progress made as a guest into a signed-in account.
+ * Guest counters are added to the account's unsynced progress, so the next sync adds
+ * them to the server totals, and guest sessions and answers are queued for upload.
+ * The guest data is cleared afterwards so it is only ever migrated once.
+ * @param userId - The id of the account that now owns the progress
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestLearningData = async (userId: string): Promise<boolean> => {
+  try {
+    const guest = await loadData(undefined);
+    if (guest.sessions.length === 0 && guest.attempts.length === 0 && guest.statistics.total_questions_attempted === 0) {
+      return true;
+    }
+
+    await updateData(userId, data => {
+      const guestCounters = createEmptyDelta();
+      COUNTER_FIELDS.forEach(field => {
+        guestCounters[field] = guest.statistics[field];
+      });
+      addToCounters(data, guestCounters);
+      data.statistics.best_streak = Math.max(data.statistics.best_streak, guest.statistics.best_streak);
+      data.statistics.best_score = Math.max(data.statistics.best_score, guest.statistics.best_score);
+      data.statistics.first_session_date = earlierDate(data.statistics.first_session_date, guest.statistics.first_session_date);
+
+      if (laterDate(data.statistics.last_session_date, guest.statistics.last_session_date) !== data.statistics.last_session_date) {
+        data.statistics.current_streak = guest.statistics.current_streak;
+        data.statistics.last_session_date = guest.statistics.last_session_date;
+      }
+
+      const byNewest = (a: string | undefined, b: string | undefined) =>
+        new Date(b ?? 0).getTime() - new Date(a ?? 0).getTime();
+      data.sessions = [...guest.sessions, ...data.sessions]
+        .sort((a, b) => byNewest(a.session_start, b.session_start))
+        .slice(0, MAX_LOCAL_SESSIONS);
+      data.attempts = [...guest.attempts, ...data.attempts]
+        .sort((a, b) => byNewest(a.created_at, b.created_at))
+        .slice(0, MAX_LOCAL_ATTEMPTS);
+    });
+
+    // Upload oldest first, matching the order they were made in. Answers from a session
+    // still in progress are uploaded once that session is recorded.
+    const guestSessionIds = new Set(guest.sessions.map(session => session.id));
+    const guestAttempts = guest.attempts.filter(
+      attempt => !attempt.session_id || guestSessionIds.has(attempt.session_id)
+    );
+    await enqueueSyncOperations(userId, [
+      ...[...guest.sessions].reverse().map(session => ({ type: 'session' as const, session })),
+      ...[...guestAttempts].reverse().map(attempt => ({ type: 'attempt' as const, attempt })),
+    ]);
+
+    await runStoreTask(() => storeData(undefined, createEmptyData()));
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest learning data:', error);
+    return false;
+  }
+};
+
+/**
+ * Merges the server's statistics with progress made on this device.
+ * Counters get the offline progress added to the server totals, so progress from
+ * several devices adds up; bests keep the higher value; the current streak comes from
+ * whichever side practised most recently.
+ * @param local - The device's statistics
+ * @param delta - Progress made on the device since the last sync
+ * @param remote - The server's statistics
+ * @returns The reconciled statistics
+ */
+export const resolveStatisticsConflict = (
+  local: LearningStatisticsRecord,
+  delta: StatisticsDelta,
+  remote: LearningStatisticsRecord
+): LearningStatisticsRecord => {
+  const merged: LearningStatisticsRecord = { ...remote };
+
+  COUNTER_FIELDS.forEach(field => {
+    merged[field] = remote[field] + delta[field];
+  });
+
+  merged.best_streak = Math.max(local.best_streak, remote.best_streak);
+  merged.best_score = Math.max(local.best_score, remote.best_score);
+
+  const localIsNewer =
+    !!local.last_session_date &&
+    (!remote.last_session_date || new Date(local.last_session_date) >= new Date(remote.last_session_date));
+  merged.current_streak = localIsNewer ? local.current_streak : remote.current_streak;
+
+  merged.first_session_date = earlierDate(local.first_session_date, remote.first_session_date);
+  merged.last_session_date = laterDate(local.last_session_date, remote.last_session_date);
+
+  return merged;
+};
+
+/**
+ * Reconciles the device's statistics with the server and uploads the result
+ * @returns Promise<boolean> - Success status
+ */
+const syncStatistics = async (userId: string): Promise<boolean> => {
+  const remote = await getUserStatisticsRecord();
+  if (!remote) return false;
+
+  const { statistics, unsyncedDelta } = await loadData(userId);
+  const merged = resolveStatisticsConflict(statistics, unsyncedDelta, remote);
+
+  if (!(await saveUserStatisticsRecord(merged))) return false;
+
+  // Keep any progress recorded while the upload was in flight
+  await updateData(userId, data => {
+    const stillUnsynced = createEmptyDelta();
+    COUNTER_FIELDS.forEach(field => {
+      stillUnsynced[field] = data.unsyncedDelta[field] - unsyncedDelta[field];
+    });
+
+    const practisedDuringUpload = data.statistics.last_session_date !== statistics.last_session_date;
+    const latest = data.statistics;
+
+    data.statistics = { ...merged };
+    data.unsyncedDelta = createEmptyDelta();
+    addToCounters(data, stillUnsynced);
+
+    if (practisedDuringUpload) {
+      data.statistics.current_streak = latest.current_streak;
+      data.statistics.best_streak = Math.max(merged.best_streak, latest.best_streak);
+      data.statistics.best_score = Math.max(merged.best_score, latest.best_score);
+      data.statistics.last_session_date = laterDate(merged.last_session_date, latest.last_session_date);
+    }
+  });
+
+  return true;
+};
+
+const loadQueue = async (): Promise<QueuedSyncOperation[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading sync queue:', error);
+    return [];
+  }
+};
+
+const storeQueue = async (queue: QueuedSyncOperation[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving sync queue:', error);
+  }
+};
+
+const loadRejected = async (): Promise<RejectedSyncOperation[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(REJECTED_SYNC_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading rejected uploads:', error);
+    return [];
+  }
+};
+
+const storeRejected = async (rejected: RejectedSyncOperation[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(REJECTED_SYNC_KEY, JSON.stringify(rejected));
+  } catch (error) {
+    console.error('Error saving rejected uploads:', error);
+  }
+};
+
+/**
+ * Adds uploads to the sync queue. Nothing is queued for signed-out users or when
+ * Supabase is not configured, since those uploads could never succeed.
+ * @param userId - The signed-in user's id
+ * @param operations - The uploads to queue, in order
+ */
+const enqueueSyncOperations = async (
+  userId: string | undefined,
+  operations: SyncOperation[]
+): Promise<void> => {
+  if (!userId || operations.length === 0 || !isLearningDatabaseConfigured()) return;
+
+  await runQueueTask(async () => {
+    const queue = await loadQueue();
+    operations.forEach(operation => {
+      queue.push({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+        userId,
+        queuedAt: new Date().toISOString(),
+        operation,
+      });
+    });
+    await storeQueue(queue.slice(-MAX_QUEUE_LENGTH));
+  });
+
+  queueListeners.forEach(listener => listener());
+};
+
+/**
+ * Adds an upload to the sync queue
+ * @param userId - The signed-in user's id
+ * @param operation - The upload to queue
+ */
+export const enqueueSyncOperation = (
+  userId: string | undefined,
+  operation: SyncOperation
+): Promise<void> => enqueueSyncOperations(userId, [operation]);
+
+/**
+ * Subscribes to new uploads being queued
+ * @param listener - Called after each operation is added
+ * @returns A function that removes the listener
+ */
+export const subscribeToSyncQueue = (listener: () => void): (() => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+/**
+ * Counts the user's uploads still waiting in the queue
+ * @param userId - The signed-in user's id
+ * @returns Promise<number> - Number of queued operations
+ */
+export const getPendingSyncCount = async (userId?: string): Promise<number> => {
+  const queue = await loadQueue();
+  return queue.filter(item => item.userId === userId).length;
+};
+
+/**
+ * Counts the user's uploads the database refused
+ * @param userId - The signed-in user's id
+ * @returns Promise<number> - Number of rejected operations kept on the device
+ */
+export const getRejectedSyncCount = async (userId?: string): Promise<number> => {
+  const rejected = await loadRejected();
+  return rejected.filter(item => item.userId === userId).length;
+};
+
+/**
+ * Uploads one queued operation
+ */
+const runSyncOperation = async (operation: SyncOperation): Promise<UploadResult> => {
+  switch (operation.type) {
+    case 'session': {
+      const { session } = operation;
+      return saveCompleteLearningSession({
+        difficulty: session.difficulty,
+        questionsAttempted: session.questions_attempted,
+        questionsCorrect: session.questions_correct,
+        maxStreak: session.max_streak,
+        score: session.final_score,
+        id: session.id,
+        startTime: new Date(session.session_start),
+        endTime: session.session_end ? new Date(session.session_end) : undefined,
+        mode: session.mode,
+        hintsUsed: session.hints_used,
+      });
+    }
+    case 'attempt':
+      return recordLearningAttempt(operation.attempt);
+    case 'glyphReviews':
+      return saveGlyphReviews(operation.records);
+    case 'customDecks':
+      return saveCustomDecks(operation.records);
+  }
+};
+
+/**
+ * Pushes the user's queued uploads to Supabase in order, then reconciles statistics.
+ * Stops at the first failure that may pass (usually lost connectivity) and leaves the
+ * rest queued. An upload the database rejects outright, such as one for a table the
+ * project never created, is moved out of the queue so it can't hold up everything behind
+ * it, and kept in a list of rejected uploads; the data also stays in the local store.
+ * Operations queued by other accounts on this device wait for that account to sign in.
+ * @param userId - The signed-in user's id
+ * @returns Promise<boolean> - True if everything was synced
+ */
+export const processSyncQueue = async (userId: string): Promise<boolean> => {
+  if (isProcessingQueue || !isLearningDatabaseConfigured()) return false;
+  isProcessingQueue = true;
+
+  try {
+    // Operations queued while uploading are picked up by the next pass
+    let pending = (await loadQueue()).filter(item => item.userId === userId);
+
+    while (pending.length > 0) {
+      for (const item of pending) {
+        const result = await runSyncOperation(item.operation);
+        if (result === 'retry') {
+          return false;
+        }
+        if (result === 'rejected') {
+          console.warn(`Setting aside ${item.operation.type} upload rejected by the database`);
+        }
+
+        await runQueueTask(async () => {
+          const queue = await loadQueue();
+          await storeQueue(queue.filter(queued => queued.id !== item.id));
+          if (result === 'rejected') {
+            const rejected = await loadRejected();
+            rejected.push({ ...item, rejectedAt: new Date().toISOString() });
+            await storeRejected(rejected.slice(-MAX_REJECTED_LENGTH));
+          }
+        });
+      }
+
+      pending = (await loadQueue()).filter(item => item.userId === userId);
+    }
+
+    return await syncStatistics(userId);
+  } catch (error) {
+    console.error('Error processing sync queue:', error);
+    return false;
+  } finally {
+    isProcessingQueue = false;
+  }
+};
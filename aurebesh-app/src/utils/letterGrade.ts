@@ -0,0 +1,98 @@
+/**
+ * Letter Grading
+ * Grades an answer glyph by glyph against the expected spelling. The two are lined up
+ * with an edit-distance alignment, so a missing or extra glyph only marks that glyph and
+ * not every glyph after it. Answers a single glyph off can be given credit as near misses.
+ */
+
+import { AurebeshToken } from './aurebeshTranslator';
+import { alignSequences } from './sequences';
+
+/**
+ * How one position of the answer compares with the expected spelling
+ */
+export type LetterStatus = 'correct' | 'substituted' | 'missing' | 'extra';
+
+/**
+ * One glyph of the aligned answer
+ */
+export interface LetterResult {
+  status: LetterStatus;
+  /** The glyph that should be here, or null for an extra glyph */
+  expected: AurebeshToken | null;
+  /** The glyph given here, or null for a missing glyph */
+  given: AurebeshToken | null;
+}
+
+/**
+ * Glyph-by-glyph grade of an answer
+ */
+export interface LetterGrade {
+  /** The aligned glyphs, in reading order */
+  letters: LetterResult[];
+  correctLetters: number;
+  /** Glyphs in the expected spelling, not counting spaces */
+  totalLetters: number;
+  /** True only if every glyph is right and nothing was added */
+  isCorrect: boolean;
+}
+
+/**
+ * Drops leading and trailing spaces, which don't count against an answer
+ */
+const trimSpaces = (tokens: AurebeshToken[]): AurebeshToken[] => {
+  let start = 0;
+  let end = tokens.length;
+  while (start < end && tokens[start].type === 'space') start++;
+  while (end > start && tokens[end - 1].type === 'space') end--;
+  return tokens.slice(start, end);
+};
+
+/**
+ * Compares glyphs the way tokensMatch does: case is ignored, glyph choice is not
+ */
+const sameGlyph = (a: AurebeshToken, b: AurebeshToken): boolean =>
+  a.type === b.type && a.english.toLowerCase() === b.english.toLowerCase();
+
+/**
+ * Grades an answer glyph by glyph
+ * @param expected - Tokens of the correct answer
+ * @param given - Tokens of the learner's answer
+ * @returns The aligned glyphs and how many were right
+ */
+export const gradeLetters = (expected: AurebeshToken[], given: AurebeshToken[]): LetterGrade => {
+  const a = trimSpaces(expected);
+  const b = trimSpaces(given);
+
+  const letters: LetterResult[] = alignSequences(a, b, sameGlyph).map(pair => ({
+    status:
+      pair.expected === null ? 'extra' : pair.given === null ? 'missing' : pair.isMatch ? 'correct' : 'substituted',
+    expected: pair.expected,
+    given: pair.given,
+  }));
+
+  const isLetter = (result: LetterResult) => result.expected !== null && result.expected.type !== 'space';
+  const correctLetters = letters.filter(result => isLetter(result) && result.status === 'correct').length;
+  return {
+    letters,
+    correctLetters,
+    totalLetters: a.filter(token => token.type !== 'space').length,
+    isCorrect: letters.every(result => result.status === 'correct'),
+  };
+};
+
+/**
+ * Shortest word a near miss can be given for; one slip in a two-letter word is half of it
+ */
+const NEAR_MISS_MIN_LETTERS = 3;
+
+/**
+ * Whether a wrong answer is a near miss: a single glyph wrong, left out or added in a
+ * word long enough that one slip still shows the learner knew it
+ * @param grade - The answer's grade
+ * @returns True for a wrong answer one glyph away from the expected spelling
+ */
+export const isNearMiss = (grade: LetterGrade): boolean =>
+  !grade.isCorrect &&
+  grade.totalLetters >= NEAR_MISS_MIN_LETTERS &&
+  grade.letters.filter(result => result.status !== 'correct').length === 1;
@@ -0,0 +1,265 @@
+/**
+ * Multiple-Choice Recognition
+ * Builds four-option questions for new learners: an Aurebesh word and English choices.
+ * Distractors are ranked by how easily they could be mistaken for the answer (same
+ * length, same category, shared letters and, once the learner has enough answers on
+ * record, glyphs they personally confuse).
+ *
+ * The mode has its own difficulty curve, separate from the Read difficulty picker.
+ * Each level sets the word difficulty and how close the distractors are; a level is
+ * passed by answering most of the last CHOICE_LEVEL_WINDOW questions correctly and lost
+ * by missing most of them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { WordPair, wordDictionary } from './dictionary';
+import { tokenizeAurebesh } from './aurebeshTranslator';
+import { ConfusionMatrix } from './confusionMatrix';
+import { createSerialQueue } from './storage';
+import { shuffle } from './sequences';
+
+/**
+ * One step of the multiple-choice difficulty curve
+ */
+export interface ChoiceLevel {
+  level: number;
+  wordDifficulty: 'easy' | 'medium' | 'hard';
+  /** How close distractors are to the answer, from 0 (any word) to 1 (the closest words) */
+  similarity: number;
+}
+
+/**
+ * A learner's place on the difficulty curve
+ */
+export interface ChoiceProgress {
+  level: number;
+  /** Results of the most recent answers at this level, oldest first */
+  recentResults: boolean[];
+}
+
+/**
+ * One multiple-choice question
+ */
+export interface ChoiceQuestion {
+  word: WordPair;
+  /** English answer choices, including the correct one, in random order */
+  options: string[];
+}
+
+/**
+ * Ways to personalise distractors
+ */
+export interface DistractorOptions {
+  /** The learner's glyph confusions */
+  confusions?: ConfusionMatrix;
+  /** Answers the learner has on record; confusions are only used once there are enough */
+  attemptCount?: number;
+  useDigraphs?: boolean;
+}
+
+/**
+ * The difficulty curve: easy words with loosely related distractors first, ending with
+ * hard words and the closest look-alikes
+ */
+export const CHOICE_LEVELS: ChoiceLevel[] = [
+  { level: 1, wordDifficulty: 'easy', similarity: 0 },
+  { level: 2, wordDifficulty: 'easy', similarity: 0.5 },
+  { level: 3, wordDifficulty: 'easy', similarity: 1 },
+  { level: 4, wordDifficulty: 'medium', similarity: 0.5 },
+  { level: 5, wordDifficulty: 'medium', similarity: 1 },
+  { level: 6, wordDifficulty: 'hard', similarity: 0.5 },
+  { level: 7, wordDifficulty: 'hard', similarity: 1 },
+];
+
+const CHOICE_OPTION_COUNT = 4;
+
+/**
+ * Answers considered when deciding to move up or down a level
+ */
+export const CHOICE_LEVEL_WINDOW = 10;
+const LEVEL_UP_CORRECT = 8;
+const LEVEL_DOWN_CORRECT = 4;
+
+/**
+ * Answers on record before personal confusions shape the distractors
+ */
+const MIN_ATTEMPTS_FOR_CONFUSIONS = 30;
+
+/**
+ * Smallest pool distractors are drawn from, so the closest words still vary
+ */
+const MIN_DISTRACTOR_POOL = 6;
+
+const runProgressTask = createSerialQueue();
+
+/**
+ * Storage key for a user's place on the curve (includes "progress" so storage usage
+ * counts it as learning progress)
+ */
+const getStorageKey = (userId?: string): string =>
+  `@aurebesh_choice_progress_${userId ?? 'local'}`;
+
+/**
+ * Gets the settings for a level, clamped to the curve
+ */
+export const getChoiceLevel = (level: number): ChoiceLevel =>
+  CHOICE_LEVELS[Math.min(CHOICE_LEVELS.length, Math.max(1, level)) - 1];
+
+/**
+ * Glyph ids of a word, ignoring spaces
+ */
+const getGlyphIds = (english: string, useDigraphs: boolean): string[] =>
+  tokenizeAurebesh(english, { useDigraphs })
+    .filter(token => token.type !== 'space')
+    .map(token => token.english.toUpperCase());
+
+/**
+ * Share of distinct letters two words have in common, from 0 to 1
+ */
+const getSharedLetterRatio = (a: string, b: string): number => {
+  const lettersA = new Set(a.toLowerCase());
+  const lettersB = new Set(b.toLowerCase());
+  const shared = [...lettersA].filter(letter => lettersB.has(letter)).length;
+  return shared / new Set([...lettersA, ...lettersB]).size;
+};
+
+/**
+ * How often the learner mixed up the glyphs at matching positions of two words of
+ * the same glyph length
+ */
+const getConfusionScore = (answer: string[], candidate: string[], confusions: ConfusionMatrix): number => {
+  if (answer.length !== candidate.length) return 0;
+  return answer.reduce((score, glyph, index) => {
+    const other = candidate[index];
+    if (glyph === other) return score;
+    return score + (confusions[glyph]?.[other] ?? 0) + (confusions[other]?.[glyph] ?? 0);
+  }, 0);
+};
+
+/**
+ * Ranks every other word by how easily it could be mistaken for the answer
+ * @param word - The correct answer
+ * @param options - Personal confusions and transliteration settings
+ * @returns Candidate words, most similar first
+ */
+export const rankDistractors = (word: WordPair, options: DistractorOptions = {}): WordPair[] => {
+  const useDigraphs = options.useDigraphs ?? false;
+  const useConfusions =
+    !!options.confusions && (options.attemptCount ?? 0) >= MIN_ATTEMPTS_FOR_CONFUSIONS;
+  const answerGlyphs = useConfusions ? getGlyphIds(word.english, useDigraphs) : [];
+  const answer = word.english.toLowerCase();
+
+  const candidates = wordDictionary.filter(
+    (candidate, index, all) =>
+      candidate.english.toLowerCase() !== answer &&
+      all.findIndex(other => other.english.toLowerCase() === candidate.english.toLowerCase()) === index
+  );
+
+  const scored = candidates.map(candidate => {
+    let score = 0;
+    if (candidate.english.length === word.english.length) score += 2;
+    if (candidate.category === word.category) score += 1;
+    score += getSharedLetterRatio(candidate.english, word.english) * 3;
+    if (useConfusions) {
+      const glyphs = getGlyphIds(candidate.english, useDigraphs);
+      score += Math.min(4, getConfusionScore(answerGlyphs, glyphs, options.confusions!));
+    }
+    return { candidate, score };
+  });
+
+  return scored.sort((a, b) => b.score - a.score).map(entry => entry.candidate);
+};
+
+/**
+ * Builds a question for a word at a level of the curve.
+ * Distractors are drawn at random from the most similar words; the higher the level's
+ * similarity, the smaller (and closer) that pool.
+ * @param word - The word to ask about
+ * @param level - The learner's level
+ * @param options - Personal confusions and transliteration settings
+ * @returns The question with its options shuffled
+ */
+export const buildChoiceQuestion = (
+  word: WordPair,
+  level: ChoiceLevel,
+  options: DistractorOptions = {}
+): ChoiceQuestion => {
+  const ranked = rankDistractors(word, options);
+  const poolSize = Math.max(MIN_DISTRACTOR_POOL, Math.round(ranked.length * (1 - level.similarity)));
+  const distractors = shuffle(ranked.slice(0, poolSize)).slice(0, CHOICE_OPTION_COUNT - 1);
+
+  return {
+    word,
+    options: shuffle([word.english, ...distractors.map(distractor => distractor.english)]),
+  };
+};
+
+/**
+ * Loads a user's place on the curve
+ * @param userId - The signed-in user's id
+ * @returns Promise<ChoiceProgress> - The progress, starting at level 1
+ */
+export const loadChoiceProgress = async (userId?: string): Promise<ChoiceProgress> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : { level: 1, recentResults: [] };
+  } catch (error) {
+    console.error('Error loading multiple-choice progress:', error);
+    return { level: 1, recentResults: [] };
+  }
+};
+
+/**
+ * Records an answer and moves the learner up or down a level when the recent answers
+ * call for it
+ * @param userId - The signed-in user's id
+ * @param isCorrect - Whether the answer was right
+ * @returns Promise<ChoiceProgress> - The updated progress
+ */
+export const recordChoiceAnswer = (userId: string | undefined, isCorrect: boolean): Promise<ChoiceProgress> =>
+  runProgressTask(async () => {
+    const progress = await loadChoiceProgress(userId);
+    const recentResults = [...progress.recentResults, isCorrect].slice(-CHOICE_LEVEL_WINDOW);
+    const correct = recentResults.filter(Boolean).length;
+
+    let updated: ChoiceProgress = { level: progress.level, recentResults };
+    if (recentResults.length === CHOICE_LEVEL_WINDOW) {
+      if (correct >= LEVEL_UP_CORRECT && progress.level < CHOICE_LEVELS.length) {
+        updated = { level: progress.level + 1, recentResults: [] };
+      } else if (correct <= LEVEL_DOWN_CORRECT && progress.level > 1) {
+        updated = { level: progress.level - 1, recentResults: [] };
+      }
+    }
+
+    try {
+      await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(updated));
+    } catch (error) {
+      console.error('Error saving multiple-choice progress:', error);
+    }
+    return updated;
+  });
+
+/**
+ * Moves the level reached as a guest into a signed-in account, keeping the higher level
+ * @param userId - The id of the account that now owns the progress
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestChoiceProgress = async (userId: string): Promise<boolean> => {
+  try {
+    await runProgressTask(async () => {
+      const stored = await AsyncStorage.getItem(getStorageKey());
+      if (!stored) return;
+
+      const guest: ChoiceProgress = JSON.parse(stored);
+      const progress = await loadChoiceProgress(userId);
+      if (guest.level > progress.level) {
+        await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(guest));
+      }
+      await AsyncStorage.removeItem(getStorageKey());
+    });
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest multiple-choice progress:', error);
+    return false;
+  }
+};
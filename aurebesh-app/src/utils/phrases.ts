@@ -0,0 +1,196 @@
+/**
+ * Aurebesh Phrase Corpus
+ * Multi-word reading and writing practice: the signage, short quotes and everyday
+ * phrases Aurebesh is actually seen in, as opposed to the single words in dictionary.ts.
+ * Answers are graded word by word, so a phrase that is mostly right earns partial credit.
+ */
+
+import { WordPair } from './dictionary';
+import { AurebeshToken, tokensMatch, tokensToEnglish } from './aurebeshTranslator';
+import { alignSequences } from './sequences';
+
+/**
+ * Where a phrase would be seen
+ */
+export type PhraseKind = 'signage' | 'quote' | 'phrase';
+
+export interface PhraseEntry {
+  english: string;
+  kind: PhraseKind;
+  difficulty: 'easy' | 'medium' | 'hard';
+  /** Topics for filtering, e.g. "imperial" or "transport" */
+  tags: string[];
+}
+
+/**
+ * How one word of the expected phrase was answered
+ */
+export interface PhraseWordResult {
+  expected: string;
+  /** The word given in its place, or null if it was left out */
+  given: string | null;
+  isCorrect: boolean;
+}
+
+/**
+ * Word-by-word grade of a phrase answer
+ */
+export interface PhraseGrade {
+  words: PhraseWordResult[];
+  correctWords: number;
+  totalWords: number;
+  /** Words given that don't belong to the phrase */
+  extraWords: string[];
+  /** Share of the phrase answered correctly, from 0 to 1 */
+  credit: number;
+  /** True only if every word is right and nothing was added */
+  isCorrect: boolean;
+}
+
+/**
+ * Phrase collection. Easy entries are two short words, medium entries are longer signs
+ * and phrases, and hard entries are full quotes.
+ */
+export const phraseCorpus: PhraseEntry[] = [
+  // ========== EASY PHRASES ==========
+
+  // Signage
+  { english: 'no entry', kind: 'signage', difficulty: 'easy', tags: ['safety'] },
+  { english: 'exit only', kind: 'signage', difficulty: 'easy', tags: ['transport'] },
+  { english: 'keep out', kind: 'signage', difficulty: 'easy', tags: ['safety'] },
+  { english: 'pull here', kind: 'signage', difficulty: 'easy', tags: ['safety'] },
+  { english: 'open bar', kind: 'signage', difficulty: 'easy', tags: ['cantina'] },
+  { english: 'deck one', kind: 'signage', difficulty: 'easy', tags: ['starship'] },
+  { english: 'air lock', kind: 'signage', difficulty: 'easy', tags: ['starship', 'safety'] },
+  { english: 'fuel bay', kind: 'signage', difficulty: 'easy', tags: ['starship', 'transport'] },
+  { english: 'gate five', kind: 'signage', difficulty: 'easy', tags: ['transport'] },
+  { english: 'med bay', kind: 'signage', difficulty: 'easy', tags: ['starship'] },
+
+  // Phrases
+  { english: 'hello there', kind: 'phrase', difficulty: 'easy', tags: ['greeting'] },
+  { english: 'good luck', kind: 'phrase', difficulty: 'easy', tags: ['greeting'] },
+  { english: 'stand by', kind: 'phrase', difficulty: 'easy', tags: ['military'] },
+  { english: 'red five', kind: 'phrase', difficulty: 'easy', tags: ['rebel', 'military'] },
+  { english: 'stay on target', kind: 'phrase', difficulty: 'easy', tags: ['rebel', 'military'] },
+
+  // ========== MEDIUM PHRASES ==========
+
+  // Signage
+  { english: 'detention block', kind: 'signage', difficulty: 'medium', tags: ['imperial'] },
+  { english: 'docking bay', kind: 'signage', difficulty: 'medium', tags: ['starship', 'transport'] },
+  { english: 'authorized personnel only', kind: 'signage', difficulty: 'medium', tags: ['imperial', 'safety'] },
+  { english: 'hazardous materials', kind: 'signage', difficulty: 'medium', tags: ['safety'] },
+  { english: 'escape pods', kind: 'signage', difficulty: 'medium', tags: ['starship', 'safety'] },
+  { english: 'hangar control', kind: 'signage', difficulty: 'medium', tags: ['imperial', 'starship'] },
+  { english: 'reactor core', kind: 'signage', difficulty: 'medium', tags: ['starship', 'safety'] },
+  { english: 'no droids allowed', kind: 'signage', difficulty: 'medium', tags: ['cantina'] },
+  { english: 'spaceport arrivals', kind: 'signage', difficulty: 'medium', tags: ['transport'] },
+  { english: 'cargo hold', kind: 'signage', difficulty: 'medium', tags: ['starship'] },
+  { english: 'trash compactor', kind: 'signage', difficulty: 'medium', tags: ['imperial', 'starship'] },
+
+  // Phrases
+  { english: 'long live the empire', kind: 'phrase', difficulty: 'medium', tags: ['imperial'] },
+  { english: 'rebel alliance', kind: 'phrase', difficulty: 'medium', tags: ['rebel'] },
+  { english: 'jump to lightspeed', kind: 'phrase', difficulty: 'medium', tags: ['starship'] },
+  { english: 'this is the way', kind: 'phrase', difficulty: 'medium', tags: ['mandalorian'] },
+  { english: 'may the force be with you', kind: 'phrase', difficulty: 'medium', tags: ['jedi', 'greeting'] },
+
+  // ========== HARD PHRASES (QUOTES) ==========
+  { english: 'do or do not there is no try', kind: 'quote', difficulty: 'hard', tags: ['jedi'] },
+  { english: 'i have a bad feeling about this', kind: 'quote', difficulty: 'hard', tags: ['rebel'] },
+  { english: 'these are not the droids you are looking for', kind: 'quote', difficulty: 'hard', tags: ['jedi'] },
+  { english: 'the force will be with you always', kind: 'quote', difficulty: 'hard', tags: ['jedi'] },
+  { english: 'never tell me the odds', kind: 'quote', difficulty: 'hard', tags: ['rebel'] },
+  { english: 'rebellions are built on hope', kind: 'quote', difficulty: 'hard', tags: ['rebel'] },
+  { english: 'fear is the path to the dark side', kind: 'quote', difficulty: 'hard', tags: ['jedi', 'sith'] },
+  { english: 'i find your lack of faith disturbing', kind: 'quote', difficulty: 'hard', tags: ['imperial', 'sith'] },
+  { english: 'help me obi wan kenobi', kind: 'quote', difficulty: 'hard', tags: ['rebel', 'jedi'] },
+  { english: 'that is no moon', kind: 'quote', difficulty: 'hard', tags: ['jedi', 'imperial'] },
+];
+
+/**
+ * Get a random phrase at a difficulty level
+ * @param difficulty - The difficulty level to filter by
+ * @param excludeEnglish - A phrase not to repeat, usually the current one
+ * @returns A random phrase
+ */
+export const getRandomPhrase = (
+  difficulty: 'easy' | 'medium' | 'hard',
+  excludeEnglish?: string
+): PhraseEntry => {
+  const phrases = phraseCorpus.filter(
+    phrase => phrase.difficulty === difficulty && phrase.english !== excludeEnglish
+  );
+  return phrases[Math.floor(Math.random() * phrases.length)];
+};
+
+/**
+ * Splits tokens into words at spaces
+ */
+const splitTokenWords = (tokens: AurebeshToken[]): AurebeshToken[][] => {
+  const words: AurebeshToken[][] = [];
+  let current: AurebeshToken[] = [];
+
+  tokens.forEach(token => {
+    if (token.type === 'space') {
+      if (current.length > 0) words.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+  if (current.length > 0) words.push(current);
+
+  return words;
+};
+
+/**
+ * Grades a phrase answer word by word.
+ * Words are aligned with an edit-distance alignment, so leaving out or adding a word
+ * does not mark every later word wrong. Each word is compared glyph by glyph, the same
+ * way single-word answers are.
+ * @param expected - Tokens of the phrase
+ * @param given - Tokens of the learner's answer
+ * @returns The grade, with one result per expected word
+ */
+export const gradePhraseAnswer = (expected: AurebeshToken[], given: AurebeshToken[]): PhraseGrade => {
+  const a = splitTokenWords(expected);
+  const b = splitTokenWords(given);
+
+  const words: PhraseWordResult[] = [];
+  const extraWords: string[] = [];
+  alignSequences(a, b, tokensMatch).forEach(pair => {
+    if (pair.expected === null) {
+      extraWords.push(tokensToEnglish(pair.given));
+    } else {
+      words.push({
+        expected: tokensToEnglish(pair.expected),
+        given: pair.given ? tokensToEnglish(pair.given) : null,
+        isCorrect: pair.isMatch,
+      });
+    }
+  });
+
+  const correctWords = words.filter(word => word.isCorrect).length;
+  return {
+    words,
+    correctWords,
+    totalWords: a.length,
+    extraWords,
+    credit: a.length > 0 ? correctWords / a.length : 0,
+    isCorrect: correctWords === a.length && extraWords.length === 0,
+  };
+};
+
+/**
+ * Presents a phrase as a word pair, so practice screens can show a phrase wherever
+ * they show a word
+ * @param phrase - The phrase to present
+ * @returns A word pair with the phrase's text, difficulty and kind as its category
+ */
+export const phraseToWordPair = (phrase: PhraseEntry): WordPair => ({
+  english: phrase.english,
+  aurebesh: phrase.english,
+  difficulty: phrase.difficulty,
+  category: phrase.kind,
+});
@@ -0,0 +1,207 @@
+/**
+ * Daily Practice Streaks
+ * Turns practice sessions into days practised in the device's time zone, and computes
+ * the consecutive-day practice streak with streak freezes. Unlike the correct-answer
+ * streak in learning statistics, this streak counts calendar days.
+ *
+ * Freezes are earned, not bought: every FREEZE_EARN_DAYS practised days in a row bank
+ * one freeze (up to MAX_STREAK_FREEZES), and a missed day spends one automatically
+ * instead of breaking the streak. Because freezes are derived from the practice history,
+ * every device computes the same streak without storing any extra state.
+ */
+
+import { LearningSession, getPracticeCalendar } from './learningDatabase';
+import { getLocalAttempts, getLocalSessions } from './learningStore';
+
+/**
+ * Minutes and sessions practised on one day
+ */
+export interface PracticeDay {
+  /** The day in the device's time zone, as YYYY-MM-DD */
+  date: string;
+  minutes: number;
+  sessions: number;
+}
+
+/**
+ * The state of the daily practice streak
+ */
+export interface PracticeStreak {
+  /** Days in the current streak, including today once practised */
+  currentStreak: number;
+  longestStreak: number;
+  /** Freezes banked for future missed days */
+  freezesAvailable: number;
+  /** Missed days that were covered by a freeze, as YYYY-MM-DD */
+  frozenDates: string[];
+  practicedToday: boolean;
+}
+
+const FREEZE_EARN_DAYS = 7;
+const MAX_STREAK_FREEZES = 2;
+
+/**
+ * How far back the practice calendar is loaded
+ */
+export const PRACTICE_CALENDAR_DAYS = 365;
+
+/**
+ * Gets the device's IANA time zone, falling back to UTC
+ */
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Formats a moment as its day in the device's time zone
+ * @param date - The moment to format
+ * @returns The local day as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Moves a day forwards or backwards
+ * @param dateKey - The day as YYYY-MM-DD
+ * @param days - Number of days to add (negative to go back)
+ * @returns The resulting day as YYYY-MM-DD
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  // Noon keeps daylight-saving changes from skipping or repeating a day
+  return toDateKey(new Date(year, month - 1, day + days, 12));
+};
+
+/**
+ * Groups sessions into practice days in the device's time zone
+ * @param sessions - The sessions to group
+ * @returns Practice days, oldest first
+ */
+export const getPracticeDaysFromSessions = (sessions: LearningSession[]): PracticeDay[] => {
+  const days: Record<string, PracticeDay> = {};
+
+  sessions.forEach(session => {
+    const date = toDateKey(new Date(session.session_start));
+    const day = days[date] ?? { date, minutes: 0, sessions: 0 };
+    day.minutes += (session.session_duration_seconds ?? 0) / 60;
+    day.sessions += 1;
+    days[date] = day;
+  });
+
+  return Object.values(days)
+    .map(day => ({ ...day, minutes: Math.round(day.minutes * 10) / 10 }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Combines server and device practice days. The server has the full history but not
+ * sessions still waiting to sync, and the device has only recent sessions, so each day
+ * keeps whichever side recorded more.
+ */
+const mergePracticeDays = (remote: PracticeDay[], local: PracticeDay[]): PracticeDay[] => {
+  const merged: Record<string, PracticeDay> = {};
+
+  [...remote, ...local].forEach(day => {
+    const existing = merged[day.date];
+    merged[day.date] = existing && existing.sessions >= day.sessions ? existing : day;
+  });
+
+  return Object.values(merged).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Loads the user's practice days for the calendar and streak
+ * @param userId - The signed-in user's id
+ * @param includeServer - Whether to also load the full history from Supabase
+ * @returns Promise<PracticeDay[]> - Practice days, oldest first
+ */
+export const loadPracticeDays = async (
+  userId: string | undefined,
+  includeServer: boolean
+): Promise<PracticeDay[]> => {
+  const localSessions = await getLocalSessions(userId, Number.MAX_SAFE_INTEGER);
+  const localDays = getPracticeDaysFromSessions(localSessions);
+  if (!includeServer) return localDays;
+
+  const startDate = addDays(toDateKey(new Date()), -PRACTICE_CALENDAR_DAYS);
+  const remoteDays = (await getPracticeCalendar(getDeviceTimeZone(), startDate)).map(day => ({
+    date: day.practice_date,
+    minutes: day.minutes_practiced,
+    sessions: day.session_count,
+  }));
+
+  return mergePracticeDays(remoteDays, localDays);
+};
+
+/**
+ * Checks whether the user has practised today on this device, counting finished
+ * sessions and any answer given in a session that hasn't been saved yet
+ * @param userId - The signed-in user's id
+ * @returns Promise<boolean> - True if there was practice today
+ */
+export const hasPracticedToday = async (userId?: string): Promise<boolean> => {
+  const todayKey = toDateKey(new Date());
+  const [sessions, attempts] = await Promise.all([
+    getLocalSessions(userId, Number.MAX_SAFE_INTEGER),
+    getLocalAttempts(userId),
+  ]);
+
+  return (
+    sessions.some(session => toDateKey(new Date(session.session_start)) === todayKey) ||
+    attempts.some(attempt => !!attempt.created_at && toDateKey(new Date(attempt.created_at)) === todayKey)
+  );
+};
+
+/**
+ * Computes the daily practice streak.
+ * Walks every day from the first practice to today: a practised day extends the streak
+ * and may earn a freeze; a missed day spends a freeze or ends the streak. Today only
+ * counts once practised, but not having practised yet today does not break the streak.
+ * @param days - Practice days in any order
+ * @param today - The current moment
+ * @returns The streak state
+ */
+export const calculatePracticeStreak = (days: PracticeDay[], today: Date = new Date()): PracticeStreak => {
+  const todayKey = toDateKey(today);
+  const practiced = new Set(days.filter(day => day.sessions > 0).map(day => day.date));
+  const result: PracticeStreak = {
+    currentStreak: 0,
+    longestStreak: 0,
+    freezesAvailable: 0,
+    frozenDates: [],
+    practicedToday: practiced.has(todayKey),
+  };
+
+  const firstDay = [...practiced].sort()[0];
+  if (!firstDay) return result;
+
+  let daysTowardsFreeze = 0;
+  for (let date = firstDay; date <= todayKey; date = addDays(date, 1)) {
+    if (practiced.has(date)) {
+      result.currentStreak += 1;
+      result.longestStreak = Math.max(result.longestStreak, result.currentStreak);
+      daysTowardsFreeze += 1;
+      if (daysTowardsFreeze === FREEZE_EARN_DAYS) {
+        result.freezesAvailable = Math.min(MAX_STREAK_FREEZES, result.freezesAvailable + 1);
+        daysTowardsFreeze = 0;
+      }
+    } else if (date !== todayKey) {
+      if (result.currentStreak > 0 && result.freezesAvailable > 0) {
+        result.freezesAvailable -= 1;
+        result.frozenDates.push(date);
+      } else {
+        result.currentStreak = 0;
+        daysTowardsFreeze = 0;
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,135 @@
+/**
+ * Glyph Pronunciation
+ * How to say each letter and digraph name, spoken with the device's own text-to-speech
+ * voice so it works offline. Numerals and punctuation are named in plain English and are
+ * spoken as they are. The same voice reads out words for the listening drill.
+ */
+
+import * as Speech from 'expo-speech';
+import { AurebeshCharacter } from './aurebeshScript';
+
+/**
+ * How a glyph's name is said
+ */
+export interface GlyphPronunciation {
+  /** Phonetic respelling for reading, with the stressed syllable in capitals */
+  respelling: string;
+  /** Spelling that text-to-speech voices say correctly, where the name itself misleads them */
+  spoken?: string;
+  /** An English word with the sound the glyph writes */
+  example: string;
+}
+
+/**
+ * Pronunciations keyed by the glyph's English letters
+ */
+const PRONUNCIATIONS: Record<string, GlyphPronunciation> = {
+  // ========== LETTERS ==========
+  A: { respelling: 'AW-rek', spoken: 'Aw-reck', example: 'apple' },
+  B: { respelling: 'BESH', example: 'base' },
+  C: { respelling: 'KRESH', example: 'cargo' },
+  D: { respelling: 'DORN', example: 'droid' },
+  E: { respelling: 'ESK', example: 'engine' },
+  F: { respelling: 'FORN', example: 'force' },
+  G: { respelling: 'GREK', spoken: 'Greck', example: 'galaxy' },
+  H: { respelling: 'HURF', example: 'hyperdrive' },
+  I: { respelling: 'ISK', example: 'ion' },
+  J: { respelling: 'JENTH', example: 'jump' },
+  K: { respelling: 'KRIL', example: 'king' },
+  L: { respelling: 'LETH', example: 'laser' },
+  M: { respelling: 'MURN', example: 'metal' },
+  N: { respelling: 'NURN', example: 'nebula' },
+  O: { respelling: 'OSK', example: 'orbit' },
+  P: { respelling: 'PETH', example: 'planet' },
+  Q: { respelling: 'KEK', spoken: 'Keck', example: 'queen' },
+  R: { respelling: 'RESH', example: 'rebel' },
+  S: { respelling: 'SENTH', example: 'star' },
+  T: { respelling: 'TRIL', example: 'trooper' },
+  U: { respelling: 'OOSK', spoken: 'Oosk', example: 'under' },
+  V: { respelling: 'VEV', example: 'vessel' },
+  W: { respelling: 'WESK', example: 'wing' },
+  X: { respelling: 'ZESH', spoken: 'Zesh', example: 'box' },
+  Y: { respelling: 'YURT', spoken: 'Yurt', example: 'yellow' },
+  Z: { respelling: 'ZEHR-ek', spoken: 'Zair-eck', example: 'zone' },
+
+  // ========== DIGRAPHS ==========
+  CH: { respelling: 'CHAIR-ek', spoken: 'Chair-eck', example: 'chase' },
+  AE: { respelling: 'ENTH', example: 'aerial' },
+  EO: { respelling: 'OH-nith', spoken: 'Oh-nith', example: 'neon' },
+  KH: { respelling: 'KRENTH', example: 'khaki' },
+  NG: { respelling: 'NEN', example: 'ring' },
+  OO: { respelling: 'OR-enth', spoken: 'Or-enth', example: 'moon' },
+  SH: { respelling: 'SHEN', example: 'ship' },
+  TH: { respelling: 'THESH', example: 'thrust' },
+};
+
+/**
+ * Speech speeds offered in settings, as expo-speech rates where 1 is the voice's normal pace
+ */
+export const SPEECH_RATES: { label: string; rate: number }[] = [
+  { label: 'Slow', rate: 0.6 },
+  { label: 'Normal', rate: 1 },
+  { label: 'Fast', rate: 1.3 },
+];
+
+/**
+ * Gets how a glyph's name is said
+ * @param glyph - The glyph to look up
+ * @returns The pronunciation, or undefined for numerals and punctuation
+ */
+export const getGlyphPronunciation = (glyph: AurebeshCharacter): GlyphPronunciation | undefined =>
+  PRONUNCIATIONS[glyph.english];
+
+/**
+ * What is spoken for a glyph: its name, then the letters it writes and an example word,
+ * e.g. "Aw-reck. A, as in apple."
+ */
+export const getSpokenText = (glyph: AurebeshCharacter): string => {
+  const pronunciation = getGlyphPronunciation(glyph);
+  if (!pronunciation) return glyph.name;
+  // Letters are spaced out so a digraph is read as two letters, not a syllable
+  const letters = glyph.english.split('').join(' ');
+  return `${pronunciation.spoken ?? glyph.name}. ${letters}, as in ${pronunciation.example}.`;
+};
+
+/**
+ * Speaks text with the device's voice, cutting off anything already being said
+ * @param text - What to say
+ * @param rate - Speech rate, 1 being normal
+ * @param onDone - Called when speech finishes, is stopped or fails
+ */
+export const speakText = (text: string, rate: number, onDone?: () => void) => {
+  try {
+    Speech.stop();
+    Speech.speak(text, {
+      language: 'en-US',
+      rate,
+      onDone,
+      onStopped: onDone,
+      onError: error => {
+        console.error('Error speaking text:', error);
+        onDone?.();
+      },
+    });
+  } catch (error) {
+    console.error('Error speaking text:', error);
+    onDone?.();
+  }
+};
+
+/**
+ * Speaks a glyph's name and example word
+ * @param glyph - The glyph to pronounce
+ * @param rate - Speech rate, 1 being normal
+ * @param onDone - Called when speech finishes, is stopped or fails
+ */
+export const speakGlyph = (glyph: AurebeshCharacter, rate: number, onDone?: () => void) => {
+  speakText(getSpokenText(glyph), rate, onDone);
+};
+
+/**
+ * Stops anything being spoken
+ */
+export const stopSpeaking = () => {
+  Speech.stop();
+};
@@ -0,0 +1,175 @@
+/**
+ * Practice Reminders
+ * Schedules daily practice reminders as local notifications; nothing goes through a server.
+ * Repeating weekly triggers can't skip a single day, so each upcoming reminder is scheduled
+ * as its own one-off notification for the next REMINDER_DAYS_AHEAD days. Rescheduling
+ * drops today's reminder once the user has practised, and tops the schedule back up.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { addDays, toDateKey } from './practiceStreaks';
+
+/**
+ * When and on which days to remind the user
+ */
+export interface ReminderSchedule {
+  /** Time of day as "HH:MM" */
+  time: string;
+  /** Days of the week to remind on, 0 = Sunday ... 6 = Saturday */
+  weekdays: number[];
+}
+
+/**
+ * How many days of reminders are kept scheduled at a time
+ */
+const REMINDER_DAYS_AHEAD = 14;
+
+const REMINDER_ID_PREFIX = 'practice-reminder-';
+const REMINDER_CHANNEL_ID = 'practice-reminders';
+
+/**
+ * Splits a "HH:MM" reminder time into hours and minutes
+ * @param time - The reminder time
+ * @returns The hour (0-23) and minute (0-59), or 19:00 if the time is malformed
+ */
+export const parseReminderTime = (time: string): { hour: number; minute: number } => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+
+  return hour >= 0 && hour < 24 && minute >= 0 && minute < 60 ? { hour, minute } : { hour: 19, minute: 0 };
+};
+
+/**
+ * Moves a reminder time forwards or backwards, wrapping around midnight
+ * @param time - The reminder time as "HH:MM"
+ * @param minutes - Minutes to add (negative to go back)
+ * @returns The new time as "HH:MM"
+ */
+export const shiftReminderTime = (time: string, minutes: number): string => {
+  const { hour, minute } = parseReminderTime(time);
+  const total = (((hour * 60 + minute + minutes) % 1440) + 1440) % 1440;
+  return `${`${Math.floor(total / 60)}`.padStart(2, '0')}:${`${total % 60}`.padStart(2, '0')}`;
+};
+
+/**
+ * Show reminders that arrive while the app is open
+ */
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Checks whether notifications may be shown, without asking the user
+ * @returns Promise<boolean | null> - True if allowed, false if refused, or null if the
+ *          user can still be asked
+ */
+export const getReminderPermission = async (): Promise<boolean | null> => {
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    return current.canAskAgain ? null : false;
+  } catch (error) {
+    console.error('Error checking notification permission:', error);
+    return false;
+  }
+};
+
+/**
+ * Asks for permission to show notifications, unless it was already answered
+ * @returns Promise<boolean> - True if notifications may be shown
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    return false;
+  }
+};
+
+/**
+ * Cancels every scheduled practice reminder
+ * @returns Promise<boolean> - Success status
+ */
+export const cancelPracticeReminders = async (): Promise<boolean> => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith(REMINDER_ID_PREFIX))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+    return true;
+  } catch (error) {
+    console.error('Error cancelling practice reminders:', error);
+    return false;
+  }
+};
+
+/**
+ * Replaces the scheduled practice reminders
+ * @param schedule - Reminder time and weekdays
+ * @param practicedToday - Whether the user has already practised today
+ * @returns Promise<number> - Number of reminders scheduled
+ */
+export const schedulePracticeReminders = async (
+  schedule: ReminderSchedule,
+  practicedToday: boolean
+): Promise<number> => {
+  await cancelPracticeReminders();
+  if (schedule.weekdays.length === 0) return 0;
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Practice reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const { hour, minute } = parseReminderTime(schedule.time);
+    const now = new Date();
+    const todayKey = toDateKey(now);
+    let scheduledCount = 0;
+
+    for (let offset = 0; offset < REMINDER_DAYS_AHEAD; offset++) {
+      const dateKey = addDays(todayKey, offset);
+      const [year, month, day] = dateKey.split('-').map(Number);
+      const fireAt = new Date(year, month - 1, day, hour, minute);
+
+      if (!schedule.weekdays.includes(fireAt.getDay())) continue;
+      if (fireAt <= now || (offset === 0 && practicedToday)) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${REMINDER_ID_PREFIX}${dateKey}`,
+        content: {
+          title: 'Time to practise Aurebesh',
+          body: 'A few minutes a day keeps your streak going.',
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: fireAt,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+      scheduledCount++;
+    }
+
+    return scheduledCount;
+  } catch (error) {
+    console.error('Error scheduling practice reminders:', error);
+    return 0;
+  }
+};
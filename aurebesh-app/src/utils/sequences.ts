@@ -0,0 +1,85 @@
+/**
+ * Sequence Helpers
+ * Shared list operations for grading answers and building quizzes: an edit-distance
+ * alignment that lines an answer up with the expected sequence, and a shuffle.
+ */
+
+/**
+ * One position of an alignment: a pair of items, an expected item that was left out,
+ * or a given item that was added
+ */
+export type AlignedPair<T> =
+  | { expected: T; given: T; isMatch: boolean }
+  | { expected: T; given: null; isMatch: false }
+  | { expected: null; given: T; isMatch: false };
+
+/**
+ * Lines a given sequence up with the expected one using an edit-distance alignment, so
+ * a missing or extra item only affects that item and not every item after it.
+ * Where alignments tie, matches and substitutions are preferred over gaps.
+ * @param expected - The expected items
+ * @param given - The given items
+ * @param equals - Whether an expected and a given item match
+ * @returns The aligned pairs, in order
+ */
+export const alignSequences = <T>(
+  expected: T[],
+  given: T[],
+  equals: (a: T, b: T) => boolean
+): AlignedPair<T>[] => {
+  const a = expected;
+  const b = given;
+
+  // distance[i][j] is the edit distance between the first i expected and first j given items
+  const distance: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      distance[i][j] = Math.min(
+        distance[i - 1][j - 1] + (equals(a[i - 1], b[j - 1]) ? 0 : 1),
+        distance[i - 1][j] + 1,
+        distance[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end, preferring matches and substitutions over gaps
+  const pairs: AlignedPair<T>[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const isMatch = equals(a[i - 1], b[j - 1]);
+      if (distance[i][j] === distance[i - 1][j - 1] + (isMatch ? 0 : 1)) {
+        pairs.unshift({ expected: a[i - 1], given: b[j - 1], isMatch });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && (j === 0 || distance[i][j] === distance[i - 1][j] + 1)) {
+      pairs.unshift({ expected: a[i - 1], given: null, isMatch: false });
+      i--;
+    } else {
+      pairs.unshift({ expected: null, given: b[j - 1], isMatch: false });
+      j--;
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Shuffles a copy of an array
+ * @param items - The items to shuffle
+ * @returns The items in random order
+ */
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,184 @@
+/**
+ * Spaced Repetition Scheduler
+ *
+ * An SM-2 style scheduler: every reviewed item carries an ease factor, an interval and a
+ * due date, and each "Again / Hard / Good / Easy" grade moves those forward. Items are
+ * identified by a string id, so the same scheduler works for glyphs and dictionary words.
+ */
+
+/**
+ * How well the learner recalled an item
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Scheduling state for one item
+ */
+export interface ReviewState {
+  /** The item's id, e.g. a glyph's English text ("A", "TH", "7") */
+  id: string;
+  /** SM-2 easiness factor; higher means intervals grow faster */
+  ease: number;
+  /** Days until the next review after the last successful one */
+  intervalDays: number;
+  /** Successful reviews in a row since the item was learned or last forgotten */
+  repetitions: number;
+  /** Times the item was forgotten after being learned */
+  lapses: number;
+  /** ISO timestamp when the item is next due */
+  dueAt: string;
+  /** ISO timestamp of the most recent review */
+  lastReviewedAt?: string;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A forgotten item comes back after this delay, within the same practice session
+ */
+const RELEARN_DELAY_MS = 60 * 1000;
+
+/**
+ * Items due within this window are shown early rather than ending a session while
+ * a just-forgotten card is still waiting out its relearn delay
+ */
+const LEARN_AHEAD_MS = 20 * 60 * 1000;
+
+/**
+ * Creates the state for an item that has never been reviewed
+ * @param id - The item's id
+ * @param now - The current time
+ * @returns A new state that is due immediately
+ */
+export const createReviewState = (id: string, now: Date = new Date()): ReviewState => ({
+  id,
+  ease: DEFAULT_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now.toISOString(),
+});
+
+/**
+ * Computes an item's next state after it is graded
+ * @param state - The item's current state
+ * @param grade - How well the learner recalled it
+ * @param now - The time of the review
+ * @returns The updated state with its new due date
+ */
+export const scheduleReview = (
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewState => {
+  const lastReviewedAt = now.toISOString();
+
+  if (grade === 'again') {
+    return {
+      ...state,
+      ease: Math.max(MIN_EASE, state.ease - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedAt,
+    };
+  }
+
+  // Standard SM-2 steps: one day, then six, then the previous interval times the ease
+  const goodInterval =
+    state.repetitions === 0 ? 1 :
+    state.repetitions === 1 ? 6 :
+    state.intervalDays * state.ease;
+
+  let ease = state.ease;
+  let intervalDays = goodInterval;
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    intervalDays = state.repetitions === 0 ? 1 : Math.max(1, state.intervalDays * 1.2);
+  } else if (grade === 'easy') {
+    ease += 0.15;
+    intervalDays = state.repetitions === 0 ? 4 : goodInterval * 1.3;
+  }
+
+  intervalDays = Math.round(intervalDays * 100) / 100;
+
+  return {
+    ...state,
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions: state.repetitions + 1,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt,
+  };
+};
+
+/**
+ * Builds the review queue for a set of items.
+ * Items due now (or within the learn-ahead window) come first, most overdue first,
+ * followed by items that have never been reviewed, in the order given.
+ * @param ids - The ids of every item in the deck
+ * @param states - Known scheduling states keyed by id
+ * @param now - The current time
+ * @returns The ids to review, in order
+ */
+export const buildReviewQueue = (
+  ids: string[],
+  states: Record<string, ReviewState>,
+  now: Date = new Date()
+): string[] => {
+  const cutoff = now.getTime() + LEARN_AHEAD_MS;
+
+  const due = ids
+    .filter(id => states[id] && new Date(states[id].dueAt).getTime() <= cutoff)
+    .sort((a, b) => new Date(states[a].dueAt).getTime() - new Date(states[b].dueAt).getTime());
+  const unseen = ids.filter(id => !states[id]);
+
+  return [...due, ...unseen];
+};
+
+/**
+ * Finds when the next item in a deck becomes due
+ * @param ids - The ids of every item in the deck
+ * @param states - Known scheduling states keyed by id
+ * @returns The earliest due date, or null if no item has been reviewed
+ */
+export const getNextDueDate = (
+  ids: string[],
+  states: Record<string, ReviewState>
+): Date | null => {
+  const dueTimes = ids
+    .filter(id => states[id])
+    .map(id => new Date(states[id].dueAt).getTime());
+
+  return dueTimes.length > 0 ? new Date(Math.min(...dueTimes)) : null;
+};
+
+/**
+ * Merges two sets of review states, keeping whichever copy of each item was reviewed last.
+ * Used to reconcile the local store with states synced from another device.
+ * @param local - States stored on this device
+ * @param remote - States loaded from the server
+ * @returns The merged states keyed by id
+ */
+export const mergeReviewStates = <T extends ReviewState>(
+  local: Record<string, T>,
+  remote: Record<string, T>
+): Record<string, T> => {
+  const merged: Record<string, T> = { ...local };
+
+  Object.values(remote).forEach(remoteState => {
+    const localState = merged[remoteState.id];
+    const localTime = localState?.lastReviewedAt ? new Date(localState.lastReviewedAt).getTime() : 0;
+    const remoteTime = remoteState.lastReviewedAt ? new Date(remoteState.lastReviewedAt).getTime() : 0;
+
+    if (!localState || remoteTime > localTime) {
+      merged[remoteState.id] = remoteState;
+    }
+  });
+
+  return merged;
+};
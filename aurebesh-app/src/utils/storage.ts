@@ -154,3 +154,19 @@ export const clearNetworkCache = async (): Promise<boolean> => {
     return false;
   }
 };
+
+/**
+ * Creates a queue that runs async tasks one at a time, in call order.
+ * Use it around AsyncStorage read-modify-write sequences so concurrent updates to the
+ * same key don't overwrite each other.
+ * @returns A function that schedules a task and resolves with its result
+ */
+export const createSerialQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task, task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
@@ -0,0 +1,221 @@
+/**
+ * Word Review Store
+ * Records every Read/Write attempt on a dictionary word and schedules the word with the
+ * spaced-repetition scheduler, so practice favours due and weak words over random ones.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewGrade, ReviewState, createReviewState, mergeReviewStates, scheduleReview } from './spacedRepetition';
+import { WordPair, getRandomWord, wordDictionary } from './dictionary';
+
+/**
+ * Practice modes with separate review histories (reading a word is easier than writing it)
+ */
+export type WordReviewMode = 'read' | 'write';
+
+/**
+ * How an attempt on a word ended
+ */
+export type WordAttemptOutcome = 'correct' | 'correctWithHint' | 'incorrect' | 'revealed';
+
+/**
+ * Review history and scheduling state for one word; the state's id is the word's English text
+ */
+export interface WordReview extends ReviewState {
+  attempts: number;
+  correct: number;
+}
+
+/**
+ * Options for choosing the next practice word
+ */
+export interface WordSelectionOptions {
+  /** Ignore review history and pick uniformly at random */
+  random?: boolean;
+  /** A word to avoid, normally the one just practised */
+  excludeEnglish?: string;
+  /** Words to choose from instead of the whole dictionary, e.g. a deck */
+  words?: WordPair[];
+}
+
+/**
+ * Scheduler grade for each attempt outcome
+ */
+const OUTCOME_GRADES: Record<WordAttemptOutcome, ReviewGrade> = {
+  correct: 'good',
+  correctWithHint: 'hard',
+  incorrect: 'again',
+  revealed: 'again',
+};
+
+/**
+ * When nothing is due or new, pick among this many of the weakest words
+ */
+const WEAK_WORD_POOL_SIZE = 3;
+
+/**
+ * Storage key for a user's word reviews in one mode (includes "progress" so storage
+ * usage counts it as learning progress)
+ */
+const getStorageKey = (mode: WordReviewMode, userId?: string): string =>
+  `@aurebesh_word_review_progress_${mode}_${userId ?? 'local'}`;
+
+/**
+ * Loads a user's word reviews for one practice mode
+ * @param mode - The practice mode
+ * @param userId - The signed-in user's id
+ * @returns Promise<Record<string, WordReview>> - Reviews keyed by English word
+ */
+export const loadWordReviews = async (
+  mode: WordReviewMode,
+  userId?: string
+): Promise<Record<string, WordReview>> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(mode, userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading word reviews:', error);
+    return {};
+  }
+};
+
+/**
+ * Records an attempt on a word and reschedules it
+ * @param mode - The practice mode the attempt was made in
+ * @param word - The word that was practised
+ * @param outcome - How the attempt ended
+ * @param userId - The signed-in user's id
+ * @returns Promise<Record<string, WordReview>> - All reviews including the update
+ */
+export const recordWordAttempt = async (
+  mode: WordReviewMode,
+  word: WordPair,
+  outcome: WordAttemptOutcome,
+  userId?: string
+): Promise<Record<string, WordReview>> => {
+  const reviews = await loadWordReviews(mode, userId);
+  const existing: WordReview = reviews[word.english] ?? {
+    ...createReviewState(word.english),
+    attempts: 0,
+    correct: 0,
+  };
+
+  const isCorrect = outcome === 'correct' || outcome === 'correctWithHint';
+  const updatedReviews = {
+    ...reviews,
+    [word.english]: {
+      ...existing,
+      ...scheduleReview(existing, OUTCOME_GRADES[outcome]),
+      attempts: existing.attempts + 1,
+      correct: existing.correct + (isCorrect ? 1 : 0),
+    },
+  };
+
+  try {
+    await AsyncStorage.setItem(getStorageKey(mode, userId), JSON.stringify(updatedReviews));
+  } catch (error) {
+    console.error('Error saving word review:', error);
+  }
+
+  return updatedReviews;
+};
+
+/**
+ * Moves word reviews made as a guest into a signed-in account.
+ * Where both have reviewed the same word, the more recent schedule is kept and the
+ * attempt counts are added together. The guest reviews are cleared afterwards.
+ * @param userId - The id of the account that now owns the reviews
+ * @returns Promise<boolean> - Success status
+ */
+export const migrateGuestWordReviews = async (userId: string): Promise<boolean> => {
+  const modes: WordReviewMode[] = ['read', 'write'];
+
+  try {
+    for (const mode of modes) {
+      const guestReviews = await loadWordReviews(mode);
+      if (Object.keys(guestReviews).length === 0) continue;
+
+      const userReviews = await loadWordReviews(mode, userId);
+      const merged = mergeReviewStates(userReviews, guestReviews);
+
+      Object.keys(merged).forEach(english => {
+        const guest = guestReviews[english];
+        const existing = userReviews[english];
+        if (guest && existing) {
+          merged[english] = {
+            ...merged[english],
+            attempts: guest.attempts + existing.attempts,
+            correct: guest.correct + existing.correct,
+          };
+        }
+      });
+
+      await AsyncStorage.setItem(getStorageKey(mode, userId), JSON.stringify(merged));
+      await AsyncStorage.removeItem(getStorageKey(mode));
+    }
+    return true;
+  } catch (error) {
+    console.error('Error migrating guest word reviews:', error);
+    return false;
+  }
+};
+
+/**
+ * Share of attempts on a word that were correct
+ */
+const getAccuracy = (review: WordReview): number =>
+  review.attempts > 0 ? review.correct / review.attempts : 0;
+
+/**
+ * Orders reviews weakest first: lowest accuracy, then the most overdue
+ */
+const compareWeakness = (a: WordReview, b: WordReview): number =>
+  getAccuracy(a) - getAccuracy(b) ||
+  new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
+
+/**
+ * Chooses the next word to practise at a difficulty.
+ * Due words come first (weakest first), then words never attempted, and once everything
+ * is scheduled for later, one of the weakest words. With `random` set this is
+ * equivalent to getRandomWord. A deck with no words at the difficulty is practised
+ * at every difficulty rather than not at all.
+ * @param difficulty - The difficulty to choose from
+ * @param reviews - The user's reviews for the current practice mode
+ * @param options - Selection options
+ * @returns The word to practise next
+ */
+export const selectNextWord = (
+  difficulty: 'easy' | 'medium' | 'hard',
+  reviews: Record<string, WordReview>,
+  options: WordSelectionOptions = {}
+): WordPair => {
+  const atDifficulty = (options.words ?? wordDictionary).filter(word => word.difficulty === difficulty);
+  const pool = options.words && atDifficulty.length === 0 ? options.words : atDifficulty;
+  const candidates = pool.filter(word => word.english !== options.excludeEnglish);
+
+  if (options.random || candidates.length === 0) {
+    if (!options.words) return getRandomWord(difficulty);
+    const choices = candidates.length > 0 ? candidates : pool;
+    return choices[Math.floor(Math.random() * choices.length)];
+  }
+
+  const now = Date.now();
+  const reviewed = candidates.filter(word => reviews[word.english]);
+
+  const due = reviewed
+    .filter(word => new Date(reviews[word.english].dueAt).getTime() <= now)
+    .sort((a, b) => compareWeakness(reviews[a.english], reviews[b.english]));
+  if (due.length > 0) {
+    return due[0];
+  }
+
+  const unseen = candidates.filter(word => !reviews[word.english]);
+  if (unseen.length > 0) {
+    return unseen[Math.floor(Math.random() * unseen.length)];
+  }
+
+  const weakest = reviewed
+    .sort((a, b) => compareWeakness(reviews[a.english], reviews[b.english]))
+    .slice(0, WEAK_WORD_POOL_SIZE);
+  return weakest[Math.floor(Math.random() * weakest.length)];
+};